@@ -1,16 +1,27 @@
 'use client';
 
 import { useEffect, useState, useRef } from 'react';
+import Link from 'next/link';
 import { useParams } from 'next/navigation';
 import { useStore } from '@/lib/store';
 import ChatPanel from '@/components/Chat/ChatPanel';
 import MindMapBoard from '@/components/MindMap/MindMapBoard';
+import KanbanView from '@/components/Views/KanbanView';
+import ChecklistView from '@/components/Views/ChecklistView';
+import ViewSwitcher, { WorkspaceView } from '@/components/Views/ViewSwitcher';
 import LoginButton from '@/components/Auth/LoginButton';
+import CollaborationBar from '@/components/Collab/CollaborationBar';
 import { PanelLeftClose, PanelLeftOpen } from 'lucide-react';
 import { clsx } from 'clsx';
 import { useAuth } from '@/contexts/AuthContext';
 import { doc, onSnapshot, setDoc } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { LOCAL_SESSION_PREFIX } from '@/lib/sessions';
+import { isLayoutKind } from '@/lib/layouts';
+import { loadMapView, openSharedMap, saveMapView, shareSession } from '@/lib/collab/sharing';
+import { connectSharedMap } from '@/lib/collab/sync';
+import { joinPresence } from '@/lib/collab/presence';
+import { SharedMap } from '@/lib/collab/types';
 
 export default function WorkspacePage() {
     const params = useParams();
@@ -24,15 +35,34 @@ export default function WorkspacePage() {
     const setMessages = useStore((state) => state.setMessages);
     const setNodes = useStore((state) => state.setNodes);
     const setEdges = useStore((state) => state.setEdges);
+    const clearHistory = useStore((state) => state.clearHistory);
+    const setReviewMode = useStore((state) => state.setReviewMode);
+    const setLayout = useStore((state) => state.setLayout);
+    const setSavedFilters = useStore((state) => state.setSavedFilters);
+    const setActiveFilter = useStore((state) => state.setActiveFilter);
+    const setRootId = useStore((state) => state.setRootId);
+    const setTreeMode = useStore((state) => state.setTreeMode);
 
     // Store State (for saving)
     const goal = useStore((state) => state.goal);
     const messages = useStore((state) => state.messages);
     const nodes = useStore((state) => state.nodes);
     const edges = useStore((state) => state.edges);
+    const reviewMode = useStore((state) => state.reviewMode);
+    const layout = useStore((state) => state.layout);
+    const savedFilters = useStore((state) => state.savedFilters);
+    const activeFilterId = useStore((state) => state.activeFilterId);
+    const rootId = useStore((state) => state.rootId);
+    const treeMode = useStore((state) => state.treeMode);
 
     const [isSidebarOpen, setIsSidebarOpen] = useState(true);
     const [isLoaded, setIsLoaded] = useState(false);
+    const [view, setView] = useState<WorkspaceView>('map');
+    // Set while the session is a shared map; its graph then syncs through `maps/{id}`
+    const [sharedMap, setSharedMap] = useState<SharedMap | null>(null);
+    const [accessLost, setAccessLost] = useState(false);
+    // Bumped to load the session again, e.g. once it has been moved to a shared map
+    const [reloadKey, setReloadKey] = useState(0);
 
     // Ref to track if we are currently loading data to prevent overwriting it with empty state immediately
     const isHydratingRef = useRef(true);
@@ -42,11 +72,58 @@ export default function WorkspacePage() {
         if (authLoading) return;
 
         let unsubscribe: () => void = () => { };
+        // Loading may await the network; a newer load (or unmount) must win
+        let cancelled = false;
 
         const loadData = async () => {
             isHydratingRef.current = true;
+            setAccessLost(false);
 
             if (user) {
+                // A shared map under this id takes precedence over a private session
+                let shared: SharedMap | null = null;
+                try {
+                    shared = await openSharedMap(id, user);
+                } catch (e) {
+                    console.error("Shared map lookup failed", e);
+                }
+                if (cancelled) return;
+                setSharedMap(shared);
+
+                if (shared) {
+                    const personal = await loadMapView(id, user.uid).catch((e) => {
+                        console.error("Map view load failed", e);
+                        return null;
+                    });
+                    if (cancelled) return;
+                    // Chat, layout and filters are each person's own; the graph and its settings come from the map
+                    if (personal) {
+                        setLayout(isLayoutKind(personal.layout) ? personal.layout : 'force');
+                        setSavedFilters(Array.isArray(personal.savedFilters) ? personal.savedFilters : []);
+                        setActiveFilter(personal.activeFilterId ?? null);
+                        setMessages(Array.isArray(personal.messages) ? personal.messages : []);
+                        if (typeof personal.reviewMode === 'boolean') setReviewMode(personal.reviewMode);
+                    }
+                    const disconnect = connectSharedMap(shared, user, {
+                        onReady: () => {
+                            if (!isHydratingRef.current) return;
+                            isHydratingRef.current = false;
+                            clearHistory();
+                            setIsLoaded(true);
+                        },
+                        onMap: (map) => {
+                            if (map) setSharedMap(map);
+                            else setAccessLost(true);
+                        },
+                    });
+                    const leave = joinPresence(id, user);
+                    unsubscribe = () => {
+                        leave();
+                        disconnect();
+                    };
+                    return;
+                }
+
                 // Cloud Sync
                 const sessionRef = doc(db, 'users', user.uid, 'sessions', id);
                 unsubscribe = onSnapshot(sessionRef, (doc) => {
@@ -57,30 +134,49 @@ export default function WorkspacePage() {
                         // We avoid loop by checking deep equality or trusting React state diffing, 
                         // but here we just set it. 
                         // WARN: This might cause "fighting" if we edit while multiple tabs open.
+                        // Layout first, so hydrated nodes are laid out by the session's engine
+                        setLayout(isLayoutKind(data.layout) ? data.layout : 'force');
+                        setSavedFilters(Array.isArray(data.savedFilters) ? data.savedFilters : []);
+                        setActiveFilter(data.activeFilterId ?? null);
+                        // Root and mode ahead of the graph, so its first integrity check uses them;
+                        // sessions saved before either existed fall back to the legacy root guess
+                        setTreeMode(data.treeMode !== false);
+                        setRootId(typeof data.rootId === 'string' ? data.rootId : null);
                         if (data.goal) setGoal(data.goal);
                         if (data.messages) setMessages(data.messages);
                         if (data.nodes) setNodes(data.nodes);
                         if (data.edges) setEdges(data.edges);
+                        if (typeof data.reviewMode === 'boolean') setReviewMode(data.reviewMode);
                     }
                     if (isHydratingRef.current) {
                         isHydratingRef.current = false;
+                        clearHistory(); // Don't let undo cross into another session
                         setIsLoaded(true);
                     }
                 });
             } else {
                 // Local Storage
-                const storedSession = localStorage.getItem(`idea-ai-session-${id}`);
+                const storedSession = localStorage.getItem(`${LOCAL_SESSION_PREFIX}${id}`);
                 if (storedSession) {
                     try {
                         const data = JSON.parse(storedSession);
+                        setLayout(isLayoutKind(data.layout) ? data.layout : 'force');
+                        setSavedFilters(Array.isArray(data.savedFilters) ? data.savedFilters : []);
+                        setActiveFilter(data.activeFilterId ?? null);
+                        // Root and mode ahead of the graph, so its first integrity check uses them;
+                        // sessions saved before either existed fall back to the legacy root guess
+                        setTreeMode(data.treeMode !== false);
+                        setRootId(typeof data.rootId === 'string' ? data.rootId : null);
                         if (data.goal) setGoal(data.goal);
                         if (data.messages) setMessages(data.messages);
                         if (data.nodes) setNodes(data.nodes);
                         if (data.edges) setEdges(data.edges);
+                        if (typeof data.reviewMode === 'boolean') setReviewMode(data.reviewMode);
                     } catch (e) {
                         console.error("Local storage load error", e);
                     }
                 }
+                clearHistory();
                 isHydratingRef.current = false;
                 setIsLoaded(true);
             }
@@ -88,12 +184,15 @@ export default function WorkspacePage() {
 
         loadData();
 
-        return () => unsubscribe();
-    }, [id, user, authLoading, setGoal, setMessages, setNodes, setEdges]);
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, [id, user, authLoading, reloadKey, setGoal, setMessages, setNodes, setEdges, clearHistory, setReviewMode, setLayout, setSavedFilters, setActiveFilter, setRootId, setTreeMode]);
 
-    // 2. Data Saving Effect (Debounced)
+    // 2. Data Saving Effect (Debounced). Shared maps save their graph as it changes (see connectSharedMap).
     useEffect(() => {
-        if (authLoading || isHydratingRef.current || !isLoaded) return;
+        if (authLoading || isHydratingRef.current || !isLoaded || sharedMap) return;
 
         const saveData = async () => {
             const sessionData = {
@@ -102,6 +201,12 @@ export default function WorkspacePage() {
                 messages,
                 nodes,
                 edges,
+                reviewMode,
+                layout,
+                savedFilters,
+                activeFilterId,
+                rootId,
+                treeMode,
                 updatedAt: Date.now(),
             };
 
@@ -113,15 +218,66 @@ export default function WorkspacePage() {
                     console.error("Cloud save failed", e);
                 }
             } else {
-                // Save to Local
-                localStorage.setItem(`idea-ai-session-${id}`, JSON.stringify(sessionData));
+                // Save to Local - merged so fields owned by the session library (e.g. title) survive
+                const key = `${LOCAL_SESSION_PREFIX}${id}`;
+                let stored = {};
+                try {
+                    stored = JSON.parse(localStorage.getItem(key) || '{}');
+                } catch {
+                    // Corrupt entry: overwrite it
+                }
+                localStorage.setItem(key, JSON.stringify({ ...stored, ...sessionData }));
             }
         };
 
         const timeoutId = setTimeout(saveData, 1000); // 1s debounce
         return () => clearTimeout(timeoutId);
 
-    }, [id, user, authLoading, isLoaded, goal, messages, nodes, edges]);
+    }, [id, user, authLoading, isLoaded, sharedMap, goal, messages, nodes, edges, reviewMode, layout, savedFilters, activeFilterId, rootId, treeMode]);
+
+    // 3. On a shared map, this person's own view (chat, layout, filters) is saved separately
+    const sharedMapId = sharedMap?.id;
+    useEffect(() => {
+        if (!user || !sharedMapId || isHydratingRef.current || !isLoaded) return;
+
+        const timeoutId = setTimeout(() => {
+            saveMapView(sharedMapId, user.uid, { messages, layout, savedFilters, activeFilterId, reviewMode })
+                .catch(e => console.error("Map view save failed", e));
+        }, 1000);
+        return () => clearTimeout(timeoutId);
+    }, [user, sharedMapId, isLoaded, messages, layout, savedFilters, activeFilterId, reviewMode]);
+
+    const startSharing = async () => {
+        if (!user) return;
+        // The private session is being moved; no debounced save may recreate it
+        isHydratingRef.current = true;
+        const state = useStore.getState();
+        try {
+            await shareSession(id, user, {
+                goal: state.goal,
+                messages: state.messages,
+                nodes: state.nodes,
+                edges: state.edges,
+                reviewMode: state.reviewMode,
+                layout: state.layout,
+                savedFilters: state.savedFilters,
+                activeFilterId: state.activeFilterId,
+                rootId: state.rootId,
+                treeMode: state.treeMode,
+            });
+        } catch (e) {
+            isHydratingRef.current = false;
+            throw e;
+        }
+        setReloadKey(key => key + 1);
+    };
+
+    if (accessLost) {
+        return <div className="flex flex-col gap-3 h-screen items-center justify-center bg-zinc-950 text-zinc-400">
+            <span>You no longer have access to this map.</span>
+            <Link href="/" className="text-sm text-indigo-400 hover:text-indigo-300">Back to your maps</Link>
+        </div>;
+    }
 
     if (authLoading || !isLoaded) {
         return <div className="flex h-screen items-center justify-center bg-zinc-950 text-zinc-500">
@@ -142,7 +298,7 @@ export default function WorkspacePage() {
                 <ChatPanel />
             </div>
 
-            {/* Main Board (Mind Map) */}
+            {/* Main Board (Mind Map, or the plan views of the same nodes) */}
             <div className="flex-1 relative">
                 <button
                     onClick={() => setIsSidebarOpen(!isSidebarOpen)}
@@ -150,7 +306,13 @@ export default function WorkspacePage() {
                 >
                     {isSidebarOpen ? <PanelLeftClose size={20} /> : <PanelLeftOpen size={20} />}
                 </button>
-                <MindMapBoard />
+                <div className="absolute top-4 left-16 z-10 flex items-center gap-2">
+                    <ViewSwitcher view={view} onChange={setView} />
+                    <CollaborationBar sharedMap={sharedMap} onShare={startSharing} />
+                </div>
+                {view === 'map' && <MindMapBoard />}
+                {view === 'kanban' && <KanbanView />}
+                {view === 'checklist' && <ChecklistView />}
             </div>
         </div>
     );
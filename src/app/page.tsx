@@ -7,6 +7,8 @@ import { ArrowRight, Sparkles, Brain, Zap, Map } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 import { clsx } from 'clsx';
 import { useStore } from '@/lib/store';
+import { LOCAL_SESSION_PREFIX } from '@/lib/sessions';
+import SessionLibrary from '@/components/Sessions/SessionLibrary';
 
 export default function LandingPage() {
   const [inputGoal, setInputGoal] = useState('');
@@ -21,7 +23,7 @@ export default function LandingPage() {
     const sessionId = uuidv4();
 
     if (typeof window !== 'undefined') {
-      localStorage.setItem(`idea-ai-session-${sessionId}`, JSON.stringify({
+      localStorage.setItem(`${LOCAL_SESSION_PREFIX}${sessionId}`, JSON.stringify({
         goal: inputGoal,
         timestamp: Date.now(),
       }));
@@ -153,6 +155,9 @@ export default function LandingPage() {
             AI-powered planning
           </div>
         </motion.div>
+
+        {/* Previous sessions */}
+        {mounted && <SessionLibrary />}
       </motion.div>
     </main>
   );
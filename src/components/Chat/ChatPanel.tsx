@@ -1,34 +1,54 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User as UserIcon, Loader2 } from 'lucide-react';
+import { Send, Bot, User as UserIcon, Loader2, Crosshair, X } from 'lucide-react';
 import { clsx } from 'clsx';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useStore } from '@/lib/store';
-import { aiService, parseAIResponse } from '@/services/ai';
-import { InitProgressReport } from '@mlc-ai/web-llm';
+import { useStore, selectFocusNode, selectCanEdit, createHistoryStep, runInHistoryStep, HistoryStep } from '@/lib/store';
+import { aiService, parseAIResponse, resolveLinks, resolveTopicParents, createRootNode, StreamingResponseParser, PendingPlacement, withTextFallback } from '@/services/ai';
+import { LOW_CONFIDENCE_THRESHOLD, buildAnchorIndex, refineAnchorWithEmbeddings } from '@/services/anchors';
+import { findRootId } from '@/lib/graph';
+import { toMindMapUpdate } from '@/services/mapSchema';
+import { PROVIDER_LABELS, ProviderProgressReport } from '@/services/providers';
 import ModelSelector from '@/components/ModelSelector';
 import LoginButton from '@/components/Auth/LoginButton';
+import PlacementPrompt from './PlacementPrompt';
+
+// A topic waiting for the user, with the undo step of the turn that proposed it
+type QueuedPlacement = PendingPlacement & { step: HistoryStep };
 
 export default function ChatPanel() {
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [loadingText, setLoadingText] = useState('');
     const [progress, setProgress] = useState(0);
+    // MESSAGE text of the reply currently streaming in (null when no reply is in flight)
+    const [streamingMessage, setStreamingMessage] = useState<string | null>(null);
+    // New topics waiting for the user to pick a parent, oldest first
+    const [pendingPlacements, setPendingPlacements] = useState<QueuedPlacement[]>([]);
 
     // V23: Get all required store methods
     const messages = useStore((state) => state.messages);
+    const rootId = useStore((state) => findRootId(state.nodes, state.rootId));
+    const focusNode = useStore(selectFocusNode);
+    const setFocusNode = useStore((state) => state.setFocusNode);
     const addMessage = useStore((state) => state.addMessage);
     const goal = useStore((state) => state.goal);
-    const nodes = useStore((state) => state.nodes);
     const getMindMapAsJSON = useStore((state) => state.getMindMapAsJSON);
     const setMindMapFromJSON = useStore((state) => state.setMindMapFromJSON);
     const getMessagesForAI = useStore((state) => state.getMessagesForAI);
+    // The chat builds the map, so viewers and commenters on a shared map only read it
+    const canEdit = useStore(selectCanEdit);
 
     // Proactive Greeting Ref to ensure it only runs once
     const hasInitializedRef = useRef(false);
     const scrollRef = useRef<HTMLDivElement>(null);
     const lastUserMessageRef = useRef<string>('');
+    // Focused node when the current turn started; selecting another node mid-reply does not move its topics
+    const turnFocusRef = useRef<string | null>(null);
+    // The current turn's undo step: the user's message, streamed topics, placements and reply undo together
+    const turnStepRef = useRef<HistoryStep>(createHistoryStep());
+    const inTurn = (mutate: () => void, step: HistoryStep = turnStepRef.current) => runInHistoryStep(step, mutate);
 
     // Auto-scroll to bottom
     useEffect(() => {
@@ -44,26 +64,20 @@ export default function ChatPanel() {
                 hasInitializedRef.current = true;
 
                 setIsLoading(true);
+                turnStepRef.current = createHistoryStep();
                 try {
                     // V23: Pass full context to AI
                     const chatHistory = [{ role: 'user', content: `My goal is: "${goal}".` }];
-                    const currentMapJSON = getMindMapAsJSON();
-
-                    const response = await aiService.chat(
-                        goal,
-                        chatHistory,
-                        currentMapJSON,
-                        (report: InitProgressReport) => {
-                            setLoadingText(report.text);
-                            if (report.progress) setProgress(report.progress);
-                        }
-                    );
 
-                    processAIResponse(response, true);
+                    await runTurn(chatHistory, true, (report: ProviderProgressReport) => {
+                        setLoadingText(report.text);
+                        if (report.progress) setProgress(report.progress);
+                    });
 
                 } catch (e) {
                     console.error("Proactive greeting failed", e);
-                    addMessage('assistant', "I am ready. State your goal constraint.");
+                    inTurn(() => addMessage('assistant', "I am ready. State your goal constraint."));
+                    setStreamingMessage(null);
                     setIsLoading(false);
                 }
             }
@@ -71,12 +85,92 @@ export default function ChatPanel() {
         initChat();
     }, [goal, messages.length]);
 
+    // Structured (JSON) mode when enabled, falling back to the streamed text format
+    // if the model cannot produce a valid document within the repair budget
+    const runTurn = async (
+        chatHistory: { role: string; content: string }[],
+        isFirstTurn: boolean,
+        onProgress?: (report: ProviderProgressReport) => void
+    ) => {
+        turnFocusRef.current = isFirstTurn ? null : selectFocusNode(useStore.getState())?.id ?? null;
+        if (aiService.isStructuredOutputEnabled()) {
+            await withTextFallback(
+                () => structuredTurn(chatHistory, onProgress),
+                () => streamTurn(chatHistory, isFirstTurn, onProgress)
+            );
+            return;
+        }
+        await streamTurn(chatHistory, isFirstTurn, onProgress);
+    };
+
+    const structuredTurn = async (
+        chatHistory: { role: string; content: string }[],
+        onProgress?: (report: ProviderProgressReport) => void
+    ) => {
+        const focusId = turnFocusRef.current;
+        const generation = await aiService.generateMap(goal, chatHistory, getMindMapAsJSON(), onProgress, focusId);
+        const update = toMindMapUpdate(generation, useStore.getState().nodes, goal, focusId ?? undefined, useStore.getState().rootId);
+        if (update.nodes.length > 0) {
+            inTurn(() => setMindMapFromJSON(update));
+        }
+        finishTurn(generation.message, generation.suggestions);
+    };
+
+    // Streams one AI turn: the MESSAGE text fills the bubble as it arrives and
+    // every completed TOPIC/NEWTOPIC line is merged into the board immediately
+    const streamTurn = async (
+        chatHistory: { role: string; content: string }[],
+        isFirstTurn: boolean,
+        onProgress?: (report: ProviderProgressReport) => void
+    ) => {
+        const lastUserMsg = lastUserMessageRef.current;
+
+        // First-turn topics hang off the goal node, so it has to exist before they stream in
+        if (isFirstTurn && useStore.getState().nodes.length === 0) {
+            inTurn(() => setMindMapFromJSON({ nodes: [createRootNode(goal)], edges: [] }));
+        }
+        const startNodes = useStore.getState().nodes;
+        const defaultParentId = turnFocusRef.current ?? findRootId(startNodes, useStore.getState().rootId) ?? 'root';
+
+        const parser = new StreamingResponseParser({
+            onMessage: setStreamingMessage,
+            onTopic: (topic, index) => {
+                // Read fresh nodes: earlier topics of this same reply are valid parents
+                const currentNodes = useStore.getState().nodes;
+                if (isFirstTurn) {
+                    const mapRootId = findRootId(currentNodes, useStore.getState().rootId)!;
+                    const aspectId = `aspect-${index + 1}`;
+                    inTurn(() => setMindMapFromJSON({
+                        nodes: [{ id: aspectId, label: topic.name, description: topic.desc }],
+                        edges: [{ source: mapRootId, target: aspectId }],
+                    }));
+                } else {
+                    const resolved = resolveTopicParents([topic], currentNodes, useStore.getState().edges, defaultParentId, lastUserMsg, index, useStore.getState().rootId);
+                    if (resolved.nodes.length > 0) inTurn(() => setMindMapFromJSON(resolved));
+                    settlePlacements(resolved.pending, lastUserMsg);
+                }
+            },
+        });
+
+        const response = await aiService.chat(goal, chatHistory, getMindMapAsJSON(), onProgress, (delta) => parser.push(delta), turnFocusRef.current);
+        parser.end();
+
+        // Links can name topics from anywhere in the reply, so they wait until all of it is on the board
+        const { nodes: boardNodes, staged } = useStore.getState();
+        const links = resolveLinks(parser.links, [...boardNodes, ...staged.nodes]);
+        if (parser.topicCount > 0 && links.length > 0) inTurn(() => setMindMapFromJSON({ nodes: [], edges: links }));
+
+        processAIResponse(response, isFirstTurn, parser.topicCount);
+    };
+
     // V44: Process AI response using parser with robust fallback
-    const processAIResponse = (response: string, isFirstTurn: boolean = false) => {
+    // Topics already placed while streaming are not merged a second time.
+    const processAIResponse = (response: string, isFirstTurn: boolean = false, streamedTopicCount: number = 0) => {
         console.log("V44 DEBUG: Raw AI response:", response);
 
+        const nodes = useStore.getState().nodes;
         const newNodeId = `node-${Date.now()}-user`;
-        const parentId = nodes.length > 0 ? nodes[0].id : 'root';
+        const parentId = turnFocusRef.current ?? findRootId(nodes, useStore.getState().rootId) ?? 'root';
         const lastUserMsg = lastUserMessageRef.current;
 
         let parsedData;
@@ -95,23 +189,23 @@ export default function ChatPanel() {
         // If no JSON or JSON failed, use text parser
         if (!parsedData || !parsedData.assistantResponse) {
             console.log("V44 DEBUG: Using text parser");
-            parsedData = parseAIResponse(response, goal, nodes, newNodeId, parentId, lastUserMsg);
+            parsedData = parseAIResponse(response, goal, isFirstTurn ? [] : nodes, useStore.getState().edges, newNodeId, parentId, lastUserMsg, useStore.getState().rootId);
             console.log("V44 DEBUG: Parsed result:", parsedData);
         }
 
-        let cleanResponse = parsedData.assistantResponse || "What would you like to explore?";
-        let suggestions = parsedData.suggestions || [];
-
-        // Clean up suggestions
-        suggestions = suggestions
-            .filter((s: string) => s && typeof s === 'string')
-            .map((s: string) => s.replace(/[\[\]]/g, '').trim())
-            .filter((s: string) => s.length > 0 && s.length < 100);
+        const cleanResponse = parsedData.assistantResponse || "What would you like to explore?";
+        const suggestions = parsedData.suggestions || [];
 
         // V44: Always update mind map - create fallback node if parsing failed
-        if (parsedData.updatedMindMap && parsedData.updatedMindMap.nodes?.length > 0) {
+        if (streamedTopicCount > 0) {
+            // Already on the board
+        } else if (parsedData.updatedMindMap && parsedData.updatedMindMap.nodes?.length > 0) {
             console.log("V44 DEBUG: Updating mind map:", parsedData.updatedMindMap);
-            setMindMapFromJSON(parsedData.updatedMindMap);
+            inTurn(() => setMindMapFromJSON(parsedData.updatedMindMap));
+            settlePlacements(parsedData.pendingPlacements || [], lastUserMsg);
+        } else if (parsedData.pendingPlacements?.length > 0) {
+            // Every topic needs the user's call; no need to invent a fallback node
+            settlePlacements(parsedData.pendingPlacements, lastUserMsg);
         } else if (!isFirstTurn && lastUserMsg) {
             // V44: Fallback - create node from user message anyway
             console.log("V44 DEBUG: Fallback - creating node from user message");
@@ -119,10 +213,66 @@ export default function ChatPanel() {
                 nodes: [{ id: newNodeId, label: lastUserMsg.slice(0, 30), description: lastUserMsg }],
                 edges: [{ source: parentId, target: newNodeId }]
             };
-            setMindMapFromJSON(fallbackData);
+            inTurn(() => setMindMapFromJSON(fallbackData));
         }
 
-        addMessage('assistant', cleanResponse, suggestions);
+        finishTurn(cleanResponse, suggestions);
+    };
+
+    // Placements can settle after their turn is over; they still join that turn's undo step
+    const placeTopic = (placement: PendingPlacement, parentId: string, step: HistoryStep) => {
+        inTurn(() => setMindMapFromJSON({
+            nodes: [{ id: placement.nodeId, label: placement.topic.name, description: placement.topic.desc }],
+            edges: [{ source: parentId, target: placement.nodeId }],
+        }), step);
+    };
+
+    // Uncertain placements get a second opinion from embeddings when enabled;
+    // whatever is still unclear after that is queued for the user to decide
+    const settlePlacements = async (pending: PendingPlacement[], lastUserMsg: string) => {
+        const step = turnStepRef.current;
+        for (const placement of pending) {
+            let anchor = placement.anchor;
+            if (aiService.isEmbeddingAnchorsEnabled() && aiService.canEmbed()) {
+                try {
+                    const { nodes: currentNodes, edges: currentEdges, rootId: currentRootId } = useStore.getState();
+                    anchor = await refineAnchorWithEmbeddings(
+                        buildAnchorIndex(currentNodes, currentEdges, currentRootId),
+                        { ...placement.topic, context: lastUserMsg },
+                        anchor,
+                        (texts) => aiService.embed(texts)
+                    );
+                } catch (e) {
+                    console.warn("Embedding re-rank failed, asking instead", e);
+                }
+            }
+
+            if (anchor.confidence >= LOW_CONFIDENCE_THRESHOLD) {
+                placeTopic(placement, anchor.parentId, step);
+            } else {
+                setPendingPlacements((queue) => [...queue, { ...placement, anchor, step }]);
+            }
+        }
+    };
+
+    const resolvePlacement = (parentId: string | null) => {
+        const [placement, ...rest] = pendingPlacements;
+        if (!placement) return;
+        if (parentId && useStore.getState().nodes.some(n => n.id === parentId)) {
+            placeTopic(placement, parentId, placement.step);
+        }
+        setPendingPlacements(rest);
+    };
+
+    const finishTurn = (message: string, rawSuggestions: unknown[]) => {
+        // Clean up suggestions
+        const suggestions = rawSuggestions
+            .filter((s): s is string => !!s && typeof s === 'string')
+            .map((s) => s.replace(/[\[\]]/g, '').trim())
+            .filter((s) => s.length > 0 && s.length < 100);
+
+        inTurn(() => addMessage('assistant', message, suggestions));
+        setStreamingMessage(null);
         setIsLoading(false);
         setLoadingText('');
         setProgress(0);
@@ -132,29 +282,27 @@ export default function ChatPanel() {
     const handleSend = async (textOverride?: string) => {
         const textToSend = typeof textOverride === 'string' ? textOverride : input;
 
-        if (!textToSend.trim() || isLoading) return;
+        if (!textToSend.trim() || isLoading || !canEdit) return;
 
         setInput('');
-        addMessage('user', textToSend);
+        // Earlier turns only: the request goes last, once
+        const chatHistory = [...getMessagesForAI(), { role: 'user', content: textToSend }];
+        turnStepRef.current = createHistoryStep();
+        inTurn(() => addMessage('user', textToSend));
         setIsLoading(true);
 
         // V42: Store last user message for parser
         lastUserMessageRef.current = textToSend;
 
         try {
-            const chatHistory = getMessagesForAI();
-            chatHistory.push({ role: 'user', content: textToSend });
             console.log("V42 DEBUG: Chat history being sent:", chatHistory);
 
-            const currentMapJSON = getMindMapAsJSON();
-            console.log("V42 DEBUG: Current map being sent:", currentMapJSON);
-
-            const response = await aiService.chat(goal, chatHistory, currentMapJSON);
-            processAIResponse(response, false);
+            await runTurn(chatHistory, false);
 
         } catch (error) {
             console.error("V34 DEBUG: AI Error:", error);
-            addMessage('assistant', "Sorry, I encountered an error connecting to the AI brain.");
+            inTurn(() => addMessage('assistant', "Sorry, I encountered an error connecting to the AI brain."));
+            setStreamingMessage(null);
             setIsLoading(false);
         }
     };
@@ -182,8 +330,21 @@ export default function ChatPanel() {
                     </div>
                 </div>
                 <p className="text-xs text-zinc-500 mt-1">
-                    {isLoading && progress > 0 && progress < 1 ? `Loading Brain: ${(progress * 100).toFixed(0)}%` : "Powered by WebLLM"}
+                    {isLoading && progress > 0 && progress < 1 ? `Loading Brain: ${(progress * 100).toFixed(0)}%` : `Powered by ${PROVIDER_LABELS[aiService.getProviderConfig().kind]}`}
                 </p>
+                {focusNode && (
+                    <div className="mt-2 inline-flex items-center gap-1.5 max-w-full pl-2 pr-1 py-0.5 rounded-full bg-indigo-500/15 border border-indigo-500/30 text-xs text-indigo-200">
+                        <Crosshair size={12} className="shrink-0" />
+                        <span className="truncate">Focus: {String(focusNode.data.label)}</span>
+                        <button
+                            onClick={() => setFocusNode(null)}
+                            title="Stop focusing on this node"
+                            className="p-0.5 rounded-full text-indigo-300 hover:text-white hover:bg-indigo-500/30 transition-colors"
+                        >
+                            <X size={12} />
+                        </button>
+                    </div>
+                )}
             </div>
 
             <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-6 scroll-smooth">
@@ -226,7 +387,7 @@ export default function ChatPanel() {
                                         <button
                                             key={idx}
                                             onClick={() => handleSend(option)}
-                                            disabled={isLoading}
+                                            disabled={isLoading || !canEdit}
                                             className="px-3 py-1.5 text-xs bg-zinc-800 hover:bg-indigo-900/40 text-indigo-300 border border-zinc-700 hover:border-indigo-500/30 rounded-full transition-all active:scale-95 disabled:opacity-50"
                                         >
                                             {option}
@@ -236,7 +397,23 @@ export default function ChatPanel() {
                             )}
                         </motion.div>
                     ))}
-                    {isLoading && (
+                    {streamingMessage !== null && (
+                        <motion.div
+                            key="streaming"
+                            initial={{ opacity: 0, y: 10 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            className="flex gap-3 mr-auto max-w-[90%]"
+                        >
+                            <div className="w-8 h-8 rounded-full bg-zinc-700 flex items-center justify-center shrink-0">
+                                <Bot size={14} />
+                            </div>
+                            <div className="p-3 rounded-2xl text-sm leading-relaxed whitespace-pre-wrap shadow-sm bg-zinc-800 text-zinc-300 rounded-tl-none border border-zinc-700">
+                                {streamingMessage}
+                                <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-indigo-400 animate-pulse" />
+                            </div>
+                        </motion.div>
+                    )}
+                    {isLoading && streamingMessage === null && (
                         <motion.div
                             initial={{ opacity: 0 }}
                             animate={{ opacity: 1 }}
@@ -255,19 +432,28 @@ export default function ChatPanel() {
             </div>
 
             <div className="p-4 bg-zinc-900/50 backdrop-blur-sm border-t border-zinc-800">
+                {pendingPlacements.length > 0 && (
+                    <PlacementPrompt
+                        placement={pendingPlacements[0]}
+                        queued={pendingPlacements.length - 1}
+                        rootId={rootId}
+                        onPlace={resolvePlacement}
+                        onDiscard={() => resolvePlacement(null)}
+                    />
+                )}
                 <div className="relative">
                     <textarea
                         value={input}
                         onChange={(e) => setInput(e.target.value)}
                         onKeyDown={handleKeyDown}
-                        placeholder="Describe your step..."
-                        className="w-full bg-zinc-800/50 text-zinc-200 rounded-xl px-4 py-3 pr-12 resize-none focus:outline-none focus:ring-2 focus:ring-indigo-500/50 border border-zinc-700 h-14 max-h-32"
-                        disabled={isLoading}
+                        placeholder={!canEdit ? "View only: ask an editor to change the map" : focusNode ? `Ask about ${String(focusNode.data.label)}...` : "Describe your step..."}
+                        className="w-full bg-zinc-800/50 text-zinc-200 rounded-xl px-4 py-3 pr-12 resize-none focus:outline-none focus:ring-2 focus:ring-indigo-500/50 border border-zinc-700 h-14 max-h-32 disabled:opacity-60"
+                        disabled={isLoading || !canEdit}
                     />
                     <button
                         // Pass undefined so it uses input state
                         onClick={() => handleSend()}
-                        disabled={!input.trim() || isLoading}
+                        disabled={!input.trim() || isLoading || !canEdit}
                         className="absolute right-2 top-2 p-2 bg-indigo-600 rounded-lg text-white hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                     >
                         <Send size={16} />
@@ -0,0 +1,58 @@
+'use client';
+
+import { MapPin, X } from 'lucide-react';
+import type { PendingPlacement } from '@/services/ai';
+
+interface PlacementPromptProps {
+    placement: PendingPlacement;
+    /** How many more placements are waiting behind this one */
+    queued: number;
+    rootId: string | undefined;
+    onPlace: (parentId: string) => void;
+    onDiscard: () => void;
+}
+
+// Asks where a new topic belongs when the anchor resolver was not confident enough to decide
+export default function PlacementPrompt({ placement, queued, rootId, onPlace, onDiscard }: PlacementPromptProps) {
+    const candidates = placement.anchor.candidates.slice(0, 3);
+
+    return (
+        <div className="mb-3 p-3 rounded-xl bg-zinc-800/80 border border-amber-500/30 text-sm">
+            <div className="flex items-start justify-between gap-2">
+                <p className="text-zinc-300 flex items-center gap-1.5">
+                    <MapPin size={14} className="text-amber-400 shrink-0" />
+                    <span>Where should <span className="font-medium text-zinc-100">&ldquo;{placement.topic.name}&rdquo;</span> go?</span>
+                </p>
+                <button
+                    onClick={onDiscard}
+                    title="Discard this topic"
+                    className="p-0.5 text-zinc-500 hover:text-zinc-300 transition-colors"
+                >
+                    <X size={14} />
+                </button>
+            </div>
+            <div className="flex flex-wrap gap-2 mt-2">
+                {candidates.map((candidate) => (
+                    <button
+                        key={candidate.id}
+                        onClick={() => onPlace(candidate.id)}
+                        className="px-3 py-1 text-xs bg-zinc-900 hover:bg-indigo-900/40 text-indigo-300 border border-zinc-700 hover:border-indigo-500/30 rounded-full transition-all active:scale-95"
+                    >
+                        Under {candidate.label}
+                    </button>
+                ))}
+                {rootId && (
+                    <button
+                        onClick={() => onPlace(rootId)}
+                        className="px-3 py-1 text-xs bg-zinc-900 hover:bg-zinc-700 text-zinc-300 border border-zinc-700 rounded-full transition-all active:scale-95"
+                    >
+                        Under the goal
+                    </button>
+                )}
+            </div>
+            {queued > 0 && (
+                <p className="text-[11px] text-zinc-500 mt-2">{queued} more topic{queued === 1 ? '' : 's'} waiting for a place</p>
+            )}
+        </div>
+    );
+}
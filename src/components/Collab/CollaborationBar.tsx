@@ -0,0 +1,198 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Link2, Loader2, Share2, UserPlus, X } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useStore } from '@/lib/store';
+import { changeMemberRole, inviteCollaborator, removeMember, revokeInvite } from '@/lib/collab/sharing';
+import { MAP_ROLES, MapRole, SharedMap, collaboratorColor } from '@/lib/collab/types';
+
+interface CollaborationBarProps {
+    // The open map when it is shared, null for a private session
+    sharedMap: SharedMap | null;
+    // Turns the private session into a shared map
+    onShare: () => Promise<void>;
+}
+
+const selectClass = 'bg-zinc-950 border border-zinc-700 rounded-md px-1.5 py-1 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500';
+
+const initialOf = (name: string) => (name.trim()[0] || '?').toUpperCase();
+
+// Who else is on the map right now, and the share menu
+export default function CollaborationBar({ sharedMap, onShare }: CollaborationBarProps) {
+    const [open, setOpen] = useState(false);
+    const collaborators = useStore((state) => state.collaborators);
+
+    return (
+        <div className="relative flex items-center gap-2">
+            {collaborators.length > 0 && (
+                <div className="flex -space-x-2">
+                    {collaborators.map(c => (
+                        <div
+                            key={c.uid}
+                            className="w-8 h-8 rounded-full border-2 border-zinc-900 flex items-center justify-center text-xs font-bold text-zinc-950"
+                            style={{ backgroundColor: c.color }}
+                            title={`${c.name} is here`}
+                        >
+                            {initialOf(c.name)}
+                        </div>
+                    ))}
+                </div>
+            )}
+            <button
+                onClick={() => setOpen(!open)}
+                className={`flex items-center gap-1.5 px-3 py-2 text-xs rounded-lg border backdrop-blur transition-colors ${open ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-zinc-800/80 border-zinc-700 text-zinc-300 hover:bg-zinc-700 hover:text-white'}`}
+            >
+                <Share2 size={14} /> Share
+            </button>
+            {open && <ShareMenu sharedMap={sharedMap} onShare={onShare} onClose={() => setOpen(false)} />}
+        </div>
+    );
+}
+
+interface ShareMenuProps extends CollaborationBarProps {
+    onClose: () => void;
+}
+
+function ShareMenu({ sharedMap, onShare, onClose }: ShareMenuProps) {
+    const { user } = useAuth();
+    const [email, setEmail] = useState('');
+    const [role, setRole] = useState<MapRole>('editor');
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+
+    // Every membership change reports its failure in the menu instead of throwing
+    const run = async (action: () => Promise<void>) => {
+        setBusy(true);
+        setError(null);
+        try {
+            await action();
+        } catch (e) {
+            console.error("Sharing failed", e);
+            setError(e instanceof Error ? e.message : 'Something went wrong');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const invite = () => run(async () => {
+        if (!sharedMap || !email.trim()) return;
+        await inviteCollaborator(sharedMap.id, email, role);
+        setEmail('');
+    });
+
+    const copyLink = async () => {
+        await navigator.clipboard.writeText(window.location.href);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+    };
+
+    let body;
+    if (!user) {
+        body = <p className="text-zinc-400">Sign in to share this map. Maps kept in this browser stay private.</p>;
+    } else if (!sharedMap) {
+        body = (
+            <>
+                <p className="text-zinc-400">This map is private. Sharing moves it to a shared space where you can invite people by email.</p>
+                <button
+                    onClick={() => run(onShare)}
+                    disabled={busy}
+                    className="w-full flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-md bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50"
+                >
+                    {busy ? <Loader2 size={12} className="animate-spin" /> : <Share2 size={12} />} Start sharing
+                </button>
+            </>
+        );
+    } else {
+        const isOwner = sharedMap.ownerId === user.uid;
+        body = (
+            <>
+                {isOwner && (
+                    <div className="flex items-center gap-1">
+                        <input
+                            type="email"
+                            value={email}
+                            onChange={(e) => setEmail(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') invite(); }}
+                            placeholder="Invite by email"
+                            className="flex-1 min-w-0 bg-zinc-950 border border-zinc-700 rounded-md px-2 py-1 text-zinc-200 placeholder:text-zinc-600 focus:outline-none focus:border-indigo-500"
+                        />
+                        <select value={role} onChange={(e) => setRole(e.target.value as MapRole)} className={selectClass}>
+                            {MAP_ROLES.map(r => <option key={r.value} value={r.value} title={r.hint}>{r.label}</option>)}
+                        </select>
+                        <button onClick={invite} disabled={busy || !email.trim()} className="p-1.5 rounded-md bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50" title="Invite">
+                            <UserPlus size={12} />
+                        </button>
+                    </div>
+                )}
+                <ul className="space-y-1.5">
+                    {Object.entries(sharedMap.members).map(([uid, member]) => (
+                        <li key={uid} className="flex items-center gap-2">
+                            <span
+                                className="w-6 h-6 shrink-0 rounded-full flex items-center justify-center text-[10px] font-bold text-zinc-950"
+                                style={{ backgroundColor: collaboratorColor(uid) }}
+                            >
+                                {initialOf(member.name)}
+                            </span>
+                            <span className="flex-1 min-w-0">
+                                <span className="block truncate text-zinc-200">{member.name}{uid === user.uid && ' (you)'}</span>
+                                <span className="block truncate text-[10px] text-zinc-500">{member.email}</span>
+                            </span>
+                            {uid === sharedMap.ownerId ? (
+                                <span className="text-zinc-500">Owner</span>
+                            ) : isOwner ? (
+                                <>
+                                    <select
+                                        value={member.role}
+                                        onChange={(e) => run(() => changeMemberRole(sharedMap.id, uid, e.target.value as MapRole))}
+                                        disabled={busy}
+                                        className={selectClass}
+                                    >
+                                        {MAP_ROLES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                                    </select>
+                                    <button onClick={() => run(() => removeMember(sharedMap.id, uid))} disabled={busy} className="p-1 text-zinc-500 hover:text-red-400" title="Remove from the map">
+                                        <X size={12} />
+                                    </button>
+                                </>
+                            ) : (
+                                <span className="text-zinc-500">{MAP_ROLES.find(r => r.value === member.role)?.label}</span>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+                {isOwner && sharedMap.inviteEmails.length > 0 && (
+                    <div className="space-y-1">
+                        <div className="text-[10px] uppercase tracking-wide text-zinc-500">Invited</div>
+                        {sharedMap.inviteEmails.map(invited => (
+                            <div key={invited} className="flex items-center gap-2">
+                                <span className="flex-1 truncate text-zinc-300">{invited}</span>
+                                <span className="text-zinc-500">{MAP_ROLES.find(r => r.value === sharedMap.invites[invited])?.label}</span>
+                                <button onClick={() => run(() => revokeInvite(sharedMap.id, invited))} disabled={busy} className="p-1 text-zinc-500 hover:text-red-400" title="Withdraw invite">
+                                    <X size={12} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                <button onClick={copyLink} className="w-full flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-md border border-zinc-700 text-zinc-300 hover:bg-zinc-700 hover:text-white">
+                    {copied ? <Check size={12} /> : <Link2 size={12} />} {copied ? 'Link copied' : 'Copy link'}
+                </button>
+                <p className="text-[10px] text-zinc-500">Invited people open the link signed in with that email.</p>
+            </>
+        );
+    }
+
+    return (
+        <div className="absolute left-0 top-full mt-2 w-80 bg-zinc-800 border border-zinc-700 rounded-lg shadow-2xl p-3 space-y-3 text-xs">
+            <div className="flex items-center justify-between">
+                <span className="font-medium text-zinc-200">Share map</span>
+                <button onClick={onClose} className="p-0.5 text-zinc-500 hover:text-zinc-300">
+                    <X size={14} />
+                </button>
+            </div>
+            {body}
+            {error && <p className="text-red-400">{error}</p>}
+        </div>
+    );
+}
@@ -0,0 +1,15 @@
+import { createContext, useContext } from 'react';
+import { BranchInfo } from '@/lib/graph';
+import { TaskProgress } from '@/lib/tasks';
+
+const NO_BRANCH: BranchInfo = { childCount: 0, hiddenCount: 0 };
+
+// Per-node branch info computed once by MindMapBoard, so nodes don't each walk the graph
+export const BranchContext = createContext<Map<string, BranchInfo>>(new Map());
+
+export const useBranchInfo = (id: string): BranchInfo => useContext(BranchContext).get(id) || NO_BRANCH;
+
+// Task completion rolled up per branch (see computeProgress); absent for branches without tasks
+export const ProgressContext = createContext<Map<string, TaskProgress>>(new Map());
+
+export const useTaskProgress = (id: string): TaskProgress | undefined => useContext(ProgressContext).get(id);
@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import { Sparkles, X } from 'lucide-react';
+import { MAX_BRANCH_BREADTH, MAX_BRANCH_DEPTH, countBranchCalls } from '@/services/branch';
+
+interface BranchFormProps {
+    onGenerate: (breadth: number, depth: number) => void;
+    onClose: () => void;
+}
+
+// Breadth/depth picker for AI branch expansion, shown over the node it expands
+export default function BranchForm({ onGenerate, onClose }: BranchFormProps) {
+    const [breadth, setBreadth] = useState(3);
+    const [depth, setDepth] = useState(1);
+    const calls = countBranchCalls(breadth, depth);
+
+    const label = 'flex items-center justify-between gap-2 text-[10px] uppercase tracking-wide text-zinc-500';
+    const field = 'w-14 bg-zinc-950 border border-zinc-700 rounded-md px-1.5 py-1 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500';
+
+    return (
+        <div
+            className="nodrag absolute right-0 top-10 z-50 w-52 bg-zinc-800 border border-zinc-700 rounded-lg shadow-2xl p-3 flex flex-col gap-2"
+            onClick={(e) => e.stopPropagation()}
+        >
+            <div className="flex items-center justify-between">
+                <span className="text-xs font-medium text-zinc-200 flex items-center gap-1.5"><Sparkles size={12} className="text-indigo-400" /> Expand with AI</span>
+                <button onClick={onClose} className="p-0.5 text-zinc-500 hover:text-zinc-300" title="Close">
+                    <X size={12} />
+                </button>
+            </div>
+            <label className={label}>
+                Children per node
+                <select value={breadth} onChange={(e) => setBreadth(Number(e.target.value))} className={field}>
+                    {Array.from({ length: MAX_BRANCH_BREADTH }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+            </label>
+            <label className={label}>
+                Levels
+                <select value={depth} onChange={(e) => setDepth(Number(e.target.value))} className={field}>
+                    {Array.from({ length: MAX_BRANCH_DEPTH }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+            </label>
+            <p className="text-[10px] text-zinc-500">
+                Up to {calls * breadth} new nodes, {calls} AI call{calls === 1 ? '' : 's'}
+            </p>
+            <button
+                onClick={() => onGenerate(breadth, depth)}
+                className="px-3 py-1.5 text-xs bg-indigo-600 hover:bg-indigo-500 text-white rounded-md transition-colors"
+            >
+                Generate
+            </button>
+        </div>
+    );
+}
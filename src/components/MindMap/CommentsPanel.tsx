@@ -0,0 +1,95 @@
+import { Panel } from '@xyflow/react';
+import { useEffect, useMemo, useState } from 'react';
+import { MessageSquare, Send, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { selectFocusNode, useStore } from '@/lib/store';
+import { addComment, deleteComment, subscribeComments } from '@/lib/collab/comments';
+import { MapComment, canCommentOnMap } from '@/lib/collab/types';
+
+const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+
+// Comment thread of the focused node on a shared map; sits above the minimap
+export default function CommentsPanel() {
+    const { user } = useAuth();
+    const mapAccess = useStore((state) => state.mapAccess);
+    const focusNode = useStore(selectFocusNode);
+    const [comments, setComments] = useState<MapComment[]>([]);
+    const [draft, setDraft] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const mapId = mapAccess?.mapId;
+
+    useEffect(() => {
+        if (!mapId) return;
+        return subscribeComments(mapId, setComments);
+    }, [mapId]);
+
+    const thread = useMemo(() => comments.filter(c => c.nodeId === focusNode?.id), [comments, focusNode]);
+
+    if (!mapAccess || !focusNode || !user) return null;
+
+    const canComment = canCommentOnMap(mapAccess.role);
+
+    const submit = async () => {
+        const text = draft.trim();
+        if (!text) return;
+        setError(null);
+        setDraft('');
+        try {
+            await addComment(mapAccess.mapId, user, focusNode.id, text);
+        } catch (e) {
+            console.error("Comment failed", e);
+            setError('Could not post the comment');
+            setDraft(text);
+        }
+    };
+
+    return (
+        <Panel position="bottom-right" style={{ marginBottom: 180 }}>
+            <div className="w-72 bg-zinc-800 border border-zinc-700 rounded-lg shadow-lg text-xs text-zinc-300">
+                <div className="flex items-center gap-1.5 px-3 py-2 border-b border-zinc-700">
+                    <MessageSquare size={12} className="text-zinc-500 shrink-0" />
+                    <span className="truncate">Comments on {String(focusNode.data.label)}</span>
+                    <span className="ml-auto text-zinc-500">{thread.length}</span>
+                </div>
+                <div className="max-h-48 overflow-auto nowheel">
+                    {thread.length === 0 && <p className="px-3 py-2 text-zinc-500">No comments yet.</p>}
+                    {thread.map(c => (
+                        <div key={c.id} className="group px-3 py-2 border-b border-zinc-700/60 last:border-b-0">
+                            <div className="flex items-center gap-1.5 text-[10px] text-zinc-500">
+                                <span className="text-zinc-300 font-medium">{c.authorName}</span>
+                                {formatTime(c.createdAt)}
+                                {c.authorId === user.uid && (
+                                    <button
+                                        onClick={() => deleteComment(mapAccess.mapId, c.id).catch(e => console.error("Could not delete comment", e))}
+                                        className="ml-auto p-0.5 text-zinc-500 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                                        title="Delete comment"
+                                    >
+                                        <Trash2 size={10} />
+                                    </button>
+                                )}
+                            </div>
+                            <p className="mt-0.5 whitespace-pre-wrap break-words">{c.text}</p>
+                        </div>
+                    ))}
+                </div>
+                {canComment && (
+                    <div className="flex items-center gap-1 p-2 border-t border-zinc-700">
+                        <input
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') submit(); }}
+                            placeholder="Add a comment"
+                            maxLength={2000}
+                            className="flex-1 bg-zinc-950 border border-zinc-700 rounded-md px-2 py-1 text-zinc-200 placeholder:text-zinc-600 focus:outline-none focus:border-indigo-500"
+                        />
+                        <button onClick={submit} disabled={!draft.trim()} className="p-1.5 rounded-md bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50">
+                            <Send size={12} />
+                        </button>
+                    </div>
+                )}
+                {error && <p className="px-3 pb-2 text-red-400">{error}</p>}
+            </div>
+        </Panel>
+    );
+}
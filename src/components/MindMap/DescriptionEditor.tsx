@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import MarkdownDescription from './MarkdownDescription';
+
+interface DescriptionEditorProps {
+    initialValue: string;
+    onSave: (value: string) => void;
+    onCancel: () => void;
+}
+
+// Markdown source with a Write/Preview toggle. Ctrl/Cmd+Enter saves, Escape cancels.
+export default function DescriptionEditor({ initialValue, onSave, onCancel }: DescriptionEditorProps) {
+    const [value, setValue] = useState(initialValue);
+    const [tab, setTab] = useState<'write' | 'preview'>('write');
+
+    const tabClass = (active: boolean) =>
+        `px-2 py-1 rounded-md ${active ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-zinc-200'}`;
+
+    return (
+        <div className="nodrag nowheel space-y-2" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center gap-1 text-xs">
+                <button className={tabClass(tab === 'write')} onClick={() => setTab('write')}>Write</button>
+                <button className={tabClass(tab === 'preview')} onClick={() => setTab('preview')}>Preview</button>
+                <span className="ml-auto text-zinc-500">Markdown</span>
+            </div>
+
+            {tab === 'write' ? (
+                <textarea
+                    autoFocus
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Escape') onCancel();
+                        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) onSave(value);
+                    }}
+                    placeholder={'- [ ] A task\n- **Bold** point\n- [A link](https://example.com)'}
+                    className="w-full min-h-[140px] bg-zinc-950 border border-zinc-700 rounded-lg p-2 text-sm text-zinc-200 font-mono focus:outline-none focus:border-indigo-500 resize-y"
+                />
+            ) : (
+                <div className="min-h-[140px] max-h-[300px] overflow-auto bg-zinc-950 border border-zinc-700 rounded-lg p-2">
+                    {value.trim()
+                        ? <MarkdownDescription source={value} onChange={setValue} />
+                        : <span className="text-zinc-500 italic text-xs">Nothing to preview.</span>}
+                </div>
+            )}
+
+            <div className="flex justify-end gap-2 text-xs">
+                <button onClick={onCancel} className="px-2 py-1 rounded-md text-zinc-400 hover:text-zinc-200">Cancel</button>
+                <button onClick={() => onSave(value)} className="px-3 py-1 rounded-md bg-indigo-600 text-white hover:bg-indigo-500">Save</button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,130 @@
+import { Panel, useReactFlow } from '@xyflow/react';
+import { useMemo, useState } from 'react';
+import { Combine, Loader2, X } from 'lucide-react';
+import { useStore, selectCanEdit } from '@/lib/store';
+import { aiService } from '@/services/ai';
+import { DuplicateSuggestion, confirmWithEmbeddings, findDuplicates } from '@/services/duplicates';
+
+const pairKey = (s: DuplicateSuggestion) => [s.targetId, s.sourceId].sort().join('|');
+
+// Suggested merges for near-duplicate nodes; sits under the fold controls
+export default function DuplicatesPanel() {
+    const { fitView } = useReactFlow();
+    const [isOpen, setIsOpen] = useState(false);
+    // Only labels, links and the root matter to the scan, so dragging nodes around does not redo it
+    const graphKey = useStore((state) => isOpen
+        ? `${state.rootId}#${state.nodes.map(n => `${n.id}:${n.data.label}`).join('|')}#${state.edges.map(e => `${e.source}>${e.target}`).join('|')}`
+        : '');
+    const mergeNodes = useStore((state) => state.mergeNodes);
+    const canEdit = useStore(selectCanEdit);
+    const revealNode = useStore((state) => state.revealNode);
+    const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+    const [semantic, setSemantic] = useState<DuplicateSuggestion[]>([]);
+    const [isEmbedding, setIsEmbedding] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const scan = useMemo(() => {
+        if (!graphKey) return null;
+        const { nodes, edges, rootId } = useStore.getState();
+        return findDuplicates(nodes, edges, rootId);
+    }, [graphKey]);
+
+    // Lexical and embedding suggestions together, without pairs already merged away or dismissed
+    const suggestions = useMemo(() => {
+        if (!scan) return [];
+        const nodeIds = new Set(useStore.getState().nodes.map(n => n.id));
+        const seen = new Set(dismissed);
+        return [...scan.suggestions, ...semantic].filter(s => {
+            const key = pairKey(s);
+            if (seen.has(key) || !nodeIds.has(s.targetId) || !nodeIds.has(s.sourceId)) return false;
+            seen.add(key);
+            return true;
+        });
+    }, [scan, semantic, dismissed]);
+
+    const jumpTo = (id: string) => {
+        revealNode(id);
+        setTimeout(() => fitView({ nodes: [{ id }], duration: 500, maxZoom: 1.2, padding: 0.5 }), 60);
+    };
+
+    const checkWithEmbeddings = async () => {
+        if (!scan) return;
+        setError(null);
+        setIsEmbedding(true);
+        try {
+            setSemantic(await confirmWithEmbeddings(useStore.getState().nodes, scan.borderline, (texts) => aiService.embed(texts)));
+        } catch (e) {
+            console.error("Embedding duplicate check failed", e);
+            setError('Could not load the embedding model');
+        } finally {
+            setIsEmbedding(false);
+        }
+    };
+
+    return (
+        <Panel position="top-left" style={{ marginTop: 156 }}>
+            <div className="bg-zinc-800 border border-zinc-700 rounded-lg shadow-lg text-xs text-zinc-300 w-72">
+                <button
+                    onClick={() => setIsOpen(!isOpen)}
+                    className="w-full flex items-center gap-1.5 px-3 py-2 hover:bg-zinc-700 hover:text-white rounded-lg transition-colors"
+                >
+                    <Combine size={12} /> Find duplicates
+                    {isOpen && <span className="ml-auto text-zinc-500">{suggestions.length} found</span>}
+                </button>
+
+                {isOpen && (
+                    <div className="border-t border-zinc-700 max-h-72 overflow-auto nowheel">
+                        {suggestions.length === 0 && (
+                            <p className="px-3 py-2 text-zinc-500">No likely duplicates.</p>
+                        )}
+                        {suggestions.map(s => (
+                            <div key={pairKey(s)} className="px-3 py-2 border-b border-zinc-700/60 last:border-b-0">
+                                <div className="flex items-start justify-between gap-2">
+                                    <div className="min-w-0">
+                                        <button onClick={() => jumpTo(s.targetId)} className="block truncate max-w-full text-zinc-100 hover:text-indigo-300" title="Show on the map">
+                                            {s.targetLabel}
+                                        </button>
+                                        <button onClick={() => jumpTo(s.sourceId)} className="block truncate max-w-full text-zinc-400 hover:text-indigo-300" title="Show on the map">
+                                            {s.sourceLabel}
+                                        </button>
+                                    </div>
+                                    <button
+                                        onClick={() => setDismissed(new Set([...dismissed, pairKey(s)]))}
+                                        className="p-0.5 text-zinc-500 hover:text-zinc-300 shrink-0"
+                                        title="Not a duplicate"
+                                    >
+                                        <X size={12} />
+                                    </button>
+                                </div>
+                                <div className="flex items-center justify-between mt-1.5">
+                                    <span className="text-[10px] text-zinc-500">
+                                        {Math.round(s.score * 100)}% · {s.reason === 'semantic' ? 'similar meaning' : s.reason === 'tokens' ? 'same words' : 'similar spelling'}
+                                    </span>
+                                    <button
+                                        onClick={() => mergeNodes(s.targetId, [s.sourceId])}
+                                        disabled={!canEdit}
+                                        className="px-2 py-0.5 rounded-md bg-indigo-600 hover:bg-indigo-500 text-white transition-colors disabled:opacity-50 disabled:hover:bg-indigo-600"
+                                        title={`Fold "${s.sourceLabel}" into "${s.targetLabel}"`}
+                                    >
+                                        Merge
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                        {aiService.canEmbed() && scan && scan.borderline.length > 0 && (
+                            <button
+                                onClick={checkWithEmbeddings}
+                                disabled={isEmbedding}
+                                className="w-full flex items-center justify-center gap-1.5 px-3 py-2 text-indigo-300 hover:bg-zinc-700 disabled:opacity-50"
+                            >
+                                {isEmbedding && <Loader2 size={12} className="animate-spin" />}
+                                Check {scan.borderline.length} near miss{scan.borderline.length === 1 ? '' : 'es'} by meaning
+                            </button>
+                        )}
+                        {error && <p className="px-3 py-2 text-red-400">{error}</p>}
+                    </div>
+                )}
+            </div>
+        </Panel>
+    );
+}
@@ -1,64 +1,137 @@
 import { memo, useState } from 'react';
 import { Handle, Position, NodeProps, Node } from '@xyflow/react';
-import { ChevronDown, ChevronRight, Lightbulb, MoreVertical, Plus, Trash2, Copy } from 'lucide-react';
+import { ChevronDown, ChevronRight, Lightbulb, MoreVertical, Plus, Trash2, Copy, Check, X, Sparkles, Pin, PinOff, Pencil, ListCollapse, Wand2, Scissors, Merge, MessageSquareWarning, Crown } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useStore } from '@/lib/store';
-import { aiService } from '@/services/ai';
+import { useStore, selectCanEdit } from '@/lib/store';
+import { cancelBranchExpansion, expandBranch } from '@/services/branch';
+import { NodeActionResult, critiqueNode, mergeSelected, rewriteDescription, splitNode, summarizeBranch } from '@/services/nodeActions';
+import { useBranchInfo, useTaskProgress } from './BranchContext';
+import { useSearchHighlight } from './SearchContext';
+import { readTags } from '@/lib/search';
+import { findRootId } from '@/lib/graph';
+import { readTask, TaskFields } from '@/lib/tasks';
+import ProgressRing from './ProgressRing';
+import TaskChips from './TaskChips';
+import TaskEditor from './TaskEditor';
+import MarkdownDescription from './MarkdownDescription';
+import DescriptionEditor from './DescriptionEditor';
+import BranchForm from './BranchForm';
+import RewriteForm from './RewriteForm';
 
-interface ExpandableNodeData extends Record<string, unknown> {
+interface ExpandableNodeData extends Record<string, unknown>, TaskFields {
     label: string;
     description?: string;
     imageUrl?: string;
+    pinned?: boolean;
+    collapsed?: boolean;
+    tags?: string[];
 }
 
-const ExpandableNode = ({ id, data }: NodeProps<Node<ExpandableNodeData>>) => {
+const HIGHLIGHT_CLASSES = {
+    current: 'ring-4 ring-amber-300',
+    match: 'ring-2 ring-amber-400/70',
+    dimmed: 'opacity-25',
+    none: '',
+};
+
+const ExpandableNode = ({ id, data, selected }: NodeProps<Node<ExpandableNodeData>>) => {
     const [isExpanded, setIsExpanded] = useState(false);
     const [isMenuOpen, setIsMenuOpen] = useState(false);
+    const [isEditingLabel, setIsEditingLabel] = useState(false);
+    const [labelDraft, setLabelDraft] = useState(data.label);
+    const [isEditingDescription, setIsEditingDescription] = useState(false);
+    const [isBranchFormOpen, setIsBranchFormOpen] = useState(false);
+    const [isRewriteFormOpen, setIsRewriteFormOpen] = useState(false);
+    // Label of the one-shot AI action running on this node, if any
+    const [runningAction, setRunningAction] = useState<string | null>(null);
 
     const deleteNode = useStore((state) => state.deleteNode);
     const duplicateNode = useStore((state) => state.duplicateNode);
-    const addNode = useStore((state) => state.addNode);
+    const makeRoot = useStore((state) => state.makeRoot);
+    const isRoot = useStore((state) => findRootId(state.nodes, state.rootId) === id);
+    const setNodePinned = useStore((state) => state.setNodePinned);
+    const toggleCollapsed = useStore((state) => state.toggleCollapsed);
+    const updateNodeData = useStore((state) => state.updateNodeData);
+    // Viewers and commenters on a shared map get the node without its editing controls
+    const canEdit = useStore(selectCanEdit);
+    const { childCount, hiddenCount } = useBranchInfo(id);
+    const progress = useTaskProgress(id);
+    const task = readTask(data);
+    const tags = readTags(data);
+    const highlight = useSearchHighlight(id);
+    const acceptStagedItem = useStore((state) => state.acceptStagedItem);
+    const rejectStagedItem = useStore((state) => state.rejectStagedItem);
+    // Review mode: this node may be an unaccepted proposal, or have a proposed new description
+    const isGhost = useStore((state) => state.staged.nodes.some(n => n.id === id));
+    const proposedDescription = useStore((state) => state.staged.descriptionUpdates.find(d => d.nodeId === id)?.description);
+    const expansion = useStore((state) => state.branchExpansions[id]);
+    // The rest of the selection, when this node is part of one (for "Merge selected")
+    const selectionKey = useStore((state) => selected ? state.nodes.filter(n => n.selected).map(n => n.id).join('|') : '');
+    const selectedIds = selectionKey ? selectionKey.split('|') : [];
 
-    // AI Branching Logic (V23: Quick branch - uses simplified context)
-    const handleAddBranch = async () => {
-        setIsMenuOpen(false);
+    const runBranchExpansion = async (breadth: number, depth: number) => {
+        setIsBranchFormOpen(false);
         try {
-            // V23: Use the new signature with minimal context for quick branching
-            const branchPrompt = `Break down "${data.label}" into 3 specific sub-tasks.`;
-            const chatHistory = [{ role: 'user', content: branchPrompt }];
-
-            // For branching, we just need current node context, not full map
-            const response = await aiService.chat(
-                data.label, // Use node label as "goal" for this micro-task
-                chatHistory,
-                '{"nodes":[],"edges":[]}' // Empty map context for branch generation
-            );
-
-            // Parse V23 response format
-            try {
-                const jsonMatch = response.match(/\{[\s\S]*\}/);
-                if (jsonMatch) {
-                    const parsed = JSON.parse(jsonMatch[0]);
-                    // V23: Look for updatedMindMap.nodes
-                    const nodesToAdd = parsed.updatedMindMap?.nodes || parsed.newNodes || [];
-                    nodesToAdd.forEach((n: any) => {
-                        if (n.id !== 'root') { // Skip root node from response
-                            addNode(n.label, id, 'expandable', n.description, n.imageUrl);
-                        }
-                    });
-                }
-            } catch (e) {
-                console.warn("Branch parse failed", e);
-            }
+            await expandBranch(id, { breadth, depth });
         } catch (e) {
             console.error("Branch error:", e);
         }
     };
 
+    // Ghost proposals are not on the map yet, so only branch expansion works on them
+    const aiBusy = isGhost || !!runningAction || !!expansion;
+
+    const runAction = async (label: string, action: () => Promise<NodeActionResult>) => {
+        setIsMenuOpen(false);
+        setIsRewriteFormOpen(false);
+        setRunningAction(label);
+        try {
+            await action();
+        } catch (e) {
+            console.error(`${label} failed:`, e);
+        } finally {
+            setRunningAction(null);
+        }
+    };
+
+    const startLabelEdit = () => {
+        setLabelDraft(data.label);
+        setIsEditingLabel(true);
+    };
+
+    const commitLabel = () => {
+        setIsEditingLabel(false);
+        const label = labelDraft.trim();
+        if (label) updateNodeData(id, { label });
+    };
+
     return (
-        <div className="shadow-xl rounded-xl bg-zinc-900 border border-zinc-700 w-[280px] overflow-visible group hover:border-indigo-500 transition-colors relative">
+        <div className={`shadow-xl rounded-xl bg-zinc-900 border w-[280px] overflow-visible group hover:border-indigo-500 transition-colors relative ${isGhost ? 'border-dashed border-indigo-400/70 opacity-70' : 'border-zinc-700'} ${HIGHLIGHT_CLASSES[highlight ?? 'none']}`}>
             <Handle type="target" position={Position.Top} className="!bg-zinc-500 !w-2 !h-2" />
 
+            {/* Ghost proposal actions */}
+            {isGhost && (
+                <div className="absolute -top-3 right-3 z-10 flex gap-1">
+                    <span className="px-2 py-0.5 text-[10px] rounded-full bg-indigo-600 text-white flex items-center gap-1">
+                        <Sparkles size={10} /> Proposed
+                    </span>
+                    <button
+                        onClick={(e) => { e.stopPropagation(); acceptStagedItem('node', id); }}
+                        className="p-1 rounded-full bg-zinc-800 border border-emerald-500/50 text-emerald-400 hover:bg-emerald-900/40"
+                        title="Accept node"
+                    >
+                        <Check size={10} />
+                    </button>
+                    <button
+                        onClick={(e) => { e.stopPropagation(); rejectStagedItem('node', id); }}
+                        className="p-1 rounded-full bg-zinc-800 border border-red-500/50 text-red-400 hover:bg-red-900/40"
+                        title="Reject node"
+                    >
+                        <X size={10} />
+                    </button>
+                </div>
+            )}
+
             {/* Optional Header Image */}
             {data.imageUrl && (
                 <div className="h-32 w-full relative overflow-hidden rounded-t-xl group-hover:opacity-90 transition-opacity">
@@ -73,32 +146,172 @@ const ExpandableNode = ({ id, data }: NodeProps<Node<ExpandableNodeData>>) => {
                 onClick={() => setIsExpanded(!isExpanded)}
             >
                 <div className="flex items-center gap-2 overflow-hidden">
-                    <div className={`p-1.5 rounded-md shrink-0 ${isExpanded ? 'bg-indigo-600 text-white' : 'bg-zinc-700 text-zinc-400'}`}>
-                        <Lightbulb size={14} />
-                    </div>
-                    <span className="font-semibold text-zinc-100 text-sm truncate">{data.label}</span>
+                    {/* Branches with tasks below them show their rolled-up completion instead of the icon */}
+                    {childCount > 0 && progress ? (
+                        <div title={`${progress.done} of ${progress.total} tasks done`}>
+                            <ProgressRing percent={progress.percent} />
+                        </div>
+                    ) : (
+                        <div className={`p-1.5 rounded-md shrink-0 ${isExpanded ? 'bg-indigo-600 text-white' : 'bg-zinc-700 text-zinc-400'}`}>
+                            <Lightbulb size={14} />
+                        </div>
+                    )}
+                    {isEditingLabel ? (
+                        <input
+                            autoFocus
+                            value={labelDraft}
+                            onChange={(e) => setLabelDraft(e.target.value)}
+                            onBlur={commitLabel}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') commitLabel();
+                                if (e.key === 'Escape') setIsEditingLabel(false);
+                            }}
+                            onClick={(e) => e.stopPropagation()}
+                            className="nodrag flex-1 min-w-0 bg-zinc-950 border border-indigo-500 rounded px-1.5 py-0.5 text-sm font-semibold text-zinc-100 focus:outline-none"
+                        />
+                    ) : (
+                        <span
+                            className="font-semibold text-zinc-100 text-sm truncate"
+                            onDoubleClick={canEdit ? (e) => { e.stopPropagation(); startLabelEdit(); } : undefined}
+                            title={canEdit ? 'Double-click to rename' : undefined}
+                        >
+                            {data.label}
+                        </span>
+                    )}
                 </div>
                 <div className="flex items-center" onClick={(e) => e.stopPropagation()}>
+                    {data.pinned && (
+                        <button className="text-indigo-400 hover:text-zinc-300 p-1 disabled:hover:text-indigo-400" onClick={() => setNodePinned(id, false)} disabled={!canEdit} title="Pinned - click to let the layout move it">
+                            <Pin size={14} />
+                        </button>
+                    )}
                     <button className="text-zinc-500 hover:text-zinc-300 p-1" onClick={() => setIsExpanded(!isExpanded)}>
                         {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
                     </button>
-                    <button className="text-zinc-500 hover:text-zinc-300 p-1 relative" onClick={() => setIsMenuOpen(!isMenuOpen)}>
-                        <MoreVertical size={16} />
-                    </button>
+                    {canEdit && (
+                        <button className="text-zinc-500 hover:text-zinc-300 p-1 relative" onClick={() => setIsMenuOpen(!isMenuOpen)}>
+                            <MoreVertical size={16} />
+                        </button>
+                    )}
                 </div>
             </div>
 
+            <TaskChips task={task} tags={tags} onCycleStatus={canEdit ? (status) => updateNodeData(id, { status }) : undefined} />
+
+            {/* Proposed description (review mode) */}
+            {proposedDescription !== undefined && (
+                <div className="p-3 border-t border-dashed border-indigo-400/50 bg-indigo-950/30 text-xs" onClick={(e) => e.stopPropagation()}>
+                    <div className="flex items-center justify-between mb-1.5">
+                        <span className="text-indigo-300 font-medium flex items-center gap-1"><Sparkles size={10} /> Proposed description</span>
+                        <div className="flex gap-1">
+                            <button
+                                onClick={() => acceptStagedItem('description', id)}
+                                className="p-1 rounded-full border border-emerald-500/50 text-emerald-400 hover:bg-emerald-900/40"
+                                title="Replace description"
+                            >
+                                <Check size={10} />
+                            </button>
+                            <button
+                                onClick={() => rejectStagedItem('description', id)}
+                                className="p-1 rounded-full border border-red-500/50 text-red-400 hover:bg-red-900/40"
+                                title="Keep current description"
+                            >
+                                <X size={10} />
+                            </button>
+                        </div>
+                    </div>
+                    <div className="text-zinc-500 line-through whitespace-pre-wrap line-clamp-3">{data.description || 'No description.'}</div>
+                    <div className="mt-1"><MarkdownDescription source={proposedDescription} /></div>
+                </div>
+            )}
+
+            {/* AI branch expansion: settings, then progress until it finishes or is cancelled */}
+            {isBranchFormOpen && (
+                <BranchForm onGenerate={runBranchExpansion} onClose={() => setIsBranchFormOpen(false)} />
+            )}
+            {expansion && (
+                <div className="nodrag px-3 py-2 border-t border-zinc-800 text-[11px] text-zinc-400" onClick={(e) => e.stopPropagation()}>
+                    <div className="flex items-center justify-between gap-2">
+                        <span className="flex items-center gap-1.5 truncate">
+                            <Sparkles size={10} className="text-indigo-400 shrink-0 animate-pulse" />
+                            <span className="truncate">Expanding {expansion.done + 1}/{expansion.total} · {expansion.label}</span>
+                        </span>
+                        <button
+                            onClick={() => cancelBranchExpansion(id)}
+                            className="p-0.5 text-zinc-500 hover:text-red-400 shrink-0"
+                            title="Stop expanding (keeps what was added)"
+                        >
+                            <X size={12} />
+                        </button>
+                    </div>
+                    <div className="mt-1.5 h-1 rounded-full bg-zinc-800 overflow-hidden">
+                        <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(expansion.done / Math.max(expansion.total, 1)) * 100}%` }} />
+                    </div>
+                </div>
+            )}
+
+            {isRewriteFormOpen && (
+                <RewriteForm
+                    onRewrite={(tone, length) => runAction('Rewriting', () => rewriteDescription(id, { tone, length }))}
+                    onClose={() => setIsRewriteFormOpen(false)}
+                />
+            )}
+            {runningAction && (
+                <div className="px-3 py-2 border-t border-zinc-800 text-[11px] text-zinc-400 flex items-center gap-1.5">
+                    <Sparkles size={10} className="text-indigo-400 shrink-0 animate-pulse" />
+                    {runningAction}…
+                </div>
+            )}
+
             {/* Context Menu */}
             {isMenuOpen && (
-                <div className="absolute right-0 top-10 z-50 w-40 bg-zinc-800 border border-zinc-700 rounded-lg shadow-2xl py-1 flex flex-col pointer-events-auto"
+                <div className="absolute right-0 top-10 z-50 w-48 bg-zinc-800 border border-zinc-700 rounded-lg shadow-2xl py-1 flex flex-col pointer-events-auto"
                     onClick={(e) => e.stopPropagation()}
                     onMouseLeave={() => setIsMenuOpen(false)}>
-                    <button onClick={handleAddBranch} className="px-3 py-2 text-xs text-zinc-300 hover:bg-zinc-700 text-left flex items-center gap-2">
+                    <button onClick={() => { setIsMenuOpen(false); setIsBranchFormOpen(true); }} disabled={!!expansion} className="px-3 py-2 text-xs text-zinc-300 hover:bg-zinc-700 text-left flex items-center gap-2 disabled:opacity-50">
                         <Plus size={12} /> Add Branch (AI)
                     </button>
+                    {childCount > 0 && (
+                        <button onClick={() => runAction('Summarizing', () => summarizeBranch(id))} disabled={aiBusy} className="px-3 py-2 text-xs text-zinc-300 hover:bg-zinc-700 text-left flex items-center gap-2 disabled:opacity-50">
+                            <ListCollapse size={12} /> Summarize this branch
+                        </button>
+                    )}
+                    {data.description && (
+                        <>
+                            <button onClick={() => { setIsMenuOpen(false); setIsRewriteFormOpen(true); }} disabled={aiBusy} className="px-3 py-2 text-xs text-zinc-300 hover:bg-zinc-700 text-left flex items-center gap-2 disabled:opacity-50">
+                                <Wand2 size={12} /> Rewrite description
+                            </button>
+                            <button onClick={() => runAction('Splitting', () => splitNode(id))} disabled={aiBusy} className="px-3 py-2 text-xs text-zinc-300 hover:bg-zinc-700 text-left flex items-center gap-2 disabled:opacity-50">
+                                <Scissors size={12} /> Split into sub-ideas
+                            </button>
+                        </>
+                    )}
+                    {selectedIds.length > 1 && (
+                        <button onClick={() => runAction('Merging', () => mergeSelected([id, ...selectedIds]))} disabled={aiBusy} className="px-3 py-2 text-xs text-zinc-300 hover:bg-zinc-700 text-left flex items-center gap-2 disabled:opacity-50">
+                            <Merge size={12} /> Merge selected ({selectedIds.length})
+                        </button>
+                    )}
+                    <button onClick={() => runAction('Critiquing', () => critiqueNode(id))} disabled={aiBusy} className="px-3 py-2 text-xs text-zinc-300 hover:bg-zinc-700 text-left flex items-center gap-2 disabled:opacity-50">
+                        <MessageSquareWarning size={12} /> Critique / find gaps
+                    </button>
+                    <div className="h-px bg-zinc-700 my-1" />
+                    <button onClick={() => { startLabelEdit(); setIsMenuOpen(false); }} className="px-3 py-2 text-xs text-zinc-300 hover:bg-zinc-700 text-left flex items-center gap-2">
+                        <Pencil size={12} /> Rename
+                    </button>
+                    <button onClick={() => { setIsExpanded(true); setIsEditingDescription(true); setIsMenuOpen(false); }} className="px-3 py-2 text-xs text-zinc-300 hover:bg-zinc-700 text-left flex items-center gap-2">
+                        <Pencil size={12} /> Edit description
+                    </button>
+                    <button onClick={() => { setNodePinned(id, !data.pinned); setIsMenuOpen(false); }} className="px-3 py-2 text-xs text-zinc-300 hover:bg-zinc-700 text-left flex items-center gap-2">
+                        {data.pinned ? <><PinOff size={12} /> Unpin</> : <><Pin size={12} /> Pin in place</>}
+                    </button>
                     <button onClick={() => { duplicateNode(id); setIsMenuOpen(false); }} className="px-3 py-2 text-xs text-zinc-300 hover:bg-zinc-700 text-left flex items-center gap-2">
                         <Copy size={12} /> Copy Node
                     </button>
+                    {!isRoot && !isGhost && (
+                        <button onClick={() => { makeRoot(id); setIsMenuOpen(false); }} className="px-3 py-2 text-xs text-zinc-300 hover:bg-zinc-700 text-left flex items-center gap-2">
+                            <Crown size={12} /> Make root
+                        </button>
+                    )}
                     <div className="h-px bg-zinc-700 my-1" />
                     <button onClick={() => { deleteNode(id); setIsMenuOpen(false); }} className="px-3 py-2 text-xs text-red-400 hover:bg-zinc-700 text-left flex items-center gap-2">
                         <Trash2 size={12} /> Delete
@@ -114,24 +327,58 @@ const ExpandableNode = ({ id, data }: NodeProps<Node<ExpandableNodeData>>) => {
                         animate={{ height: 'auto', opacity: 1 }}
                         exit={{ height: 0, opacity: 0 }}
                         className="overflow-hidden bg-zinc-900 rounded-b-xl"
+                        data-export-role="description"
                     >
                         {/* Content */}
                         <div className="p-3 pt-0">
-                            <div className="text-zinc-300 text-sm leading-relaxed whitespace-pre-wrap min-h-[40px] resize-y overflow-auto max-h-[300px] hover:resize-y transition-colors scrollbar-thin scrollbar-thumb-zinc-600 scrollbar-track-transparent">
-                                {data.description ? (
-                                    <div className="text-zinc-300 font-mono">
-                                        {data.description}
-                                    </div>
-                                ) : (
-                                    <span className="text-zinc-500 italic text-xs">No description.</span>
-                                )}
-                            </div>
+                            {isEditingDescription ? (
+                                <DescriptionEditor
+                                    initialValue={data.description || ''}
+                                    onSave={(description) => {
+                                        updateNodeData(id, { description });
+                                        setIsEditingDescription(false);
+                                    }}
+                                    onCancel={() => setIsEditingDescription(false)}
+                                />
+                            ) : (
+                                <div className="group/description relative min-h-[40px] max-h-[300px] overflow-auto nowheel scrollbar-thin scrollbar-thumb-zinc-600 scrollbar-track-transparent">
+                                    {data.description ? (
+                                        <MarkdownDescription
+                                            source={data.description}
+                                            onChange={canEdit ? (description) => updateNodeData(id, { description }) : undefined}
+                                        />
+                                    ) : (
+                                        <span className="text-zinc-500 italic text-xs">No description.</span>
+                                    )}
+                                    {canEdit && (
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); setIsEditingDescription(true); }}
+                                            className="absolute top-0 right-0 p-1 rounded-md bg-zinc-800 text-zinc-400 hover:text-white opacity-0 group-hover/description:opacity-100 transition-opacity"
+                                            title="Edit description"
+                                        >
+                                            <Pencil size={12} />
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+                            {canEdit && <TaskEditor task={task} tags={tags} onChange={(patch) => updateNodeData(id, patch)} />}
                         </div>
                     </motion.div>
                 )}
             </AnimatePresence>
 
             <Handle type="source" position={Position.Bottom} className="!bg-zinc-500 !w-2 !h-2" />
+
+            {/* Branch fold toggle: collapsed branches show how many nodes they hide */}
+            {childCount > 0 && (
+                <button
+                    onClick={(e) => { e.stopPropagation(); toggleCollapsed(id); }}
+                    className={`nodrag absolute -bottom-3 right-6 z-10 px-2 py-0.5 rounded-full text-[10px] font-medium border transition-colors ${hiddenCount > 0 ? 'bg-indigo-600 border-indigo-500 text-white hover:bg-indigo-500' : 'bg-zinc-800 border-zinc-600 text-zinc-400 opacity-0 group-hover:opacity-100 hover:text-white'}`}
+                    title={hiddenCount > 0 ? `Show ${hiddenCount} hidden node${hiddenCount > 1 ? 's' : ''}` : 'Collapse branch'}
+                >
+                    {hiddenCount > 0 ? `+${hiddenCount}` : '−'}
+                </button>
+            )}
         </div>
     );
 };
@@ -0,0 +1,229 @@
+import { Panel, useReactFlow } from '@xyflow/react';
+import { useRef, useState } from 'react';
+import { ChevronDown, Download, FileUp, Loader2 } from 'lucide-react';
+import { useStore, selectActiveFilter, selectCanEdit } from '@/lib/store';
+import {
+    DEFAULT_IMAGE_EXPORT_OPTIONS,
+    ImageBackground,
+    ImageExportOptions,
+    ImageFormat,
+    buildVectorSvg,
+    renderBoardImage,
+    selectExportContent,
+    svgToPdf,
+} from '@/lib/imageExport';
+import { getBoardGraph } from '@/lib/search';
+import { MAP_FORMATS, MapFormat, MapFormatError, documentFromStore, formatForFile } from '@/lib/formats';
+
+const fileBaseName = (goal: string) =>
+    goal.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'idea-ai-mindmap';
+
+const downloadHref = (href: string, fileName: string) => {
+    const a = document.createElement('a');
+    a.setAttribute('download', fileName);
+    a.setAttribute('href', href);
+    a.click();
+};
+
+// The browser starts the download after the click handler returns, so the URL has to outlive it
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    downloadHref(url, fileName);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Image export (PNG/SVG/PDF) and the text formats, plus importing any of those text formats
+export default function ExportMenu() {
+    const { fitView, getNodesBounds } = useReactFlow();
+    const importMindMap = useStore((state) => state.importMindMap);
+    const canEdit = useStore(selectCanEdit);
+    const [open, setOpen] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [imageOptions, setImageOptions] = useState<ImageExportOptions>(DEFAULT_IMAGE_EXPORT_OPTIONS);
+    const [isRendering, setIsRendering] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const exportImage = async () => {
+        setError(null);
+        const viewportElement = document.querySelector('.react-flow__viewport') as HTMLElement;
+        if (!viewportElement) return;
+
+        // Ghost proposals are on the canvas but not in the store, so they never make it into the export;
+        // folded and filtered-out branches are left out the same way they are on the board
+        const state = useStore.getState();
+        const { nodes, edges } = getBoardGraph(state.nodes, state.edges, selectActiveFilter(state), state.rootId);
+        const content = selectExportContent(nodes, edges, imageOptions);
+        if (!content) {
+            setError('Select a node to export its subtree');
+            return;
+        }
+        if (content.nodes.length === 0) return;
+
+        setIsRendering(true);
+        try {
+            const bounds = getNodesBounds(content.nodes.map(n => n.id));
+            const fileName = `${fileBaseName(state.goal)}.${imageOptions.format}`;
+
+            if (imageOptions.format === 'pdf') {
+                // Drawn from the graph rather than the DOM, so the PDF keeps text and edges as vectors
+                const { svg, width, height } = buildVectorSvg(content.nodes, content.edges, bounds, imageOptions);
+                downloadBlob(await svgToPdf(svg, width, height), fileName);
+            } else {
+                const { dataUrl } = await renderBoardImage(
+                    viewportElement,
+                    bounds,
+                    new Set(content.nodes.map(n => n.id)),
+                    new Set(content.edges.map(e => e.id)),
+                    imageOptions,
+                );
+                downloadHref(dataUrl, fileName);
+            }
+            setOpen(false);
+        } catch (err) {
+            console.error("Failed to export image", err);
+            setError('Image export failed');
+        } finally {
+            setIsRendering(false);
+        }
+    };
+
+    const exportFormat = (format: MapFormat) => {
+        const { goal, nodes, edges, rootId } = useStore.getState();
+        const blob = new Blob([format.serialize(documentFromStore(goal, nodes, edges, rootId))], { type: format.mimeType });
+        downloadBlob(blob, `${fileBaseName(goal)}.${format.extension}`);
+    };
+
+    const importFile = async (file: File) => {
+        setError(null);
+        try {
+            const doc = formatForFile(file.name).parse(await file.text());
+            importMindMap(doc);
+            setTimeout(() => fitView({ padding: 0.2, duration: 400 }), 50);
+        } catch (err) {
+            console.error("Failed to import map", err);
+            setError(err instanceof MapFormatError ? err.message : 'Could not read this file');
+        }
+    };
+
+    const updateImageOptions = (patch: Partial<ImageExportOptions>) => setImageOptions({ ...imageOptions, ...patch });
+
+    const itemClass = "w-full text-left px-3 py-2 text-sm text-zinc-300 hover:bg-zinc-700 hover:text-white transition-colors";
+
+    return (
+        <Panel position="top-right">
+            <div className="relative">
+                <button
+                    className="flex items-center gap-2 bg-zinc-800 text-zinc-200 px-3 py-2 rounded-lg border border-zinc-700 hover:bg-zinc-700 hover:text-white transition-colors shadow-lg text-sm font-medium"
+                    onClick={() => { setOpen(!open); setError(null); }}
+                >
+                    <Download size={14} />
+                    Import / Export
+                    <ChevronDown size={14} />
+                </button>
+
+                {open && (
+                    <div className="absolute right-0 mt-2 w-64 bg-zinc-800 border border-zinc-700 rounded-lg shadow-xl overflow-hidden z-50">
+                        <div className="p-3 space-y-2 text-xs text-zinc-300">
+                            <div className="flex gap-1">
+                                {(['png', 'svg', 'pdf'] as ImageFormat[]).map(format => (
+                                    <button
+                                        key={format}
+                                        onClick={() => updateImageOptions({ format })}
+                                        className={`flex-1 py-1 rounded-md border uppercase ${imageOptions.format === format ? 'bg-indigo-600 border-indigo-500 text-white' : 'border-zinc-700 hover:bg-zinc-700'}`}
+                                    >
+                                        {format}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="flex gap-2">
+                                <label className="flex-1 flex items-center justify-between gap-1">
+                                    Scale
+                                    <select
+                                        value={imageOptions.scale}
+                                        onChange={(e) => updateImageOptions({ scale: Number(e.target.value) })}
+                                        disabled={imageOptions.format === 'pdf'}
+                                        className="bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5 disabled:opacity-50"
+                                    >
+                                        {[1, 2, 3, 4].map(scale => <option key={scale} value={scale}>{scale}x</option>)}
+                                    </select>
+                                </label>
+                                <label className="flex-1 flex items-center justify-between gap-1">
+                                    Background
+                                    <select
+                                        value={imageOptions.background}
+                                        onChange={(e) => updateImageOptions({ background: e.target.value as ImageBackground })}
+                                        className="bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5"
+                                    >
+                                        <option value="dark">Dark</option>
+                                        <option value="light">White</option>
+                                        <option value="transparent">None</option>
+                                    </select>
+                                </label>
+                            </div>
+                            <label className="flex items-center gap-2 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={imageOptions.includeDescriptions}
+                                    onChange={(e) => updateImageOptions({ includeDescriptions: e.target.checked })}
+                                    className="accent-indigo-500"
+                                />
+                                Include expanded descriptions
+                            </label>
+                            <label className="flex items-center gap-2 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={imageOptions.selectedSubtreeOnly}
+                                    onChange={(e) => updateImageOptions({ selectedSubtreeOnly: e.target.checked })}
+                                    className="accent-indigo-500"
+                                />
+                                Selected subtree only
+                            </label>
+                            <button
+                                onClick={exportImage}
+                                disabled={isRendering}
+                                className="w-full flex items-center justify-center gap-2 py-1.5 rounded-md bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50"
+                            >
+                                {isRendering ? <Loader2 size={12} className="animate-spin" /> : <Download size={12} />}
+                                Export {imageOptions.format.toUpperCase()}
+                            </button>
+                            {error && <div className="text-red-300">{error}</div>}
+                        </div>
+                        <div className="h-px bg-zinc-700" />
+                        {MAP_FORMATS.map(format => (
+                            <button key={format.id} className={itemClass} onClick={() => { exportFormat(format); setOpen(false); }}>
+                                Export {format.label} (.{format.extension})
+                            </button>
+                        ))}
+                        {canEdit && (
+                            <>
+                                <div className="h-px bg-zinc-700" />
+                                <button className={`${itemClass} flex items-center gap-2`} onClick={() => fileInputRef.current?.click()}>
+                                    <FileUp size={14} /> Import file…
+                                </button>
+                            </>
+                        )}
+                    </div>
+                )}
+
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={MAP_FORMATS.map(f => `.${f.extension}`).concat('.markdown').join(',')}
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        setOpen(false);
+                        if (file) importFile(file);
+                    }}
+                />
+
+                {error && !open && (
+                    <div className="absolute right-0 mt-2 w-64 text-xs text-red-300 bg-red-950/80 border border-red-500/30 rounded-lg px-3 py-2">
+                        {error}
+                    </div>
+                )}
+            </div>
+        </Panel>
+    );
+}
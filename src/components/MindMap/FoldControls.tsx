@@ -0,0 +1,38 @@
+import { Panel } from '@xyflow/react';
+import { ChevronsDownUp, ChevronsUpDown } from 'lucide-react';
+import { useStore } from '@/lib/store';
+
+const FOLD_DEPTHS = [1, 2, 3];
+
+// "Collapse to depth N" / "Expand all"; sits under the layout switcher
+export default function FoldControls() {
+    const collapseToDepth = useStore((state) => state.collapseToDepth);
+    const expandAll = useStore((state) => state.expandAll);
+
+    return (
+        <Panel position="top-left" style={{ marginTop: 110 }}>
+            <div className="flex items-center bg-zinc-800 border border-zinc-700 rounded-lg shadow-lg overflow-hidden text-xs text-zinc-300">
+                <span className="flex items-center gap-1.5 px-3 py-2 text-zinc-500">
+                    <ChevronsDownUp size={12} /> Fold to depth
+                </span>
+                {FOLD_DEPTHS.map(depth => (
+                    <button
+                        key={depth}
+                        onClick={() => collapseToDepth(depth)}
+                        className="px-2.5 py-2 hover:bg-zinc-700 hover:text-white transition-colors"
+                        title={`Show ${depth} level${depth > 1 ? 's' : ''} below the root`}
+                    >
+                        {depth}
+                    </button>
+                ))}
+                <div className="w-px self-stretch bg-zinc-700" />
+                <button
+                    onClick={expandAll}
+                    className="flex items-center gap-1.5 px-3 py-2 hover:bg-zinc-700 hover:text-white transition-colors"
+                >
+                    <ChevronsUpDown size={12} /> Expand all
+                </button>
+            </div>
+        </Panel>
+    );
+}
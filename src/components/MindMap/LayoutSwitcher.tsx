@@ -0,0 +1,58 @@
+import { Panel, useReactFlow } from '@xyflow/react';
+import { GitFork, Network, Orbit, Share2, Workflow } from 'lucide-react';
+import { useStore, selectCanEdit } from '@/lib/store';
+import { LAYOUT_OPTIONS, LayoutKind } from '@/lib/layouts';
+
+const LAYOUT_ICONS: Record<LayoutKind, typeof Network> = {
+    force: Network,
+    tree: GitFork,
+    org: Workflow,
+    radial: Orbit,
+};
+
+export default function LayoutSwitcher() {
+    const { fitView } = useReactFlow();
+    const layout = useStore((state) => state.layout);
+    const setLayout = useStore((state) => state.setLayout);
+    const treeMode = useStore((state) => state.treeMode);
+    const setTreeMode = useStore((state) => state.setTreeMode);
+    // Tree mode is shared with everyone on the map; the layout is each person's own
+    const canEdit = useStore(selectCanEdit);
+
+    const selectLayout = (kind: LayoutKind) => {
+        if (kind === layout) return;
+        setLayout(kind);
+        // Re-frame once the transition has settled
+        setTimeout(() => fitView({ padding: 0.2, duration: 400 }), 500);
+    };
+
+    return (
+        // Pushed down to clear the sidebar toggle and view switcher above the board
+        <Panel position="top-left" style={{ marginTop: 64 }}>
+            <div className="flex bg-zinc-800 border border-zinc-700 rounded-lg shadow-lg overflow-hidden">
+                {LAYOUT_OPTIONS.map(({ kind, label }) => {
+                    const Icon = LAYOUT_ICONS[kind];
+                    return (
+                        <button
+                            key={kind}
+                            onClick={() => selectLayout(kind)}
+                            className={`flex items-center gap-1.5 px-3 py-2 text-xs transition-colors ${layout === kind ? 'bg-indigo-600 text-white' : 'text-zinc-300 hover:bg-zinc-700 hover:text-white'}`}
+                            title={`${label} layout`}
+                        >
+                            <Icon size={12} /> {label}
+                        </button>
+                    );
+                })}
+                {/* Off, a node may sit under several parents; turning it back on keeps each node's first parent */}
+                <button
+                    onClick={() => setTreeMode(!treeMode)}
+                    disabled={!canEdit}
+                    className={`flex items-center gap-1.5 px-3 py-2 text-xs border-l border-zinc-700 transition-colors disabled:opacity-60 disabled:pointer-events-none ${treeMode ? 'text-zinc-300 hover:bg-zinc-700 hover:text-white' : 'bg-indigo-600 text-white'}`}
+                    title={treeMode ? 'Tree: one parent per node. Click to allow several' : 'Graph: nodes may have several parents. Click to keep one'}
+                >
+                    <Share2 size={12} /> Multi-parent
+                </button>
+            </div>
+        </Panel>
+    );
+}
@@ -0,0 +1,69 @@
+import { memo, useState } from 'react';
+import { BaseEdge, EdgeLabelRenderer, EdgeProps, getBezierPath } from '@xyflow/react';
+import { useStore, selectCanEdit } from '@/lib/store';
+import { EDGE_KINDS, EdgeKind, LINK_COLORS, LINK_DASHES, readEdgeKind, readEdgeLabel } from '@/lib/graph';
+
+// Any edge of the map: draws links by kind with their label, and edits kind and label while selected
+const MapEdge = ({ id, data, selected, sourceX, sourceY, targetX, targetY, sourcePosition, targetPosition, style, markerEnd }: EdgeProps) => {
+    const updateEdgeData = useStore((state) => state.updateEdgeData);
+    const canEdit = useStore(selectCanEdit);
+    const kind = readEdgeKind({ data });
+    const label = readEdgeLabel({ data });
+    // Only set while the label field is being typed in
+    const [draft, setDraft] = useState<string | null>(null);
+
+    const [edgePath, labelX, labelY] = getBezierPath({ sourceX, sourceY, targetX, targetY, sourcePosition, targetPosition });
+    const color = kind === 'hierarchy' ? undefined : LINK_COLORS[kind];
+    const linkStyle = color ? { stroke: color, strokeDasharray: LINK_DASHES[kind], strokeWidth: kind === 'contradicts' ? 2 : 1.5 } : {};
+
+    const commitLabel = () => {
+        if (draft !== null && draft.trim() !== label) updateEdgeData(id, { label: draft.trim() });
+        setDraft(null);
+    };
+
+    return (
+        <>
+            <BaseEdge id={id} path={edgePath} markerEnd={markerEnd} style={{ ...style, ...linkStyle }} />
+            {((selected && canEdit) || (color && label)) && (
+                <EdgeLabelRenderer>
+                    <div
+                        className="nodrag nopan absolute pointer-events-auto"
+                        style={{ transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)`, opacity: style?.opacity }}
+                    >
+                        {selected && canEdit ? (
+                            <div className="flex items-center gap-1 bg-zinc-800 border border-zinc-700 rounded-lg shadow-lg p-1">
+                                <select
+                                    value={kind}
+                                    onChange={(e) => updateEdgeData(id, { kind: e.target.value as EdgeKind })}
+                                    className="bg-zinc-950 border border-zinc-700 rounded-md px-1 py-0.5 text-[10px] text-zinc-200 focus:outline-none focus:border-indigo-500"
+                                >
+                                    {EDGE_KINDS.map(k => <option key={k.value} value={k.value}>{k.label}</option>)}
+                                </select>
+                                <input
+                                    value={draft ?? label}
+                                    onChange={(e) => setDraft(e.target.value)}
+                                    onBlur={commitLabel}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') commitLabel();
+                                        if (e.key === 'Escape') setDraft(null);
+                                    }}
+                                    placeholder="Label"
+                                    className="w-24 bg-zinc-950 border border-zinc-700 rounded-md px-1.5 py-0.5 text-[10px] text-zinc-200 placeholder:text-zinc-600 focus:outline-none focus:border-indigo-500"
+                                />
+                            </div>
+                        ) : (
+                            <span
+                                className="px-1.5 py-0.5 rounded-md bg-zinc-900 border text-[10px]"
+                                style={{ borderColor: color, color }}
+                            >
+                                {label}
+                            </span>
+                        )}
+                    </div>
+                </EdgeLabelRenderer>
+            )}
+        </>
+    );
+};
+
+export default memo(MapEdge);
@@ -0,0 +1,76 @@
+import { createContext, useContext } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+
+// The prompts ask for "•" bullets; treat them as Markdown list items
+export const normalizeBullets = (text: string) => text.replace(/^(\s*)•\s*/gm, '$1- ');
+
+// Flips the first task checkbox at or after `offset` in the Markdown source
+const toggleTaskAt = (source: string, offset: number) => {
+    const rest = source.slice(offset).replace(/\[([ xX])\]/, (_, mark: string) => (mark === ' ' ? '[x]' : '[ ]'));
+    return source.slice(0, offset) + rest;
+};
+
+// Toggle for the checkbox of the task list item it sits in; null when the list is read-only
+const TaskToggleContext = createContext<(() => void) | null>(null);
+
+// Controlled, so it follows the source when an undo or a collaborator changes it
+function TaskCheckbox({ checked }: { checked: boolean }) {
+    const toggle = useContext(TaskToggleContext);
+    return (
+        <input
+            type="checkbox"
+            checked={checked}
+            onChange={toggle ?? undefined}
+            readOnly={!toggle}
+            disabled={!toggle}
+            className="nodrag mt-1 accent-indigo-500"
+        />
+    );
+}
+
+interface MarkdownDescriptionProps {
+    source: string;
+    // When set, task list checkboxes are clickable and report the updated source
+    onChange?: (source: string) => void;
+}
+
+export default function MarkdownDescription({ source, onChange }: MarkdownDescriptionProps) {
+    const markdown = normalizeBullets(source);
+
+    const components: Components = {
+        p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+        ul: ({ children, className }) => (
+            <ul className={`mb-2 space-y-0.5 ${className?.includes('contains-task-list') ? 'list-none pl-0' : 'list-disc pl-4'}`}>{children}</ul>
+        ),
+        ol: ({ children }) => <ol className="mb-2 list-decimal pl-4 space-y-0.5">{children}</ol>,
+        li: ({ children, className, node }) => {
+            const isTask = className?.includes('task-list-item');
+            const offset = node?.position?.start.offset;
+            // The list item knows where it sits in the source; its checkbox gets the toggle through context
+            const toggle = isTask && onChange && offset !== undefined
+                ? () => onChange(toggleTaskAt(markdown, offset))
+                : null;
+            return (
+                <li className={isTask ? 'flex items-start gap-1.5' : ''}>
+                    <TaskToggleContext.Provider value={toggle}>{children}</TaskToggleContext.Provider>
+                </li>
+            );
+        },
+        input: ({ type, checked }) => type === 'checkbox' ? <TaskCheckbox checked={Boolean(checked)} /> : null,
+        a: ({ href, children }) => (
+            <a href={href} target="_blank" rel="noopener noreferrer" className="text-indigo-400 underline hover:text-indigo-300">{children}</a>
+        ),
+        strong: ({ children }) => <strong className="font-semibold text-zinc-100">{children}</strong>,
+        code: ({ children }) => <code className="px-1 rounded bg-zinc-800 text-indigo-200 text-xs">{children}</code>,
+        h1: ({ children }) => <h4 className="font-semibold text-zinc-100 mb-1">{children}</h4>,
+        h2: ({ children }) => <h4 className="font-semibold text-zinc-100 mb-1">{children}</h4>,
+        h3: ({ children }) => <h4 className="font-semibold text-zinc-100 mb-1">{children}</h4>,
+    };
+
+    return (
+        <div className="text-zinc-300 text-sm leading-relaxed break-words">
+            <ReactMarkdown remarkPlugins={[remarkGfm]} components={components}>{markdown}</ReactMarkdown>
+        </div>
+    );
+}
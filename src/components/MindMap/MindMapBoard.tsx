@@ -5,67 +5,86 @@ import {
     Controls,
     Background,
     MiniMap,
-    useReactFlow,
     Panel,
     BackgroundVariant,
-    Edge
+    Connection,
+    Edge,
+    EdgeChange,
+    FinalConnectionState,
+    MarkerType,
+    NodeChange,
+    OnSelectionChangeParams
 } from '@xyflow/react';
-import { toPng } from 'html-to-image';
-import { Download } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Undo2, Redo2 } from 'lucide-react';
 import ExpandableNode from './ExpandableNode';
+import StagedEdge from './StagedEdge';
+import MapEdge from './MapEdge';
+import ReviewBar from './ReviewBar';
+import ExportMenu from './ExportMenu';
+import LayoutSwitcher from './LayoutSwitcher';
+import FoldControls from './FoldControls';
+import DuplicatesPanel from './DuplicatesPanel';
+import { BranchContext, ProgressContext } from './BranchContext';
+import { SearchContext, SearchState } from './SearchContext';
+import SearchBar from './SearchBar';
+import PresenceLayer from './PresenceLayer';
+import CommentsPanel from './CommentsPanel';
 import '@xyflow/react/dist/style.css';
-import { useStore } from '@/lib/store';
-import { useForceLayout } from '@/hooks/useForceLayout';
+import { useStore, selectActiveFilter, selectCanEdit } from '@/lib/store';
+import { getFilteredOutIds, searchNodes } from '@/lib/search';
+import { LINK_COLORS, readEdgeKind } from '@/lib/graph';
+import { useLayout } from '@/hooks/useLayout';
+import { useCollapseState } from '@/hooks/useCollapseState';
+import { useProgressRollup } from '@/hooks/useProgressRollup';
 
 const nodeTypes = {
     expandable: ExpandableNode,
     // v7: ImageNode deprecated/merged into ExpandableNode
 };
 
-function DownloadButton() {
-    const { getNodes } = useReactFlow();
-
-    const onClick = () => {
-        // Basic implementation: Capture the viewport container
-        // Ideally we would calculate bounds and fitView, but for stability we just capture what's there
-        // or use a large container.
-        // To ensure we capture everything, we can use useReactFlow().fitView() first? 
-        // Let's just capture the visible area for now to avoid complexity with missing imports.
-
-        const checkElement = document.querySelector('.react-flow__viewport') as HTMLElement;
-
-        if (checkElement) {
-            // Simple delay to ensure rendering
-            setTimeout(() => {
-                toPng(checkElement, {
-                    backgroundColor: '#09090b',
-                    width: 1920, // Enforce high res
-                    height: 1080,
-                    style: {
-                        transform: 'scale(1)', // normalize
-                    },
-                    cacheBust: true,
-                }).then((dataUrl) => {
-                    const a = document.createElement('a');
-                    a.setAttribute('download', 'idea-ai-mindmap.png');
-                    a.setAttribute('href', dataUrl);
-                    a.click();
-                }).catch(err => {
-                    console.error("Failed to export image", err);
-                });
-            }, 100);
-        }
-    };
+const edgeTypes = {
+    map: MapEdge,
+    staged: StagedEdge,
+};
+
+// Map edges draw through MapEdge; dependencies point at what they depend on
+const toDisplayEdge = (e: Edge): Edge => readEdgeKind(e) === 'dependency'
+    ? { ...e, type: 'map', markerEnd: { type: MarkerType.ArrowClosed, color: LINK_COLORS.dependency } }
+    : { ...e, type: 'map' };
+
+const changeId = (change: NodeChange | EdgeChange) => 'id' in change ? change.id : change.item.id;
+
+// What a read-only collaborator may still do to the board: select, and arrange their own
+// view (positions are per person on a shared map)
+const VIEW_NODE_CHANGES: NodeChange['type'][] = ['select', 'dimensions', 'position'];
+
+function HistoryControls() {
+    const undo = useStore((state) => state.undo);
+    const redo = useStore((state) => state.redo);
+    const canUndo = useStore((state) => state.past.length > 0);
+    const canRedo = useStore((state) => state.future.length > 0);
 
     return (
-        <Panel position="top-right">
-            <button
-                className="flex items-center gap-2 bg-zinc-800 text-zinc-200 px-3 py-2 rounded-lg border border-zinc-700 hover:bg-zinc-700 hover:text-white transition-colors shadow-lg text-sm font-medium"
-                onClick={onClick}
-            >
-                <Download size={14} />
-                Export PNG
-            </button>
+        <Panel position="bottom-center">
+            <div className="flex items-center gap-1 bg-zinc-800 border border-zinc-700 rounded-lg p-1 shadow-lg">
+                <button
+                    className="p-1.5 rounded-md text-zinc-300 hover:bg-zinc-700 hover:text-white disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+                    onClick={undo}
+                    disabled={!canUndo}
+                    title="Undo (Ctrl+Z)"
+                >
+                    <Undo2 size={14} />
+                </button>
+                <button
+                    className="p-1.5 rounded-md text-zinc-300 hover:bg-zinc-700 hover:text-white disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+                    onClick={redo}
+                    disabled={!canRedo}
+                    title="Redo (Ctrl+Shift+Z)"
+                >
+                    <Redo2 size={14} />
+                </button>
+            </div>
         </Panel>
     );
 }
@@ -76,55 +95,171 @@ export default function MindMapBoard() {
     const onNodesChange = useStore((state) => state.onNodesChange);
     const onEdgesChange = useStore((state) => state.onEdgesChange);
     const onConnect = useStore((state) => state.onConnect);
-    const setEdges = useStore((state) => state.setEdges);
+    const reconnectEdge = useStore((state) => state.reconnectEdge);
+    const deleteEdge = useStore((state) => state.deleteEdge);
+    const undo = useStore((state) => state.undo);
+    const redo = useStore((state) => state.redo);
+    const staged = useStore((state) => state.staged);
+    const onStagedNodesChange = useStore((state) => state.onStagedNodesChange);
+    const rejectStagedItem = useStore((state) => state.rejectStagedItem);
+    const canEdit = useStore(selectCanEdit);
+
+    // Ghost proposals render alongside the real map but live in `staged`.
+    // Folded and filtered-out nodes stay in the store but are hidden (React Flow also drops them from the MiniMap)
+    const { hiddenIds: collapsedIds, branches } = useCollapseState();
+    const activeFilter = useStore(selectActiveFilter);
+    const setFocusNode = useStore((state) => state.setFocusNode);
+    const rootId = useStore((state) => state.rootId);
+    const filteredOut = useMemo(() => getFilteredOutIds(nodes, edges, activeFilter, rootId), [nodes, edges, activeFilter, rootId]);
+    const hiddenIds = useMemo(
+        () => filteredOut.size === 0 ? collapsedIds : new Set([...collapsedIds, ...filteredOut]),
+        [filteredOut, collapsedIds]
+    );
+    const progress = useProgressRollup();
+
+    // Search runs over everything the filter lets through, folded branches included (jumping unfolds them)
+    const [query, setQuery] = useState('');
+    const [currentMatch, setCurrentMatch] = useState(-1);
+    const resultIds = useMemo(
+        () => searchNodes(nodes, query).map(m => m.id).filter(id => !filteredOut.has(id)),
+        [nodes, query, filteredOut]
+    );
+    const search = useMemo<SearchState | null>(
+        () => query.trim() ? { matchIds: new Set(resultIds), currentId: resultIds[currentMatch] ?? null } : null,
+        [query, resultIds, currentMatch]
+    );
+    const onQueryChange = (value: string) => {
+        setQuery(value);
+        setCurrentMatch(-1);
+    };
+
+    const displayNodes = useMemo(
+        () => [...nodes.map(n => hiddenIds.has(n.id) ? { ...n, hidden: true } : n), ...staged.nodes],
+        [nodes, staged.nodes, hiddenIds]
+    );
+    const displayEdges = useMemo(
+        () => [
+            ...edges.map(toDisplayEdge).map(e => {
+                if (hiddenIds.has(e.source) || hiddenIds.has(e.target)) return { ...e, hidden: true };
+                // While searching, only links between two matches keep full strength
+                if (search && !(search.matchIds.has(e.source) && search.matchIds.has(e.target))) return { ...e, style: { ...e.style, opacity: 0.15 } };
+                return e;
+            }),
+            ...staged.edges.map(e => ({ ...e, type: 'staged', reconnectable: false })),
+        ],
+        [edges, staged.edges, hiddenIds, search]
+    );
+
+    const handleNodesChange = (allChanges: NodeChange[]) => {
+        const changes = canEdit ? allChanges : allChanges.filter(c => VIEW_NODE_CHANGES.includes(c.type));
+        const stagedIds = new Set(staged.nodes.map(n => n.id));
+        const stagedChanges = changes.filter(c => stagedIds.has(changeId(c)));
+        if (stagedChanges.length > 0) onStagedNodesChange(stagedChanges);
+        if (stagedChanges.length < changes.length) onNodesChange(changes.filter(c => !stagedIds.has(changeId(c))));
+    };
 
-    // Activate force layout
-    useForceLayout();
+    const handleEdgesChange = (allChanges: EdgeChange[]) => {
+        const changes = canEdit ? allChanges : allChanges.filter(c => c.type === 'select');
+        const stagedIds = new Set(staged.edges.map(e => e.id));
+        // Deleting a proposed edge means rejecting it; other changes to ghosts are ignored
+        changes.filter(c => c.type === 'remove' && stagedIds.has(c.id)).forEach(c => rejectStagedItem('edge', changeId(c)));
+        onEdgesChange(changes.filter(c => !stagedIds.has(changeId(c))));
+    };
+
+    // Selecting one node focuses the chat on its branch; clearing the selection keeps the focus (the chat chip removes it).
+    // React Flow wants this handler memoized.
+    const onSelectionChange = useCallback(({ nodes: selected }: OnSelectionChangeParams) => {
+        if (selected.length !== 1) return;
+        const id = selected[0].id;
+        // Ghost proposals are not part of the map yet
+        if (useStore.getState().nodes.some(n => n.id === id)) setFocusNode(id);
+    }, [setFocusNode]);
+
+    // Activate the session's layout engine
+    useLayout();
 
-    // V48: Handle edge reconnection (dragging edge to new target or to empty = delete)
-    const onReconnect = (oldEdge: any, newConnection: any) => {
-        // If new connection has valid source and target, reconnect
+    // Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redo. Text fields keep their native undo.
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey)) return;
+            const target = e.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+            if (!canEdit) return;
+
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                redo();
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [undo, redo, canEdit]);
+
+    // V48: Handle edge reconnection (dragging edge to new target or to empty = delete).
+    // The store refuses a move that would make a node its own ancestor, and the edge snaps back.
+    const onReconnect = (oldEdge: Edge, newConnection: Connection) => {
         if (newConnection.source && newConnection.target) {
-            const updatedEdges = edges.map(e =>
-                e.id === oldEdge.id
-                    ? { ...e, source: newConnection.source, target: newConnection.target }
-                    : e
-            );
-            setEdges(updatedEdges);
+            reconnectEdge(oldEdge.id, newConnection.source, newConnection.target);
         }
     };
 
     // V48: Delete edge when dragged to empty space
-    const onReconnectEnd = (_: unknown, edge: Edge, handleType: string | null) => {
-        // If handleType is undefined, the edge was dropped in empty space - delete it
-        if (!handleType) {
-            setEdges(edges.filter((e) => e.id !== edge.id));
-        }
+    const onReconnectEnd = (_: unknown, edge: Edge, __: unknown, connectionState: FinalConnectionState) => {
+        if (!connectionState.toNode) deleteEdge(edge.id);
     };
 
     return (
         <div className="w-full h-full bg-zinc-950">
-            <ReactFlow
-                nodes={nodes}
-                edges={edges}
-                onNodesChange={onNodesChange}
-                onEdgesChange={onEdgesChange}
-                onConnect={onConnect}
-                onReconnect={onReconnect}
-                nodeTypes={nodeTypes}
-                colorMode="dark"
-                fitView
-                edgesReconnectable={true}
-            >
-                <Background variant={BackgroundVariant.Dots} gap={12} size={1} color="#3f3f46" />
-                <Controls className="bg-zinc-800 border-zinc-700 fill-zinc-400" />
-                <MiniMap
-                    className="bg-zinc-900 border-zinc-700"
-                    maskColor="rgba(9, 9, 11, 0.8)"
-                    nodeColor="#6366f1"
-                />
-                <DownloadButton />
-            </ReactFlow>
+            <BranchContext.Provider value={branches}>
+                <ProgressContext.Provider value={progress}>
+                    <SearchContext.Provider value={search}>
+                        <ReactFlow
+                            nodes={displayNodes}
+                            edges={displayEdges}
+                            onNodesChange={handleNodesChange}
+                            onEdgesChange={handleEdgesChange}
+                            onConnect={onConnect}
+                            onReconnect={onReconnect}
+                            onReconnectEnd={onReconnectEnd}
+                            onSelectionChange={onSelectionChange}
+                            nodeTypes={nodeTypes}
+                            edgeTypes={edgeTypes}
+                            colorMode="dark"
+                            fitView
+                            nodesConnectable={canEdit}
+                            edgesReconnectable={canEdit}
+                            deleteKeyCode={canEdit ? 'Backspace' : null}
+                        >
+                            <Background variant={BackgroundVariant.Dots} gap={12} size={1} color="#3f3f46" />
+                            <Controls className="bg-zinc-800 border-zinc-700 fill-zinc-400" />
+                            <MiniMap
+                                className="bg-zinc-900 border-zinc-700"
+                                maskColor="rgba(9, 9, 11, 0.8)"
+                                nodeColor="#6366f1"
+                            />
+                            <LayoutSwitcher />
+                            <FoldControls />
+                            <DuplicatesPanel />
+                            <ExportMenu />
+                            <SearchBar
+                                query={query}
+                                onQueryChange={onQueryChange}
+                                resultIds={resultIds}
+                                currentIndex={currentMatch}
+                                onCurrentIndexChange={setCurrentMatch}
+                            />
+                            {canEdit && <HistoryControls />}
+                            <ReviewBar />
+                            <CommentsPanel />
+                            <PresenceLayer />
+                        </ReactFlow>
+                    </SearchContext.Provider>
+                </ProgressContext.Provider>
+            </BranchContext.Provider>
         </div>
     );
 }
@@ -0,0 +1,64 @@
+import { ViewportPortal, useReactFlow } from '@xyflow/react';
+import { useEffect } from 'react';
+import { useStore } from '@/lib/store';
+import { publishCursor } from '@/lib/collab/presence';
+
+// Other people on a shared map: their pointers and the node each has selected, drawn in flow
+// coordinates so they stay put while you pan and zoom. Also reports your own pointer.
+export default function PresenceLayer() {
+    const { screenToFlowPosition } = useReactFlow();
+    const isShared = useStore((state) => state.mapAccess !== null);
+    const collaborators = useStore((state) => state.collaborators);
+    const nodes = useStore((state) => state.nodes);
+
+    useEffect(() => {
+        if (!isShared) return;
+        const onMouseMove = (e: MouseEvent) => {
+            const onBoard = e.target instanceof Element && e.target.closest('.react-flow');
+            publishCursor(onBoard ? screenToFlowPosition({ x: e.clientX, y: e.clientY }) : null);
+        };
+        document.addEventListener('mousemove', onMouseMove);
+        return () => document.removeEventListener('mousemove', onMouseMove);
+    }, [isShared, screenToFlowPosition]);
+
+    if (collaborators.length === 0) return null;
+
+    return (
+        <ViewportPortal>
+            {collaborators.map(c => {
+                const node = c.selectedNodeId ? nodes.find(n => n.id === c.selectedNodeId && !n.hidden) : undefined;
+                if (!node?.measured?.width || !node.measured.height) return null;
+                return (
+                    <div
+                        key={`selection-${c.uid}`}
+                        className="absolute pointer-events-none rounded-xl"
+                        style={{
+                            transform: `translate(${node.position.x - 4}px, ${node.position.y - 4}px)`,
+                            width: node.measured.width + 8,
+                            height: node.measured.height + 8,
+                            border: `2px solid ${c.color}`,
+                        }}
+                    >
+                        <span className="absolute -top-5 left-0 px-1.5 rounded text-[10px] font-medium text-zinc-950 whitespace-nowrap" style={{ background: c.color }}>
+                            {c.name}
+                        </span>
+                    </div>
+                );
+            })}
+            {collaborators.filter(c => c.cursor).map(c => (
+                <div
+                    key={`cursor-${c.uid}`}
+                    className="absolute pointer-events-none transition-transform duration-150 ease-linear"
+                    style={{ transform: `translate(${c.cursor!.x}px, ${c.cursor!.y}px)` }}
+                >
+                    <svg width="16" height="16" viewBox="0 0 16 16" className="drop-shadow">
+                        <path d="M1 1l5.5 13 1.8-5.2L13.5 7z" fill={c.color} stroke="#09090b" strokeWidth="1" />
+                    </svg>
+                    <span className="absolute left-4 top-3 px-1.5 rounded text-[10px] font-medium text-zinc-950 whitespace-nowrap" style={{ background: c.color }}>
+                        {c.name}
+                    </span>
+                </div>
+            ))}
+        </ViewportPortal>
+    );
+}
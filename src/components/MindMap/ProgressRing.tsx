@@ -0,0 +1,32 @@
+interface ProgressRingProps {
+    percent: number;
+    size?: number;
+}
+
+export default function ProgressRing({ percent, size = 26 }: ProgressRingProps) {
+    const stroke = 3;
+    const radius = (size - stroke) / 2;
+    const circumference = 2 * Math.PI * radius;
+
+    return (
+        <div className="relative shrink-0" style={{ width: size, height: size }}>
+            <svg width={size} height={size} className="-rotate-90">
+                <circle cx={size / 2} cy={size / 2} r={radius} fill="none" strokeWidth={stroke} className="stroke-zinc-700" />
+                <circle
+                    cx={size / 2}
+                    cy={size / 2}
+                    r={radius}
+                    fill="none"
+                    strokeWidth={stroke}
+                    strokeLinecap="round"
+                    strokeDasharray={circumference}
+                    strokeDashoffset={circumference * (1 - percent / 100)}
+                    className={`transition-[stroke-dashoffset] duration-500 ${percent === 100 ? 'stroke-emerald-400' : 'stroke-indigo-400'}`}
+                />
+            </svg>
+            <span className="absolute inset-0 flex items-center justify-center text-[8px] font-semibold text-zinc-300">
+                {percent}
+            </span>
+        </div>
+    );
+}
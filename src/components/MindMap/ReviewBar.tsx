@@ -0,0 +1,51 @@
+import { Panel } from '@xyflow/react';
+import { Check, Eye, X } from 'lucide-react';
+import { useStore } from '@/lib/store';
+
+// Review-before-apply toggle plus the batch actions for pending AI proposals
+export default function ReviewBar() {
+    const reviewMode = useStore((state) => state.reviewMode);
+    const setReviewMode = useStore((state) => state.setReviewMode);
+    const staged = useStore((state) => state.staged);
+    const acceptAllStaged = useStore((state) => state.acceptAllStaged);
+    const rejectAllStaged = useStore((state) => state.rejectAllStaged);
+
+    const pendingCount = staged.nodes.length + staged.edges.length + staged.descriptionUpdates.length;
+
+    return (
+        <Panel position="top-center">
+            <div className="flex items-center gap-3 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 shadow-lg text-xs text-zinc-300">
+                <label className="flex items-center gap-2 cursor-pointer" title="Show AI changes as proposals you accept or reject">
+                    <input
+                        type="checkbox"
+                        checked={reviewMode}
+                        onChange={(e) => setReviewMode(e.target.checked)}
+                        className="accent-indigo-500"
+                    />
+                    <Eye size={12} /> Review AI changes
+                </label>
+
+                {pendingCount > 0 && (
+                    <>
+                        <div className="w-px h-4 bg-zinc-700" />
+                        <span className="text-zinc-400">
+                            {staged.nodes.length} nodes · {staged.descriptionUpdates.length} descriptions · {staged.edges.length} links
+                        </span>
+                        <button
+                            onClick={acceptAllStaged}
+                            className="flex items-center gap-1 px-2 py-1 rounded-md bg-emerald-600/20 text-emerald-300 border border-emerald-500/30 hover:bg-emerald-600/30"
+                        >
+                            <Check size={12} /> Accept all
+                        </button>
+                        <button
+                            onClick={rejectAllStaged}
+                            className="flex items-center gap-1 px-2 py-1 rounded-md bg-red-600/20 text-red-300 border border-red-500/30 hover:bg-red-600/30"
+                        >
+                            <X size={12} /> Reject all
+                        </button>
+                    </>
+                )}
+            </div>
+        </Panel>
+    );
+}
@@ -0,0 +1,49 @@
+import { useState } from 'react';
+import { Wand2, X } from 'lucide-react';
+import { REWRITE_LENGTHS, REWRITE_TONES, RewriteLength, RewriteTone } from '@/services/nodeActions';
+
+interface RewriteFormProps {
+    onRewrite: (tone: RewriteTone, length: RewriteLength) => void;
+    onClose: () => void;
+}
+
+// Tone/length picker for the AI description rewrite, shown over the node
+export default function RewriteForm({ onRewrite, onClose }: RewriteFormProps) {
+    const [tone, setTone] = useState<RewriteTone>('neutral');
+    const [length, setLength] = useState<RewriteLength>('same');
+
+    const label = 'flex items-center justify-between gap-2 text-[10px] uppercase tracking-wide text-zinc-500';
+    const field = 'w-28 bg-zinc-950 border border-zinc-700 rounded-md px-1.5 py-1 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500';
+
+    return (
+        <div
+            className="nodrag absolute right-0 top-10 z-50 w-56 bg-zinc-800 border border-zinc-700 rounded-lg shadow-2xl p-3 flex flex-col gap-2"
+            onClick={(e) => e.stopPropagation()}
+        >
+            <div className="flex items-center justify-between">
+                <span className="text-xs font-medium text-zinc-200 flex items-center gap-1.5"><Wand2 size={12} className="text-indigo-400" /> Rewrite description</span>
+                <button onClick={onClose} className="p-0.5 text-zinc-500 hover:text-zinc-300" title="Close">
+                    <X size={12} />
+                </button>
+            </div>
+            <label className={label}>
+                Tone
+                <select value={tone} onChange={(e) => setTone(e.target.value as RewriteTone)} className={field}>
+                    {REWRITE_TONES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                </select>
+            </label>
+            <label className={label}>
+                Length
+                <select value={length} onChange={(e) => setLength(e.target.value as RewriteLength)} className={field}>
+                    {REWRITE_LENGTHS.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+                </select>
+            </label>
+            <button
+                onClick={() => onRewrite(tone, length)}
+                className="px-3 py-1.5 text-xs bg-indigo-600 hover:bg-indigo-500 text-white rounded-md transition-colors"
+            >
+                Rewrite
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,187 @@
+import { Panel, useReactFlow } from '@xyflow/react';
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Filter, Search, Trash2, X } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { useStore } from '@/lib/store';
+import { MapFilter, collectTags } from '@/lib/search';
+import { TASK_STATUSES, TaskStatus } from '@/lib/tasks';
+
+interface SearchBarProps {
+    query: string;
+    onQueryChange: (query: string) => void;
+    resultIds: string[];
+    currentIndex: number;
+    onCurrentIndexChange: (index: number) => void;
+}
+
+export default function SearchBar({ query, onQueryChange, resultIds, currentIndex, onCurrentIndexChange }: SearchBarProps) {
+    const { fitView } = useReactFlow();
+    const revealNode = useStore((state) => state.revealNode);
+    const [isFilterMenuOpen, setIsFilterMenuOpen] = useState(false);
+
+    const goTo = (index: number) => {
+        if (resultIds.length === 0) return;
+        const wrapped = (index + resultIds.length) % resultIds.length;
+        const id = resultIds[wrapped];
+        onCurrentIndexChange(wrapped);
+        // A match inside a folded branch is unfolded first; give the board a moment to render it
+        revealNode(id);
+        setTimeout(() => fitView({ nodes: [{ id }], duration: 500, maxZoom: 1.2, padding: 0.5 }), 60);
+    };
+
+    return (
+        <Panel position="top-right" style={{ marginTop: 64 }}>
+            <div className="flex items-center gap-1 bg-zinc-800 border border-zinc-700 rounded-lg shadow-lg px-2 py-1.5 text-xs text-zinc-300">
+                <Search size={14} className="text-zinc-500" />
+                <input
+                    value={query}
+                    onChange={(e) => onQueryChange(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') goTo(e.shiftKey ? currentIndex - 1 : (currentIndex === -1 ? 0 : currentIndex + 1));
+                        if (e.key === 'Escape') onQueryChange('');
+                    }}
+                    placeholder="Search the map…"
+                    className="w-44 bg-transparent text-sm text-zinc-100 placeholder:text-zinc-500 focus:outline-none"
+                />
+                {query && (
+                    <>
+                        <span className="text-zinc-500 tabular-nums whitespace-nowrap">
+                            {resultIds.length === 0 ? 'No matches' : `${currentIndex === -1 ? '–' : currentIndex + 1} / ${resultIds.length}`}
+                        </span>
+                        <button onClick={() => goTo(currentIndex - 1)} disabled={resultIds.length === 0} className="p-1 hover:text-white disabled:opacity-40" title="Previous (Shift+Enter)">
+                            <ChevronUp size={14} />
+                        </button>
+                        <button onClick={() => goTo(currentIndex + 1)} disabled={resultIds.length === 0} className="p-1 hover:text-white disabled:opacity-40" title="Next (Enter)">
+                            <ChevronDown size={14} />
+                        </button>
+                        <button onClick={() => onQueryChange('')} className="p-1 hover:text-white" title="Clear search">
+                            <X size={14} />
+                        </button>
+                    </>
+                )}
+                <div className="w-px h-4 bg-zinc-700 mx-1" />
+                <FilterMenu isOpen={isFilterMenuOpen} onToggle={() => setIsFilterMenuOpen(!isFilterMenuOpen)} />
+            </div>
+        </Panel>
+    );
+}
+
+function FilterMenu({ isOpen, onToggle }: { isOpen: boolean; onToggle: () => void }) {
+    const savedFilters = useStore((state) => state.savedFilters);
+    const activeFilterId = useStore((state) => state.activeFilterId);
+    const setActiveFilter = useStore((state) => state.setActiveFilter);
+    const deleteFilter = useStore((state) => state.deleteFilter);
+    const [isCreating, setIsCreating] = useState(false);
+
+    return (
+        <div className="relative">
+            <button
+                onClick={onToggle}
+                className={`flex items-center gap-1 p-1 rounded ${activeFilterId ? 'text-indigo-300' : 'hover:text-white'}`}
+                title="Filters"
+            >
+                <Filter size={14} />
+                {activeFilterId && <span className="max-w-[80px] truncate">{savedFilters.find(f => f.id === activeFilterId)?.name}</span>}
+            </button>
+
+            {isOpen && (
+                <div className="absolute right-0 mt-3 w-64 bg-zinc-800 border border-zinc-700 rounded-lg shadow-xl z-50 p-2 space-y-1">
+                    <button
+                        onClick={() => setActiveFilter(null)}
+                        className={`w-full text-left px-2 py-1.5 rounded-md ${activeFilterId === null ? 'bg-zinc-700 text-white' : 'hover:bg-zinc-700'}`}
+                    >
+                        Show everything
+                    </button>
+                    {savedFilters.map(filter => (
+                        <div key={filter.id} className={`flex items-center rounded-md ${activeFilterId === filter.id ? 'bg-indigo-600/30 text-white' : 'hover:bg-zinc-700'}`}>
+                            <button onClick={() => setActiveFilter(filter.id)} className="flex-1 text-left px-2 py-1.5 truncate">
+                                {filter.name}
+                            </button>
+                            <button onClick={() => deleteFilter(filter.id)} className="p-1.5 text-zinc-500 hover:text-red-400" title="Delete filter">
+                                <Trash2 size={12} />
+                            </button>
+                        </div>
+                    ))}
+                    <div className="h-px bg-zinc-700 my-1" />
+                    {isCreating
+                        ? <FilterEditor onDone={() => setIsCreating(false)} />
+                        : <button onClick={() => setIsCreating(true)} className="w-full text-left px-2 py-1.5 rounded-md text-indigo-300 hover:bg-zinc-700">+ New filter</button>}
+                </div>
+            )}
+        </div>
+    );
+}
+
+function FilterEditor({ onDone }: { onDone: () => void }) {
+    const nodes = useStore((state) => state.nodes);
+    const saveFilter = useStore((state) => state.saveFilter);
+    const setActiveFilter = useStore((state) => state.setActiveFilter);
+    const [name, setName] = useState('');
+    const [tags, setTags] = useState<string[]>([]);
+    const [statuses, setStatuses] = useState<TaskStatus[]>([]);
+    const [maxDepth, setMaxDepth] = useState('');
+
+    const availableTags = collectTags(nodes);
+    const toggle = <T,>(list: T[], value: T) => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+    const isEmpty = tags.length === 0 && statuses.length === 0 && maxDepth === '';
+
+    const save = () => {
+        const filter: MapFilter = {
+            id: uuidv4(),
+            name: name.trim() || 'Untitled filter',
+            ...(tags.length > 0 ? { tags } : {}),
+            ...(statuses.length > 0 ? { statuses } : {}),
+            ...(maxDepth !== '' ? { maxDepth: Number(maxDepth) } : {}),
+        };
+        saveFilter(filter);
+        setActiveFilter(filter.id);
+        onDone();
+    };
+
+    const chip = (active: boolean) => `px-1.5 py-0.5 rounded-full border text-[10px] ${active ? 'bg-indigo-600 border-indigo-500 text-white' : 'border-zinc-600 text-zinc-400 hover:text-white'}`;
+
+    return (
+        <div className="space-y-2 p-1">
+            <input
+                autoFocus
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Filter name"
+                className="w-full bg-zinc-950 border border-zinc-700 rounded-md px-2 py-1 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500"
+            />
+            {availableTags.length > 0 && (
+                <div className="space-y-1">
+                    <div className="text-[10px] uppercase tracking-wide text-zinc-500">Tags</div>
+                    <div className="flex flex-wrap gap-1">
+                        {availableTags.map(tag => (
+                            <button key={tag} onClick={() => setTags(toggle(tags, tag))} className={chip(tags.includes(tag))}>#{tag}</button>
+                        ))}
+                    </div>
+                </div>
+            )}
+            <div className="space-y-1">
+                <div className="text-[10px] uppercase tracking-wide text-zinc-500">Status</div>
+                <div className="flex flex-wrap gap-1">
+                    {TASK_STATUSES.map(s => (
+                        <button key={s.value} onClick={() => setStatuses(toggle(statuses, s.value))} className={chip(statuses.includes(s.value))}>{s.label}</button>
+                    ))}
+                </div>
+            </div>
+            <label className="flex items-center justify-between text-[10px] uppercase tracking-wide text-zinc-500">
+                Max depth
+                <input
+                    type="number"
+                    min={1}
+                    value={maxDepth}
+                    onChange={(e) => setMaxDepth(e.target.value)}
+                    placeholder="Any"
+                    className="w-16 bg-zinc-950 border border-zinc-700 rounded-md px-2 py-0.5 text-xs text-zinc-200 normal-case focus:outline-none focus:border-indigo-500"
+                />
+            </label>
+            <div className="flex justify-end gap-2">
+                <button onClick={onDone} className="px-2 py-1 rounded-md text-zinc-400 hover:text-zinc-200">Cancel</button>
+                <button onClick={save} disabled={isEmpty} className="px-3 py-1 rounded-md bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-40">Save</button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+
+export interface SearchState {
+    matchIds: Set<string>;
+    currentId: string | null;
+}
+
+// null while no search is running
+export const SearchContext = createContext<SearchState | null>(null);
+
+export type SearchHighlight = 'current' | 'match' | 'dimmed' | null;
+
+export const useSearchHighlight = (id: string): SearchHighlight => {
+    const search = useContext(SearchContext);
+    if (!search) return null;
+    if (search.currentId === id) return 'current';
+    return search.matchIds.has(id) ? 'match' : 'dimmed';
+};
@@ -0,0 +1,48 @@
+import { memo } from 'react';
+import { BaseEdge, EdgeLabelRenderer, EdgeProps, getBezierPath } from '@xyflow/react';
+import { Check, X } from 'lucide-react';
+import { useStore } from '@/lib/store';
+
+// Proposed (not yet accepted) edge: dashed, with accept/reject buttons at its midpoint
+const StagedEdge = ({ id, sourceX, sourceY, targetX, targetY, sourcePosition, targetPosition }: EdgeProps) => {
+    const acceptStagedItem = useStore((state) => state.acceptStagedItem);
+    const rejectStagedItem = useStore((state) => state.rejectStagedItem);
+    // Edges to ghost nodes are accepted together with the node
+    const targetIsGhost = useStore((state) => {
+        const edge = state.staged.edges.find(e => e.id === id);
+        return !!edge && state.staged.nodes.some(n => n.id === edge.target);
+    });
+
+    const [edgePath, labelX, labelY] = getBezierPath({ sourceX, sourceY, targetX, targetY, sourcePosition, targetPosition });
+
+    return (
+        <>
+            <BaseEdge id={id} path={edgePath} style={{ stroke: '#818cf8', strokeDasharray: '6 4', opacity: 0.7 }} />
+            {!targetIsGhost && (
+                <EdgeLabelRenderer>
+                    <div
+                        className="nodrag nopan absolute flex gap-1 pointer-events-auto"
+                        style={{ transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)` }}
+                    >
+                        <button
+                            onClick={() => acceptStagedItem('edge', id)}
+                            className="p-1 rounded-full bg-zinc-800 border border-emerald-500/50 text-emerald-400 hover:bg-emerald-900/40"
+                            title="Accept link"
+                        >
+                            <Check size={10} />
+                        </button>
+                        <button
+                            onClick={() => rejectStagedItem('edge', id)}
+                            className="p-1 rounded-full bg-zinc-800 border border-red-500/50 text-red-400 hover:bg-red-900/40"
+                            title="Reject link"
+                        >
+                            <X size={10} />
+                        </button>
+                    </div>
+                </EdgeLabelRenderer>
+            )}
+        </>
+    );
+};
+
+export default memo(StagedEdge);
@@ -0,0 +1,52 @@
+import { Calendar, Clock, User } from 'lucide-react';
+import { TASK_PRIORITIES, TASK_STATUSES, TaskFields, TaskStatus, isOverdue } from '@/lib/tasks';
+
+interface TaskChipsProps {
+    task: TaskFields;
+    tags?: string[];
+    // Clicking the status chip advances it todo → doing → done
+    onCycleStatus?: (status: TaskStatus) => void;
+}
+
+const NEXT_STATUS: Record<TaskStatus, TaskStatus> = { todo: 'doing', doing: 'done', done: 'todo', blocked: 'doing' };
+
+export default function TaskChips({ task, tags = [], onCycleStatus }: TaskChipsProps) {
+    const status = TASK_STATUSES.find(s => s.value === task.status);
+    const priority = TASK_PRIORITIES.find(p => p.value === task.priority);
+    const chip = 'flex items-center gap-1 px-1.5 py-0.5 rounded-full border text-[10px] leading-none';
+
+    if (!status && !priority && !task.dueDate && !task.estimate && !task.assignee && tags.length === 0) return null;
+
+    return (
+        <div className="flex flex-wrap gap-1 px-3 py-2 border-t border-zinc-800 bg-zinc-900/60">
+            {status && (
+                <button
+                    onClick={(e) => { e.stopPropagation(); onCycleStatus?.(NEXT_STATUS[status.value]); }}
+                    className={`${chip} ${status.chipClass}`}
+                    title="Change status"
+                >
+                    {status.label}
+                </button>
+            )}
+            {priority && <span className={`${chip} ${priority.chipClass}`}>{priority.label}</span>}
+            {task.dueDate && (
+                <span className={`${chip} ${isOverdue(task) ? 'text-red-300 border-red-500/50' : 'text-zinc-400 border-zinc-700'}`}>
+                    <Calendar size={9} /> {task.dueDate}
+                </span>
+            )}
+            {task.estimate !== undefined && (
+                <span className={`${chip} text-zinc-400 border-zinc-700`}>
+                    <Clock size={9} /> {task.estimate}h
+                </span>
+            )}
+            {task.assignee && (
+                <span className={`${chip} text-zinc-400 border-zinc-700`}>
+                    <User size={9} /> {task.assignee}
+                </span>
+            )}
+            {tags.map(tag => (
+                <span key={tag} className={`${chip} text-indigo-300 border-indigo-500/30`}>#{tag}</span>
+            ))}
+        </div>
+    );
+}
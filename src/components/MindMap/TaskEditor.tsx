@@ -0,0 +1,84 @@
+import { NodeDataPatch } from '@/lib/store';
+import { TASK_PRIORITIES, TASK_STATUSES, TaskFields, TaskPriority, TaskStatus } from '@/lib/tasks';
+
+interface TaskEditorProps {
+    task: TaskFields;
+    tags: string[];
+    onChange: (patch: NodeDataPatch) => void;
+}
+
+// Task fields (and tags) shown in the expanded node. Empty inputs clear the field; text fields save on blur.
+export default function TaskEditor({ task, tags, onChange }: TaskEditorProps) {
+    const field = 'w-full bg-zinc-950 border border-zinc-700 rounded-md px-1.5 py-1 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500';
+    const label = 'flex flex-col gap-1 text-[10px] uppercase tracking-wide text-zinc-500';
+
+    return (
+        <div className="nodrag grid grid-cols-2 gap-2 pt-2 mt-2 border-t border-zinc-800" onClick={(e) => e.stopPropagation()}>
+            <label className={label}>
+                Status
+                <select
+                    value={task.status || ''}
+                    onChange={(e) => onChange({ status: (e.target.value || undefined) as TaskStatus | undefined })}
+                    className={field}
+                >
+                    <option value="">Not a task</option>
+                    {TASK_STATUSES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                </select>
+            </label>
+            <label className={label}>
+                Priority
+                <select
+                    value={task.priority || ''}
+                    onChange={(e) => onChange({ priority: (e.target.value || undefined) as TaskPriority | undefined })}
+                    className={field}
+                >
+                    <option value="">None</option>
+                    {TASK_PRIORITIES.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+                </select>
+            </label>
+            <label className={label}>
+                Due
+                <input
+                    type="date"
+                    value={task.dueDate || ''}
+                    onChange={(e) => onChange({ dueDate: e.target.value || undefined })}
+                    className={field}
+                />
+            </label>
+            <label className={label}>
+                Estimate (h)
+                <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    defaultValue={task.estimate ?? ''}
+                    onBlur={(e) => onChange({ estimate: e.target.value === '' ? undefined : Number(e.target.value) })}
+                    className={field}
+                />
+            </label>
+            <label className={`${label} col-span-2`}>
+                Assignee
+                <input
+                    type="text"
+                    defaultValue={task.assignee || ''}
+                    onBlur={(e) => onChange({ assignee: e.target.value.trim() || undefined })}
+                    placeholder="Name or email"
+                    className={field}
+                />
+            </label>
+            <label className={`${label} col-span-2`}>
+                Tags
+                <input
+                    type="text"
+                    defaultValue={tags.join(', ')}
+                    onBlur={(e) => {
+                        const next = Array.from(new Set(e.target.value.split(',').map(t => t.trim().replace(/^#/, '')).filter(Boolean)));
+                        onChange({ tags: next.length > 0 ? next : undefined });
+                    }}
+                    placeholder="research, q3"
+                    className={field}
+                />
+            </label>
+        </div>
+    );
+}
@@ -1,13 +1,27 @@
 'use client';
 
 import { useState } from 'react';
-import { Settings, Cpu, AlertTriangle, X, Check, Loader2 } from 'lucide-react';
+import { Settings, Cpu, AlertTriangle, X, Check, Loader2, Server } from 'lucide-react';
 import { MODEL_OPTIONS, ModelSize, aiService } from '@/services/ai';
-import { InitProgressReport } from '@mlc-ai/web-llm';
+import { MIN_CONTEXT_BUDGET } from '@/services/context';
+import {
+    DEFAULT_OPENAI_CONFIG,
+    PROVIDER_LABELS,
+    ProviderConfig,
+    ProviderKind,
+    ProviderProgressReport,
+    isWebGPUAvailable,
+} from '@/services/providers';
 
 export default function ModelSelector() {
     const [isOpen, setIsOpen] = useState(false);
-    const [currentModel, setCurrentModel] = useState<ModelSize>('1.5B');
+    const [currentModel, setCurrentModel] = useState<ModelSize>(() => aiService.getModelSize());
+    const [providerConfig, setProviderConfig] = useState<ProviderConfig>(() => aiService.getProviderConfig());
+    const [draftConfig, setDraftConfig] = useState<ProviderConfig>(providerConfig);
+    const [error, setError] = useState<string | null>(null);
+    const [structuredOutput, setStructuredOutput] = useState(() => aiService.isStructuredOutputEnabled());
+    const [embeddingAnchors, setEmbeddingAnchors] = useState(() => aiService.isEmbeddingAnchorsEnabled());
+    const [contextBudget, setContextBudget] = useState(() => String(aiService.getContextBudget()));
     const [showConfirm, setShowConfirm] = useState(false);
     const [pendingModel, setPendingModel] = useState<ModelSize | null>(null);
     const [isLoading, setIsLoading] = useState(false);
@@ -20,8 +34,8 @@ export default function ModelSelector() {
             return;
         }
 
-        if (size === '3B') {
-            // Show confirmation for 3B
+        if (size === '3B' && providerConfig.kind === 'webllm') {
+            // Show confirmation for 3B (only WebLLM has to download it)
             setPendingModel(size);
             setShowConfirm(true);
         } else {
@@ -36,15 +50,14 @@ export default function ModelSelector() {
         setLoadingText('Initializing...');
         setShowConfirm(false);
         setIsOpen(false);
+        setError(null);
 
         try {
-            await aiService.switchModel(size, (report: InitProgressReport) => {
-                setLoadingText(report.text);
-                if (report.progress) setLoadingProgress(report.progress);
-            });
+            await aiService.switchModel(size, onLoadProgress);
             setCurrentModel(size);
         } catch (error) {
             console.error('Failed to switch model:', error);
+            setError(error instanceof Error ? error.message : String(error));
         } finally {
             setIsLoading(false);
             setLoadingProgress(0);
@@ -52,6 +65,48 @@ export default function ModelSelector() {
         }
     };
 
+    const onLoadProgress = (report: ProviderProgressReport) => {
+        setLoadingText(report.text);
+        if (report.progress) setLoadingProgress(report.progress);
+    };
+
+    const applyProvider = async () => {
+        setIsLoading(true);
+        setLoadingProgress(0);
+        setLoadingText('Initializing...');
+        setIsOpen(false);
+        setError(null);
+
+        try {
+            await aiService.setProvider(draftConfig, onLoadProgress);
+            setProviderConfig(draftConfig);
+        } catch (error) {
+            console.error('Failed to switch provider:', error);
+            // The config is saved even if the first connection fails, so keep the UI in sync
+            setProviderConfig(draftConfig);
+            setError(error instanceof Error ? error.message : String(error));
+        } finally {
+            setIsLoading(false);
+            setLoadingProgress(0);
+            setLoadingText('');
+        }
+    };
+
+    const selectProviderKind = (kind: ProviderKind) => {
+        setDraftConfig(kind === 'openai'
+            ? { ...DEFAULT_OPENAI_CONFIG, ...draftConfig, kind }
+            : { ...draftConfig, kind });
+    };
+
+    const describeModel = (size: ModelSize) => {
+        const model = MODEL_OPTIONS[size];
+        if (providerConfig.kind === 'webllm') return `${model.downloadSize} • ${model.ramRequired} RAM`;
+        return aiService.resolveModelId(size);
+    };
+
+    const draftModels = draftConfig.models || DEFAULT_OPENAI_CONFIG.models;
+    const isDraftDirty = JSON.stringify(draftConfig) !== JSON.stringify(providerConfig);
+
     const confirmSwitch = () => {
         if (pendingModel) {
             switchToModel(pendingModel);
@@ -65,7 +120,9 @@ export default function ModelSelector() {
                 <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center">
                     <div className="bg-zinc-900 border border-zinc-700 rounded-2xl p-8 max-w-md w-full mx-4 text-center">
                         <Loader2 className="w-12 h-12 animate-spin text-indigo-400 mx-auto mb-4" />
-                        <h3 className="text-lg font-semibold text-zinc-100 mb-2">Downloading AI Model</h3>
+                        <h3 className="text-lg font-semibold text-zinc-100 mb-2">
+                            {providerConfig.kind === 'webllm' ? 'Downloading AI Model' : 'Connecting to AI Model'}
+                        </h3>
                         <p className="text-sm text-zinc-400 mb-4">{loadingText}</p>
                         <div className="w-full bg-zinc-800 rounded-full h-2">
                             <div
@@ -178,12 +235,118 @@ export default function ModelSelector() {
                                     </div>
                                     <p className="text-xs text-zinc-500 ml-5">{model.description}</p>
                                     <p className="text-xs text-zinc-600 ml-5 mt-1">
-                                        {model.downloadSize} • {model.ramRequired} RAM
+                                        {describeModel(size)}
                                     </p>
                                 </button>
                             );
                         })}
                     </div>
+
+                    {/* Provider */}
+                    <div className="p-3 border-t border-zinc-800 space-y-2">
+                        <span className="text-xs font-medium text-zinc-400 flex items-center gap-1.5">
+                            <Server size={12} /> Provider
+                        </span>
+                        <select
+                            value={draftConfig.kind}
+                            onChange={(e) => selectProviderKind(e.target.value as ProviderKind)}
+                            className="w-full bg-zinc-800 text-zinc-200 text-xs rounded-md px-2 py-1.5 border border-zinc-700 focus:outline-none focus:border-indigo-500"
+                        >
+                            {(Object.keys(PROVIDER_LABELS) as ProviderKind[]).map((kind) => (
+                                <option key={kind} value={kind} disabled={kind === 'webllm' && !isWebGPUAvailable()}>
+                                    {PROVIDER_LABELS[kind]}{kind === 'webllm' && !isWebGPUAvailable() ? ' (no WebGPU)' : ''}
+                                </option>
+                            ))}
+                        </select>
+
+                        {draftConfig.kind === 'openai' && (
+                            <div className="space-y-1.5">
+                                <input
+                                    value={draftConfig.baseUrl || ''}
+                                    onChange={(e) => setDraftConfig({ ...draftConfig, baseUrl: e.target.value })}
+                                    placeholder={DEFAULT_OPENAI_CONFIG.baseUrl}
+                                    className="w-full bg-zinc-800 text-zinc-200 text-xs rounded-md px-2 py-1.5 border border-zinc-700 focus:outline-none focus:border-indigo-500"
+                                />
+                                <input
+                                    type="password"
+                                    value={draftConfig.apiKey || ''}
+                                    onChange={(e) => setDraftConfig({ ...draftConfig, apiKey: e.target.value || undefined })}
+                                    placeholder="API key (optional)"
+                                    className="w-full bg-zinc-800 text-zinc-200 text-xs rounded-md px-2 py-1.5 border border-zinc-700 focus:outline-none focus:border-indigo-500"
+                                />
+                                {(Object.keys(MODEL_OPTIONS) as ModelSize[]).map((size) => (
+                                    <input
+                                        key={size}
+                                        value={draftModels[size]}
+                                        onChange={(e) => setDraftConfig({ ...draftConfig, models: { ...draftModels, [size]: e.target.value } })}
+                                        placeholder={`${MODEL_OPTIONS[size].name} model name`}
+                                        title={`${MODEL_OPTIONS[size].name} model name`}
+                                        className="w-full bg-zinc-800 text-zinc-200 text-xs rounded-md px-2 py-1.5 border border-zinc-700 focus:outline-none focus:border-indigo-500"
+                                    />
+                                ))}
+                            </div>
+                        )}
+
+                        <label className="flex items-center gap-2 text-xs text-zinc-400 pt-1 cursor-pointer" title="Ask for schema-constrained JSON instead of the line format. Replies no longer stream.">
+                            <input
+                                type="checkbox"
+                                checked={structuredOutput}
+                                onChange={(e) => {
+                                    aiService.setStructuredOutputEnabled(e.target.checked);
+                                    setStructuredOutput(e.target.checked);
+                                }}
+                                className="accent-indigo-500"
+                            />
+                            Structured output (JSON)
+                        </label>
+
+                        {providerConfig.kind === 'webllm' && (
+                            <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer" title="When a new topic's place in the map is unclear, re-rank the candidates with a small embedding model before asking you.">
+                                <input
+                                    type="checkbox"
+                                    checked={embeddingAnchors}
+                                    onChange={(e) => {
+                                        aiService.setEmbeddingAnchorsEnabled(e.target.checked);
+                                        setEmbeddingAnchors(e.target.checked);
+                                    }}
+                                    className="accent-indigo-500"
+                                />
+                                Embedding-assisted placement
+                            </label>
+                        )}
+
+                        <label className="flex items-center justify-between gap-2 text-xs text-zinc-400" title="Upper bound for each prompt. Older messages are summarized and only the most relevant node names are sent to stay under it. Match it to the model's context window.">
+                            Prompt budget (tokens)
+                            <input
+                                type="number"
+                                min={MIN_CONTEXT_BUDGET}
+                                step={256}
+                                value={contextBudget}
+                                onChange={(e) => setContextBudget(e.target.value)}
+                                onBlur={() => {
+                                    const tokens = Number(contextBudget);
+                                    if (Number.isFinite(tokens)) aiService.setContextBudget(tokens);
+                                    setContextBudget(String(aiService.getContextBudget()));
+                                }}
+                                className="w-20 bg-zinc-800 text-zinc-200 text-xs rounded-md px-2 py-1 border border-zinc-700 focus:outline-none focus:border-indigo-500"
+                            />
+                        </label>
+
+                        {isDraftDirty && (
+                            <button
+                                onClick={applyProvider}
+                                className="w-full px-3 py-1.5 text-xs bg-indigo-600 text-white rounded-md hover:bg-indigo-500 transition-colors"
+                            >
+                                Apply
+                            </button>
+                        )}
+
+                        {error && (
+                            <p className="text-xs text-red-400 flex items-start gap-1.5">
+                                <AlertTriangle size={12} className="shrink-0 mt-0.5" /> {error}
+                            </p>
+                        )}
+                    </div>
                 </div>
             )}
         </>
@@ -0,0 +1,201 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Cloud, Copy, HardDrive, LogOut, Pencil, Search, Trash2, Check, Users, X, Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+    SessionSummary,
+    deleteSession,
+    duplicateSession,
+    listSessions,
+    renameSession,
+    searchSessions,
+} from '@/lib/sessions';
+import { MAP_ROLES } from '@/lib/collab/types';
+
+const SOURCE_ICONS = { local: HardDrive, cloud: Cloud, shared: Users };
+const SOURCE_HINTS = { local: 'Stored in this browser', cloud: 'Cloud session', shared: 'Shared map' };
+
+const roleLabel = (session: SessionSummary) => {
+    if (session.pending) return 'Invited';
+    if (session.isOwner) return 'Owner';
+    return MAP_ROLES.find(r => r.value === session.role)?.label;
+};
+
+const formatUpdatedAt = (timestamp: number) => {
+    if (!timestamp) return 'Unknown';
+    return new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+export default function SessionLibrary() {
+    const router = useRouter();
+    const { user, loading: authLoading } = useAuth();
+
+    const [sessions, setSessions] = useState<SessionSummary[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [query, setQuery] = useState('');
+    const [renamingKey, setRenamingKey] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+
+    // Bumped to list the sessions again after an action changed them
+    const [reloadKey, setReloadKey] = useState(0);
+
+    useEffect(() => {
+        if (authLoading) return;
+        // A reply for a user who has since signed out (or a superseded reload) is dropped
+        let cancelled = false;
+        const load = async () => {
+            try {
+                const list = await listSessions(user);
+                if (!cancelled) setSessions(list);
+            } catch (e) {
+                console.error("Failed to list sessions", e);
+            } finally {
+                if (!cancelled) setIsLoading(false);
+            }
+        };
+        load();
+        return () => { cancelled = true; };
+    }, [authLoading, user, reloadKey]);
+
+    const refresh = () => {
+        setIsLoading(true);
+        setReloadKey(key => key + 1);
+    };
+
+    const visibleSessions = useMemo(() => searchSessions(sessions, query), [sessions, query]);
+
+    const keyOf = (s: SessionSummary) => `${s.source}:${s.id}`;
+
+    const runAction = async (action: () => Promise<unknown>) => {
+        try {
+            await action();
+        } catch (e) {
+            console.error("Session action failed", e);
+        }
+        refresh();
+    };
+
+    const submitRename = (session: SessionSummary) => {
+        const title = renameValue.trim();
+        setRenamingKey(null);
+        if (!title || title === (session.title || session.goal)) return;
+        runAction(() => renameSession(session, title, user?.uid));
+    };
+
+    const confirmDelete = (session: SessionSummary) => {
+        const name = session.title || session.goal;
+        const leaving = session.source === 'shared' && !session.isOwner;
+        const question = leaving
+            ? `Leave "${name}"? You will need a new invite to open it again.`
+            : `Delete "${name}"? This cannot be undone.`;
+        if (!window.confirm(question)) return;
+        runAction(() => deleteSession(session, user?.uid));
+    };
+
+    if (!isLoading && sessions.length === 0) return null;
+
+    return (
+        <div className="w-full max-w-xl mx-auto mt-12 text-left">
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-semibold text-zinc-300">Your sessions</h3>
+                {isLoading && <Loader2 className="w-4 h-4 animate-spin text-zinc-500" />}
+            </div>
+
+            <div className="relative mb-3">
+                <Search className="w-4 h-4 text-zinc-500 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Search goals and topics..."
+                    className="w-full pl-9 pr-3 py-2 rounded-xl bg-zinc-900/80 border border-zinc-700/50 text-sm text-zinc-200 placeholder:text-zinc-500 outline-none focus:border-indigo-500/50"
+                />
+            </div>
+
+            <ul className="space-y-2 max-h-80 overflow-y-auto pr-1">
+                {visibleSessions.map((session) => {
+                    const key = keyOf(session);
+                    const SourceIcon = SOURCE_ICONS[session.source];
+                    const isShared = session.source === 'shared';
+                    // Invitees join when they first open the map; until then it is not theirs to change
+                    const canRename = !isShared || (!session.pending && session.role === 'editor');
+                    return (
+                        <li
+                            key={key}
+                            className="group flex items-center gap-3 px-4 py-3 rounded-xl bg-zinc-900/60 border border-zinc-800 hover:border-indigo-500/40 transition-colors"
+                        >
+                            <span className="text-zinc-500 shrink-0" title={SOURCE_HINTS[session.source]}>
+                                <SourceIcon size={14} />
+                            </span>
+
+                            {renamingKey === key ? (
+                                <div className="flex-1 flex items-center gap-1">
+                                    <input
+                                        value={renameValue}
+                                        onChange={(e) => setRenameValue(e.target.value)}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') submitRename(session);
+                                            if (e.key === 'Escape') setRenamingKey(null);
+                                        }}
+                                        autoFocus
+                                        className="flex-1 bg-zinc-800 text-sm text-zinc-100 rounded-md px-2 py-1 outline-none border border-zinc-700 focus:border-indigo-500"
+                                    />
+                                    <button onClick={() => submitRename(session)} className="p-1 text-emerald-400 hover:text-emerald-300"><Check size={14} /></button>
+                                    <button onClick={() => setRenamingKey(null)} className="p-1 text-zinc-500 hover:text-zinc-300"><X size={14} /></button>
+                                </div>
+                            ) : (
+                                <button
+                                    onClick={() => router.push(`/mindmap/${session.id}`)}
+                                    className="flex-1 min-w-0 text-left"
+                                >
+                                    <div className="text-sm text-zinc-100 truncate">{session.title || session.goal || 'Untitled session'}</div>
+                                    <div className="text-xs text-zinc-500 truncate">
+                                        {session.title && session.goal ? `${session.goal} · ` : ''}
+                                        {isShared && `${roleLabel(session)} · `}
+                                        {session.nodeCount} nodes · {formatUpdatedAt(session.updatedAt)}
+                                    </div>
+                                </button>
+                            )}
+
+                            {renamingKey !== key && (
+                                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                    {canRename && (
+                                        <button
+                                            onClick={() => { setRenamingKey(key); setRenameValue(session.title || session.goal); }}
+                                            className="p-1.5 rounded-md text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800"
+                                            title="Rename"
+                                        >
+                                            <Pencil size={12} />
+                                        </button>
+                                    )}
+                                    {!session.pending && (
+                                        <>
+                                            <button
+                                                onClick={() => runAction(() => duplicateSession(session, user?.uid))}
+                                                className="p-1.5 rounded-md text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800"
+                                                title={isShared ? 'Duplicate as a private session' : 'Duplicate'}
+                                            >
+                                                <Copy size={12} />
+                                            </button>
+                                            <button
+                                                onClick={() => confirmDelete(session)}
+                                                className="p-1.5 rounded-md text-red-400 hover:text-red-300 hover:bg-zinc-800"
+                                                title={isShared && !session.isOwner ? 'Leave' : 'Delete'}
+                                            >
+                                                {isShared && !session.isOwner ? <LogOut size={12} /> : <Trash2 size={12} />}
+                                            </button>
+                                        </>
+                                    )}
+                                </div>
+                            )}
+                        </li>
+                    );
+                })}
+                {!isLoading && visibleSessions.length === 0 && (
+                    <li className="text-xs text-zinc-500 px-1">No sessions match &quot;{query}&quot;.</li>
+                )}
+            </ul>
+        </div>
+    );
+}
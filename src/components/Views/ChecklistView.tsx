@@ -0,0 +1,67 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useStore, selectCanEdit } from '@/lib/store';
+import { TASK_STATUSES, WorkItem, collectWorkItems } from '@/lib/tasks';
+
+// Leaf nodes grouped under their ancestor path; ticking one marks the node done on the map
+export default function ChecklistView() {
+    const nodes = useStore((state) => state.nodes);
+    const edges = useStore((state) => state.edges);
+    const rootId = useStore((state) => state.rootId);
+    const goal = useStore((state) => state.goal);
+    const updateNodeData = useStore((state) => state.updateNodeData);
+    const canEdit = useStore(selectCanEdit);
+
+    const groups = useMemo(() => {
+        const byPath = new Map<string, WorkItem[]>();
+        collectWorkItems(nodes, edges, rootId).filter(item => item.isLeaf).forEach(item => {
+            const key = item.path.join(' › ');
+            byPath.set(key, [...(byPath.get(key) || []), item]);
+        });
+        return Array.from(byPath.entries());
+    }, [nodes, edges, rootId]);
+
+    const allItems = groups.flatMap(([, items]) => items);
+    const doneCount = allItems.filter(item => item.task.status === 'done').length;
+
+    return (
+        <div className="w-full h-full overflow-y-auto bg-zinc-950 pt-20 px-6 pb-6">
+            <div className="max-w-2xl mx-auto space-y-6">
+                <div>
+                    <h2 className="text-lg font-semibold text-zinc-100">{goal || 'Checklist'}</h2>
+                    <p className="text-xs text-zinc-500">{doneCount} of {allItems.length} done</p>
+                </div>
+
+                {groups.length === 0 && <p className="text-sm text-zinc-500">The map has no items yet.</p>}
+
+                {groups.map(([path, items]) => (
+                    <section key={path} className="space-y-1">
+                        <h3 className="text-xs font-medium uppercase tracking-wide text-zinc-500">{path || goal || 'Top level'}</h3>
+                        <ul className="rounded-xl border border-zinc-800 bg-zinc-900/60 divide-y divide-zinc-800">
+                            {items.map(item => {
+                                const status = TASK_STATUSES.find(s => s.value === item.task.status);
+                                const done = item.task.status === 'done';
+                                return (
+                                    <li key={item.id} className="flex items-center gap-3 px-3 py-2">
+                                        <input
+                                            type="checkbox"
+                                            checked={done}
+                                            disabled={!canEdit}
+                                            onChange={() => updateNodeData(item.id, { status: done ? 'todo' : 'done' })}
+                                            className="accent-emerald-500"
+                                        />
+                                        <span className={`flex-1 text-sm ${done ? 'text-zinc-500 line-through' : 'text-zinc-200'}`}>{item.label}</span>
+                                        {status && !done && (
+                                            <span className={`px-1.5 py-0.5 rounded-full border text-[10px] ${status.chipClass}`}>{status.label}</span>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </section>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { useMemo, useState, DragEvent } from 'react';
+import { useStore, selectCanEdit } from '@/lib/store';
+import { TASK_STATUSES, TaskStatus, WorkItem, collectWorkItems } from '@/lib/tasks';
+import TaskChips from '@/components/MindMap/TaskChips';
+
+type ColumnId = TaskStatus | 'unsorted';
+
+const COLUMN_ACCENTS: Record<ColumnId, string> = {
+    unsorted: 'border-t-zinc-600',
+    todo: 'border-t-zinc-400',
+    doing: 'border-t-sky-500',
+    done: 'border-t-emerald-500',
+    blocked: 'border-t-red-500',
+};
+
+const COLUMNS: { id: ColumnId; label: string }[] = [
+    { id: 'unsorted', label: 'No status' },
+    ...TASK_STATUSES.map(s => ({ id: s.value, label: s.label })),
+];
+
+// Tasks, plus leaves that could become one
+const isActionable = (item: WorkItem) => Boolean(item.task.status) || item.isLeaf;
+
+// Cards are map nodes; dropping one on a column sets that node's status
+export default function KanbanView() {
+    const nodes = useStore((state) => state.nodes);
+    const edges = useStore((state) => state.edges);
+    const rootId = useStore((state) => state.rootId);
+    const updateNodeData = useStore((state) => state.updateNodeData);
+    const canEdit = useStore(selectCanEdit);
+    const [dragOver, setDragOver] = useState<ColumnId | null>(null);
+
+    const items = useMemo(() => collectWorkItems(nodes, edges, rootId).filter(isActionable), [nodes, edges, rootId]);
+
+    const onDrop = (column: ColumnId) => (e: DragEvent) => {
+        e.preventDefault();
+        setDragOver(null);
+        const id = e.dataTransfer.getData('text/plain');
+        if (id && canEdit) updateNodeData(id, { status: column === 'unsorted' ? undefined : column });
+    };
+
+    return (
+        <div className="w-full h-full overflow-x-auto bg-zinc-950 pt-20 px-6 pb-6">
+            <div className="flex gap-4 h-full min-w-max">
+                {COLUMNS.map(column => {
+                    const cards = items.filter(item => (item.task.status || 'unsorted') === column.id);
+                    return (
+                        <div
+                            key={column.id}
+                            onDragOver={(e) => { e.preventDefault(); setDragOver(column.id); }}
+                            onDragLeave={() => setDragOver(null)}
+                            onDrop={onDrop(column.id)}
+                            className={`w-72 flex flex-col rounded-xl border border-zinc-800 border-t-2 ${COLUMN_ACCENTS[column.id]} ${dragOver === column.id ? 'bg-zinc-800/60' : 'bg-zinc-900/60'} transition-colors`}
+                        >
+                            <div className="flex items-center justify-between px-3 py-2 text-sm font-medium text-zinc-300">
+                                {column.label}
+                                <span className="text-xs text-zinc-500">{cards.length}</span>
+                            </div>
+                            <div className="flex-1 overflow-y-auto px-2 pb-2 space-y-2">
+                                {cards.map(item => (
+                                    <div
+                                        key={item.id}
+                                        draggable={canEdit}
+                                        onDragStart={(e) => e.dataTransfer.setData('text/plain', item.id)}
+                                        className={`rounded-lg bg-zinc-900 border border-zinc-700 hover:border-indigo-500 shadow ${canEdit ? 'cursor-grab active:cursor-grabbing' : ''}`}
+                                    >
+                                        <div className="px-3 pt-2 pb-1">
+                                            {item.path.length > 0 && (
+                                                <div className="text-[10px] text-zinc-500 truncate">{item.path.join(' › ')}</div>
+                                            )}
+                                            <div className="text-sm text-zinc-100">{item.label}</div>
+                                        </div>
+                                        {/* Status is the column; show the rest */}
+                                        <TaskChips task={{ ...item.task, status: undefined }} />
+                                    </div>
+                                ))}
+                                {cards.length === 0 && (
+                                    <div className="text-xs text-zinc-600 text-center py-6">Drop cards here</div>
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,30 @@
+import { CheckSquare, Columns3, Network } from 'lucide-react';
+
+export type WorkspaceView = 'map' | 'kanban' | 'checklist';
+
+const VIEWS: { view: WorkspaceView; label: string; icon: typeof Network }[] = [
+    { view: 'map', label: 'Map', icon: Network },
+    { view: 'kanban', label: 'Kanban', icon: Columns3 },
+    { view: 'checklist', label: 'Checklist', icon: CheckSquare },
+];
+
+interface ViewSwitcherProps {
+    view: WorkspaceView;
+    onChange: (view: WorkspaceView) => void;
+}
+
+export default function ViewSwitcher({ view, onChange }: ViewSwitcherProps) {
+    return (
+        <div className="flex bg-zinc-800/80 backdrop-blur border border-zinc-700 rounded-lg overflow-hidden">
+            {VIEWS.map(({ view: option, label, icon: Icon }) => (
+                <button
+                    key={option}
+                    onClick={() => onChange(option)}
+                    className={`flex items-center gap-1.5 px-3 py-2 text-xs transition-colors ${view === option ? 'bg-indigo-600 text-white' : 'text-zinc-300 hover:bg-zinc-700 hover:text-white'}`}
+                >
+                    <Icon size={14} /> {label}
+                </button>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,17 @@
+import { useMemo } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useStore } from '@/lib/store';
+import { getCollapseState } from '@/lib/graph';
+
+// Recomputed only when the topology or the set of collapsed nodes changes, not on every position tick
+export const useCollapseState = () => {
+    const edges = useStore((state) => state.edges);
+    const nodeIds = useStore(useShallow((state) => state.nodes.map(n => n.id)));
+    const collapsedIds = useStore(useShallow((state) => state.nodes.filter(n => n.data.collapsed).map(n => n.id)));
+    const rootId = useStore((state) => state.rootId);
+
+    return useMemo(() => {
+        const collapsed = new Set(collapsedIds);
+        return getCollapseState(nodeIds.map(id => ({ id, data: { collapsed: collapsed.has(id) } })), edges, rootId);
+    }, [nodeIds, collapsedIds, edges, rootId]);
+};
@@ -1,86 +1,74 @@
 import { useEffect, useRef } from 'react';
-import { useStore } from '@/lib/store';
-import * as d3 from 'd3-force';
-import { Node } from '@xyflow/react';
+import { XYPosition } from '@xyflow/react';
+import { useStore, selectActiveFilter, selectTopologyKey } from '@/lib/store';
+import { collapsedKey, isHierarchyEdge } from '@/lib/graph';
+import { getBoardGraph } from '@/lib/search';
+import { ForceLayoutRequest, ForceLayoutResponse } from '@/workers/forceLayoutProtocol';
 
-// D3 Node type extending React Flow Node
-type D3Node = {
-    id: string;
-    x: number;
-    y: number;
-    vx?: number;
-    vy?: number;
-    fx?: number | null;
-    fy?: number | null;
-};
+const pinnedKey = (state: ReturnType<typeof useStore.getState>) =>
+    state.nodes.filter(n => n.data.pinned).map(n => n.id).join('|');
 
-type D3Edge = {
-    source: string | D3Node;
-    target: string | D3Node;
-    id: string;
+// Sends the worker the board as it is now; read from the store so callers need no captured state
+const syncWorker = (worker: Worker | null, relayout: boolean) => {
+    if (!worker) return;
+    const state = useStore.getState();
+    // Folded or filtered-out branches leave the simulation and settle again next to their parent when shown
+    const { nodes, edges } = getBoardGraph(state.nodes, state.edges, selectActiveFilter(state), state.rootId);
+    const message: ForceLayoutRequest = {
+        type: 'sync',
+        nodes: nodes.map(n => ({ id: n.id, x: n.position.x, y: n.position.y, pinned: Boolean(n.data.pinned) })),
+        // Cross-links are drawn over the layout; pulling on them would tangle unrelated branches
+        edges: edges.filter(isHierarchyEdge).map(e => ({ id: e.id, source: e.source, target: e.target })),
+        relayout,
+    };
+    worker.postMessage(message);
 };
 
-export const useForceLayout = () => {
-    const nodes = useStore((state) => state.nodes);
-    const edges = useStore((state) => state.edges);
-    const setNodes = useStore((state) => state.setNodes);
+/**
+ * Force layout, simulated in a Web Worker. The worker only settles nodes it hasn't
+ * seen (or that were just unpinned) and holds the rest, so adding a topic doesn't
+ * reshuffle the map. Pinned nodes never move. Positions arrive in batches and are
+ * merged into the latest store nodes, so edits made meanwhile are kept.
+ */
+export const useForceLayout = (enabled = true) => {
+    const topology = useStore(selectTopologyKey);
+    const pinned = useStore(pinnedKey);
+    const collapsed = useStore((state) => collapsedKey(state.nodes));
+    const activeFilter = useStore(selectActiveFilter);
+    const applyNodePositions = useStore((state) => state.applyNodePositions);
 
-    const simulationRef = useRef<d3.Simulation<D3Node, D3Edge> | null>(null);
+    const workerRef = useRef<Worker | null>(null);
+    // Switching to force from another layout lays everything out again; mounting with it doesn't
+    const wasEnabledRef = useRef(enabled);
 
     useEffect(() => {
-        // Only run if we have nodes
-        if (nodes.length === 0) return;
-
-        // Prepare D3 data
-        // We Map current nodes to D3 objects. 
-        // We must try to preserve velocities if we can, but simpler is just positions.
-        const d3Nodes: D3Node[] = nodes.map((node) => ({
-            id: node.id,
-            x: node.position.x || 0,
-            y: node.position.y || 0,
-        }));
-
-        const d3Edges: D3Edge[] = edges.map((edge) => ({
-            id: edge.id,
-            source: edge.source,
-            target: edge.target,
-        }));
-
-        if (simulationRef.current) simulationRef.current.stop();
-
-        const simulation = d3.forceSimulation(d3Nodes)
-            .force('charge', d3.forceManyBody().strength(-1000)) // Stronger repulsion
-            .force('center', d3.forceCenter(0, 0).strength(0.05))
-            .force('collide', d3.forceCollide().radius(200).strength(0.8)) // Big radius for expandable nodes
-            .force('link', d3.forceLink(d3Edges).id((d: any) => d.id).distance(250)) // More space for connections
-            .alpha(1)
-            .alphaDecay(0.05) // Faster settling
-            .on('tick', () => {
-                // Sync back to React Flow
-                const positions = new Map(d3Nodes.map(d => [d.id, { x: d.x, y: d.y }]));
+        if (!enabled) {
+            wasEnabledRef.current = false;
+            return;
+        }
 
-                // Use functional update to get latest nodes but only update positions
-                // We can't access "latest nodes" inside here easily without ref, but `nodes` is from closure.
-                // Actually, if we use setNodes(prev => ...), it works.
-                // But `useStore` setNodes might not support functional update?
-                // Zustand's set supports it, but our store wrapper `setNodes: (nodes) => set({ nodes })` takes value.
-                // Let's modify store or just use the closure `nodes` (which is stale? No, effect re-runs on length change).
-                // If `nodes` implies strict equality check, we might be overwriting user interaction?
-                // For now, let's assume this "Burst" happens only on structure change, user isn't dragging yet.
-
-                const updatedNodes = nodes.map((n) => {
-                    const pos = positions.get(n.id);
-                    if (pos) return { ...n, position: pos };
-                    return n;
-                });
-
-                setNodes(updatedNodes);
-            });
+        const worker = new Worker(new URL('../workers/forceLayout.worker.ts', import.meta.url));
+        worker.onmessage = (event: MessageEvent<ForceLayoutResponse>) => {
+            const { ids, coords } = event.data;
+            const positions = new Map<string, XYPosition>();
+            ids.forEach((id, i) => positions.set(id, { x: coords[i * 2], y: coords[i * 2 + 1] }));
+            applyNodePositions(positions);
+        };
+        workerRef.current = worker;
 
-        simulationRef.current = simulation;
+        syncWorker(worker, !wasEnabledRef.current);
+        wasEnabledRef.current = true;
 
         return () => {
-            simulation.stop();
+            worker.terminate();
+            workerRef.current = null;
         };
-    }, [nodes.length, edges.length]); // Re-run when graph topology changes
+    }, [enabled, applyNodePositions]);
+
+    // Topology, pin, fold or filter changes: let the worker settle whatever is new.
+    // Toggling `enabled` is left to the effect above, which already syncs; while
+    // disabled there is no worker and this does nothing.
+    useEffect(() => {
+        syncWorker(workerRef.current, false);
+    }, [topology, pinned, collapsed, activeFilter]);
 };
@@ -0,0 +1,53 @@
+import { useEffect, useRef } from 'react';
+import { XYPosition } from '@xyflow/react';
+import { useStore, selectActiveFilter, selectTopologyKey } from '@/lib/store';
+import { computeLayout } from '@/lib/layouts';
+import { collapsedKey } from '@/lib/graph';
+import { getBoardGraph } from '@/lib/search';
+import { useForceLayout } from './useForceLayout';
+
+const TRANSITION_MS = 450;
+
+const easeInOut = (t: number) => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2);
+
+/**
+ * Runs the session's selected layout. Deterministic layouts recompute when the
+ * layout changes or the topology does (including a new root or a reconnected edge), and glide nodes to their new spots.
+ */
+export const useLayout = () => {
+    const layout = useStore((state) => state.layout);
+    const topology = useStore(selectTopologyKey);
+    const collapsed = useStore((state) => collapsedKey(state.nodes));
+    const activeFilter = useStore(selectActiveFilter);
+    const frameRef = useRef<number | null>(null);
+
+    useForceLayout(layout === 'force');
+
+    useEffect(() => {
+        // Folded and filtered-out branches take no space
+        const { rootId } = useStore.getState();
+        const { nodes, edges } = getBoardGraph(useStore.getState().nodes, useStore.getState().edges, activeFilter, rootId);
+        const targets = computeLayout(layout, nodes, edges, rootId);
+        if (!targets) return;
+
+        const starts = new Map<string, XYPosition>(nodes.map(n => [n.id, n.position]));
+        const startTime = performance.now();
+
+        const step = (now: number) => {
+            const t = Math.min(1, (now - startTime) / TRANSITION_MS);
+            const eased = easeInOut(t);
+            const frame = new Map<string, XYPosition>();
+            targets.forEach((to, id) => {
+                const from = starts.get(id);
+                if (from) frame.set(id, { x: from.x + (to.x - from.x) * eased, y: from.y + (to.y - from.y) * eased });
+            });
+            useStore.getState().applyNodePositions(frame);
+            frameRef.current = t < 1 ? requestAnimationFrame(step) : null;
+        };
+        frameRef.current = requestAnimationFrame(step);
+
+        return () => {
+            if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+        };
+    }, [layout, topology, collapsed, activeFilter]);
+};
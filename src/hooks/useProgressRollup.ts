@@ -0,0 +1,17 @@
+import { useMemo } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useStore } from '@/lib/store';
+import { computeProgress } from '@/lib/tasks';
+
+// Like useCollapseState: recomputed on topology or status changes only
+export const useProgressRollup = () => {
+    const edges = useStore((state) => state.edges);
+    const nodeIds = useStore(useShallow((state) => state.nodes.map(n => n.id)));
+    const statuses = useStore(useShallow((state) => state.nodes.map(n => n.data.status)));
+    const rootId = useStore((state) => state.rootId);
+
+    return useMemo(
+        () => computeProgress(nodeIds.map((id, i) => ({ id, data: { status: statuses[i] } })), edges, rootId),
+        [nodeIds, statuses, edges, rootId]
+    );
+};
@@ -0,0 +1,21 @@
+import { addDoc, deleteDoc, doc, onSnapshot, orderBy, query } from 'firebase/firestore';
+import { mapCollection } from './sharing';
+import { CollabUser, MapComment, displayNameOf } from './types';
+
+/** Every comment on the map, oldest first; returns the unsubscribe. */
+export const subscribeComments = (mapId: string, onChange: (comments: MapComment[]) => void) =>
+    onSnapshot(query(mapCollection(mapId, 'comments'), orderBy('createdAt')), (snapshot) => {
+        onChange(snapshot.docs.map(d => ({ ...(d.data() as Omit<MapComment, 'id'>), id: d.id })));
+    }, (error) => console.error("Comments listener failed", error));
+
+export const addComment = (mapId: string, user: CollabUser, nodeId: string, text: string) =>
+    addDoc(mapCollection(mapId, 'comments'), {
+        nodeId,
+        authorId: user.uid,
+        authorName: displayNameOf(user),
+        text,
+        createdAt: Date.now(),
+    });
+
+export const deleteComment = (mapId: string, commentId: string) =>
+    deleteDoc(doc(mapCollection(mapId, 'comments'), commentId));
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import type { Edge, Node } from '@xyflow/react';
+import {
+  applyEdgeDocs,
+  applyNodeDocs,
+  changedIds,
+  pendingWrites,
+  restorableEdges,
+  syncKey,
+  toEdgeDoc,
+  toNodeDoc,
+} from './documents';
+
+const node = (id: string, label: string, x = 0): Node =>
+  ({ id, type: 'expandable', position: { x, y: 0 }, data: { label } });
+
+const edge = (source: string, target: string): Edge => ({ id: `e-${source}-${target}`, source, target });
+
+describe('toNodeDoc', () => {
+  it('leaves out what each screen keeps to itself, and undefined fields', () => {
+    const doc = toNodeDoc({
+      ...node('a', 'Alpha'),
+      selected: true,
+      measured: { width: 280, height: 60 },
+      data: { label: 'Alpha', description: undefined },
+    });
+
+    expect(doc).toEqual({ id: 'a', type: 'expandable', position: { x: 0, y: 0 }, data: { label: 'Alpha' } });
+  });
+});
+
+describe('syncKey', () => {
+  it('ignores key order and position', () => {
+    const a = toNodeDoc(node('a', 'Alpha', 10));
+    const b = { data: { label: 'Alpha' }, position: { x: 500, y: 20 }, type: 'expandable', id: 'a' };
+
+    expect(syncKey(b)).toBe(syncKey(a));
+    expect(syncKey(toNodeDoc(node('a', 'Beta')))).not.toBe(syncKey(a));
+  });
+});
+
+describe('changedIds', () => {
+  it('lists replaced, added and removed items', () => {
+    const a = node('a', 'A');
+    const b = node('b', 'B');
+    const c = node('c', 'C');
+
+    expect(changedIds([a, b, c], [a, { ...b }, node('d', 'D')])).toEqual(['b', 'd', 'c']);
+    expect(changedIds([a], [a])).toEqual([]);
+  });
+});
+
+describe('pendingWrites', () => {
+  it('skips what the server already has and removes only what it knows', () => {
+    const a = node('a', 'A');
+    const b = node('b', 'B');
+    const server = new Map([['a', syncKey(toNodeDoc({ ...a, position: { x: 99, y: 99 } }))], ['gone', 'x']]);
+
+    const writes = pendingWrites([a, b], ['a', 'b', 'gone', 'never-saved'], toNodeDoc, server);
+
+    expect(writes.upserts.map(d => d.id)).toEqual(['b']);
+    expect(writes.removals).toEqual(['gone']);
+  });
+});
+
+describe('applyNodeDocs', () => {
+  it('takes remote data but keeps the local position and selection', () => {
+    const local = [{ ...node('a', 'Old', 40), selected: true }, node('b', 'B')];
+
+    const nodes = applyNodeDocs(local, [
+      { id: 'a', doc: toNodeDoc(node('a', 'New', 900)) },
+      { id: 'b' },
+      { id: 'c', doc: toNodeDoc(node('c', 'C', 300)) },
+    ]);
+
+    expect(nodes.map(n => n.id)).toEqual(['a', 'c']);
+    expect(nodes[0]).toMatchObject({ data: { label: 'New' }, position: { x: 40, y: 0 }, selected: true });
+    expect(nodes[1].position).toEqual({ x: 300, y: 0 });
+  });
+});
+
+describe('applyEdgeDocs', () => {
+  it('updates, adds and removes edges, keeping the local selection', () => {
+    const local = [{ ...edge('a', 'b'), selected: true }, edge('a', 'c')];
+
+    const edges = applyEdgeDocs(local, [
+      { id: 'e-a-b', doc: toEdgeDoc({ ...edge('a', 'b'), data: { kind: 'related' } }) },
+      { id: 'e-a-c' },
+      { id: 'e-b-c', doc: toEdgeDoc(edge('b', 'c')) },
+    ]);
+
+    expect(edges.map(e => e.id)).toEqual(['e-a-b', 'e-b-c']);
+    expect(edges[0]).toMatchObject({ data: { kind: 'related' }, selected: true });
+  });
+});
+
+describe('restorableEdges', () => {
+  it('brings back server edges once both ends are on the board, unless deleted locally', () => {
+    const server = new Map([edge('a', 'b'), edge('a', 'c'), edge('b', 'c')].map(e => [e.id, toEdgeDoc(e)]));
+    const nodes = [node('a', 'A'), node('b', 'B'), node('c', 'C')];
+
+    const restored = restorableEdges([edge('a', 'b')], server, nodes, new Set(['e-b-c']));
+    expect(restored.map(e => e.id)).toEqual(['e-a-c']);
+
+    expect(restorableEdges([], server, nodes.slice(0, 2), new Set())).toHaveLength(1);
+  });
+});
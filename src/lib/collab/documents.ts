@@ -0,0 +1,142 @@
+import { Edge, Node } from '@xyflow/react';
+
+// One Firestore document per node and per edge, so two people editing different nodes never
+// overwrite each other. A document is the node or edge minus what each viewer keeps to itself.
+
+export type SyncedDoc = Record<string, unknown> & { id: string };
+
+export interface DocChange {
+    id: string;
+    // Missing when the document was removed
+    doc?: SyncedDoc;
+}
+
+export interface DocWrites {
+    upserts: SyncedDoc[];
+    removals: string[];
+}
+
+// Set by React Flow on every screen separately
+const VIEW_FIELDS = ['selected', 'dragging', 'measured', 'resizing', 'width', 'height'];
+
+// Firestore rejects `undefined`, and a JSON round trip is the cheapest way to drop it
+const toDoc = (item: { id: string }): SyncedDoc => {
+    const doc: Record<string, unknown> = { ...item };
+    VIEW_FIELDS.forEach(field => delete doc[field]);
+    return JSON.parse(JSON.stringify(doc));
+};
+
+export const toNodeDoc = (node: Node): SyncedDoc => toDoc(node);
+export const toEdgeDoc = (edge: Edge): SyncedDoc => toDoc(edge);
+
+/** JSON with object keys sorted, since Firestore hands fields back in its own order. */
+export const stableStringify = (value: unknown): string => {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => a.localeCompare(b));
+        return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+/**
+ * What decides whether a document changed. Every screen runs its own layout, so positions
+ * are not part of it: the position written with a node only places it for people who have
+ * not seen it yet. Otherwise two layouts would keep rewriting each other's positions.
+ */
+export const syncKey = (doc: SyncedDoc): string => {
+    const rest = { ...doc };
+    delete rest.position;
+    return stableStringify(rest);
+};
+
+/** Ids whose item was replaced, added or removed between two versions of a list. */
+export const changedIds = <T extends { id: string }>(previous: T[], next: T[]): string[] => {
+    const before = new Map(previous.map(item => [item.id, item]));
+    const ids = next.filter(item => before.get(item.id) !== item).map(item => item.id);
+    const nextIds = new Set(next.map(item => item.id));
+    return [...ids, ...previous.filter(item => !nextIds.has(item.id)).map(item => item.id)];
+};
+
+/**
+ * Writes that bring the server in line with `items` for the `dirty` ids. `server` holds the
+ * sync key of every document as the server last had it; items that match are skipped.
+ */
+export const pendingWrites = <T extends { id: string }>(
+    items: T[],
+    dirty: Iterable<string>,
+    toDocument: (item: T) => SyncedDoc,
+    server: Map<string, string>
+): DocWrites => {
+    const byId = new Map(items.map(item => [item.id, item]));
+    const writes: DocWrites = { upserts: [], removals: [] };
+    new Set(dirty).forEach(id => {
+        const item = byId.get(id);
+        if (!item) {
+            if (server.has(id)) writes.removals.push(id);
+            return;
+        }
+        const doc = toDocument(item);
+        if (server.get(id) !== syncKey(doc)) writes.upserts.push(doc);
+    });
+    return writes;
+};
+
+/**
+ * Remote node changes applied to the board. Local selection, measurements and the position
+ * the local layout gave an existing node all stay.
+ */
+export const applyNodeDocs = (nodes: Node[], changes: DocChange[]): Node[] => {
+    const byId = new Map(changes.map(c => [c.id, c]));
+    const existing = new Set(nodes.map(n => n.id));
+
+    const updated = nodes.flatMap(node => {
+        const change = byId.get(node.id);
+        if (!change) return [node];
+        if (!change.doc) return [];
+        return [{
+            ...(change.doc as unknown as Node),
+            position: node.position,
+            selected: node.selected,
+            dragging: node.dragging,
+            measured: node.measured,
+        }];
+    });
+    const added = changes
+        .filter(c => c.doc && !existing.has(c.id))
+        .map(c => {
+            const remote = c.doc as unknown as Node;
+            return { ...remote, position: remote.position ?? { x: 0, y: 0 } };
+        });
+    return [...updated, ...added];
+};
+
+/** Remote edge changes applied to the board, keeping local selection. */
+export const applyEdgeDocs = (edges: Edge[], changes: DocChange[]): Edge[] => {
+    const byId = new Map(changes.map(c => [c.id, c]));
+    const existing = new Set(edges.map(e => e.id));
+
+    const updated = edges.flatMap(edge => {
+        const change = byId.get(edge.id);
+        if (!change) return [edge];
+        if (!change.doc) return [];
+        return [{ ...(change.doc as unknown as Edge), selected: edge.selected }];
+    });
+    const added = changes.filter(c => c.doc && !existing.has(c.id)).map(c => c.doc as unknown as Edge);
+    return [...updated, ...added];
+};
+
+/**
+ * Server edges missing from the board whose ends are both there now. Edge and node listeners
+ * fire separately, so an edge can arrive before its node and be dropped as dangling; this
+ * brings it back once the node lands. `skip` holds local deletions not written yet.
+ */
+export const restorableEdges = (edges: Edge[], serverEdges: Map<string, SyncedDoc>, nodes: Node[], skip: Set<string>): Edge[] => {
+    const present = new Set(edges.map(e => e.id));
+    const nodeIds = new Set(nodes.map(n => n.id));
+    return [...serverEdges.values()]
+        .map(doc => doc as unknown as Edge)
+        .filter(e => !present.has(e.id) && !skip.has(e.id) && nodeIds.has(e.source) && nodeIds.has(e.target));
+};
@@ -0,0 +1,98 @@
+import { deleteDoc, doc, onSnapshot, setDoc } from 'firebase/firestore';
+import { useStore } from '@/lib/store';
+import { mapCollection } from './sharing';
+import { Collaborator, CollabUser, collaboratorColor, displayNameOf, isOnline, PRESENCE_TIMEOUT_MS } from './types';
+
+// One document per person at `maps/{id}/presence/{uid}`, rewritten as they move and
+// refreshed on a heartbeat so a closed tab drops out after PRESENCE_TIMEOUT_MS
+
+const HEARTBEAT_MS = PRESENCE_TIMEOUT_MS / 3;
+// Cursor moves are coalesced to at most one write per this
+const CURSOR_THROTTLE_MS = 150;
+
+interface ActivePresence {
+    mapId: string;
+    self: Collaborator;
+    timer: ReturnType<typeof setTimeout> | null;
+    lastWrite: number;
+}
+
+// The map this tab has joined; the board publishes the cursor through it
+let active: ActivePresence | null = null;
+
+const write = () => {
+    if (!active) return;
+    const presence = active;
+    presence.timer = null;
+    presence.lastWrite = Date.now();
+    presence.self = { ...presence.self, updatedAt: presence.lastWrite };
+    setDoc(doc(mapCollection(presence.mapId, 'presence'), presence.self.uid), presence.self)
+        .catch(e => console.warn("Presence update failed", e));
+};
+
+/** Shares the pointer position (flow coordinates, null when it leaves the board) with the others. */
+export const publishCursor = (cursor: Collaborator['cursor']) => {
+    // Moving around outside the board only needs saying once
+    if (!active || (!cursor && !active.self.cursor)) return;
+    active.self = { ...active.self, cursor };
+    if (active.timer) return;
+    const wait = Math.max(0, CURSOR_THROTTLE_MS - (Date.now() - active.lastWrite));
+    active.timer = setTimeout(write, wait);
+};
+
+/**
+ * Announces the user on the map, keeps `collaborators` in the store current and follows
+ * the node they select. Returns the leave, which also removes their presence document.
+ */
+export const joinPresence = (mapId: string, user: CollabUser): (() => void) => {
+    const { setCollaborators } = useStore.getState();
+    let others: Collaborator[] = [];
+    const refresh = () => setCollaborators(others.filter(c => isOnline(c, Date.now())));
+
+    active = {
+        mapId,
+        self: {
+            uid: user.uid,
+            name: displayNameOf(user),
+            color: collaboratorColor(user.uid),
+            cursor: null,
+            selectedNodeId: useStore.getState().focusNodeId,
+            updatedAt: Date.now(),
+        },
+        timer: null,
+        lastWrite: 0,
+    };
+    write();
+
+    const unsubscribePresence = onSnapshot(mapCollection(mapId, 'presence'), (snapshot) => {
+        others = snapshot.docs.filter(d => d.id !== user.uid).map(d => ({ ...(d.data() as Collaborator), uid: d.id }));
+        refresh();
+    }, (error) => console.error("Presence listener failed", error));
+
+    const unsubscribeSelection = useStore.subscribe((state, previous) => {
+        if (!active || state.focusNodeId === previous.focusNodeId) return;
+        active.self = { ...active.self, selectedNodeId: state.focusNodeId };
+        write();
+    });
+
+    // The heartbeat also drops people whose tab went away without a goodbye
+    const heartbeat = setInterval(() => {
+        write();
+        refresh();
+    }, HEARTBEAT_MS);
+
+    const leaveOnUnload = () => leave();
+    window.addEventListener('beforeunload', leaveOnUnload);
+
+    const leave = () => {
+        window.removeEventListener('beforeunload', leaveOnUnload);
+        clearInterval(heartbeat);
+        unsubscribePresence();
+        unsubscribeSelection();
+        if (active?.timer) clearTimeout(active.timer);
+        active = null;
+        setCollaborators([]);
+        deleteDoc(doc(mapCollection(mapId, 'presence'), user.uid)).catch(() => { });
+    };
+    return leave;
+};
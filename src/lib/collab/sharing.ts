@@ -0,0 +1,206 @@
+import {
+    DocumentData,
+    WriteBatch,
+    collection,
+    deleteDoc,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    runTransaction,
+    setDoc,
+    where,
+    writeBatch,
+} from 'firebase/firestore';
+import { Edge, Node } from '@xyflow/react';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@/lib/firebase';
+import { toEdgeDoc, toNodeDoc } from './documents';
+import {
+    CollabUser,
+    MapRole,
+    SharedMap,
+    acceptInvitePatch,
+    changeRolePatch,
+    displayNameOf,
+    invitePatch,
+    normalizeEmail,
+    readSharedMap,
+    removeMemberPatch,
+    revokeInvitePatch,
+} from './types';
+
+export type MapCollection = 'nodes' | 'edges' | 'presence' | 'comments' | 'views';
+
+export const mapDoc = (id: string) => doc(db, 'maps', id);
+export const mapCollection = (id: string, name: MapCollection) => collection(db, 'maps', id, name);
+
+// Firestore caps a batch at 500 writes
+const BATCH_SIZE = 400;
+
+const commitInBatches = async (writes: ((batch: WriteBatch) => void)[]) => {
+    for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+        const batch = writeBatch(db);
+        writes.slice(i, i + BATCH_SIZE).forEach(write => write(batch));
+        await batch.commit();
+    }
+};
+
+/** Node count and labels the library shows and searches for a shared map. */
+export const mapSummary = (nodes: Node[]) => ({
+    nodeCount: nodes.length,
+    nodeLabels: nodes.map(n => String(n.data?.label ?? '')).filter(Boolean),
+});
+
+// Everything but the graph and the shared settings is per person: chat, layout, filters, review mode
+export const loadMapView = async (mapId: string, uid: string): Promise<DocumentData | null> => {
+    const snapshot = await getDoc(doc(mapCollection(mapId, 'views'), uid));
+    return snapshot.exists() ? snapshot.data() : null;
+};
+
+export const saveMapView = (mapId: string, uid: string, view: Record<string, unknown>) =>
+    setDoc(doc(mapCollection(mapId, 'views'), uid), view, { merge: true });
+
+/**
+ * Moves a private cloud session to `maps/{id}` with the user as its owner. `current` is the
+ * session as the workspace has it, which may be ahead of the last debounced save; the stored
+ * copy adds what only the library writes (the title). The id stays the same, so the
+ * workspace URL is the link to send to collaborators.
+ */
+export const shareSession = async (sessionId: string, user: CollabUser, current: DocumentData): Promise<SharedMap> => {
+    const sessionRef = doc(db, 'users', user.uid, 'sessions', sessionId);
+    const stored = await getDoc(sessionRef);
+    const data = { ...(stored.exists() ? stored.data() : {}), ...current };
+    const nodes: Node[] = Array.isArray(data.nodes) ? data.nodes : [];
+    const edges: Edge[] = Array.isArray(data.edges) ? data.edges : [];
+
+    const mapData = {
+        ownerId: user.uid,
+        goal: data.goal || '',
+        ...(typeof data.title === 'string' ? { title: data.title } : {}),
+        rootId: typeof data.rootId === 'string' ? data.rootId : null,
+        treeMode: data.treeMode !== false,
+        members: { [user.uid]: { role: 'editor', name: displayNameOf(user), email: user.email ? normalizeEmail(user.email) : '' } },
+        memberIds: [user.uid],
+        invites: {},
+        inviteEmails: [],
+        ...mapSummary(nodes),
+        updatedAt: Date.now(),
+    };
+    // The map document first: the rules for everything under it look the membership up there
+    await setDoc(mapDoc(sessionId), mapData);
+    await commitInBatches([
+        ...nodes.map(n => (batch: WriteBatch) => batch.set(doc(mapCollection(sessionId, 'nodes'), n.id), toNodeDoc(n))),
+        ...edges.map(e => (batch: WriteBatch) => batch.set(doc(mapCollection(sessionId, 'edges'), e.id), toEdgeDoc(e))),
+        (batch: WriteBatch) => batch.set(doc(mapCollection(sessionId, 'views'), user.uid), {
+            messages: data.messages || [],
+            layout: data.layout || 'force',
+            savedFilters: data.savedFilters || [],
+            activeFilterId: data.activeFilterId ?? null,
+            reviewMode: data.reviewMode === true,
+        }),
+    ]);
+    await deleteDoc(sessionRef);
+    return readSharedMap(sessionId, mapData);
+};
+
+// Membership changes read the current document in a transaction, so two owners' tabs (or an
+// invite accepted meanwhile) don't overwrite each other's edits to the same fields
+const updateSharedMap = (id: string, build: (map: SharedMap) => Record<string, unknown> | null) =>
+    runTransaction(db, async (transaction) => {
+        const snapshot = await transaction.get(mapDoc(id));
+        if (!snapshot.exists()) throw new Error('This map no longer exists');
+        const patch = build(readSharedMap(id, snapshot.data()));
+        if (patch) transaction.update(mapDoc(id), patch);
+    });
+
+/**
+ * The shared map behind `id` when the user may open it, joining it first if they were
+ * invited. Null for ids that are not shared maps (private sessions) or not theirs to open.
+ */
+export const openSharedMap = async (id: string, user: CollabUser): Promise<SharedMap | null> => {
+    const snapshot = await getDoc(mapDoc(id));
+    if (!snapshot.exists()) return null;
+    const map = readSharedMap(id, snapshot.data());
+    if (map.members[user.uid]) return map;
+    if (!acceptInvitePatch(map, user)) return null;
+
+    await updateSharedMap(id, (current) => acceptInvitePatch(current, user));
+    const joined = await getDoc(mapDoc(id));
+    return joined.exists() ? readSharedMap(id, joined.data()) : null;
+};
+
+export const inviteCollaborator = (mapId: string, email: string, role: MapRole) =>
+    updateSharedMap(mapId, (map) => {
+        const existing = Object.values(map.members).some(m => m.email === normalizeEmail(email));
+        if (existing) throw new Error(`${email} already has access`);
+        return invitePatch(map, email, role);
+    });
+
+export const revokeInvite = (mapId: string, email: string) =>
+    updateSharedMap(mapId, (map) => revokeInvitePatch(map, email));
+
+export const changeMemberRole = (mapId: string, uid: string, role: MapRole) =>
+    updateSharedMap(mapId, (map) => changeRolePatch(map, uid, role));
+
+/** Removes a member; members may also remove themselves (leave). The owner can't be removed. */
+export const removeMember = (mapId: string, uid: string) =>
+    updateSharedMap(mapId, (map) => removeMemberPatch(map, uid));
+
+export const renameSharedMap = (mapId: string, title: string) =>
+    updateSharedMap(mapId, () => ({ title, updatedAt: Date.now() }));
+
+/** Shared maps the user belongs to or is invited to. */
+export const listSharedMaps = async (user: CollabUser): Promise<SharedMap[]> => {
+    const queries = [query(collection(db, 'maps'), where('memberIds', 'array-contains', user.uid))];
+    if (user.email) queries.push(query(collection(db, 'maps'), where('inviteEmails', 'array-contains', normalizeEmail(user.email))));
+
+    const maps = new Map<string, SharedMap>();
+    for (const q of queries) {
+        (await getDocs(q)).docs.forEach(d => maps.set(d.id, readSharedMap(d.id, d.data())));
+    }
+    return [...maps.values()];
+};
+
+const readGraph = async (mapId: string) => {
+    const [nodes, edges] = await Promise.all([getDocs(mapCollection(mapId, 'nodes')), getDocs(mapCollection(mapId, 'edges'))]);
+    return {
+        nodes: nodes.docs.map(d => ({ ...d.data(), id: d.id })),
+        edges: edges.docs.map(d => ({ ...d.data(), id: d.id })),
+    };
+};
+
+/** Copies a shared map into the user's private cloud sessions and returns the copy's id. */
+export const copySharedMap = async (mapId: string, uid: string): Promise<string> => {
+    const snapshot = await getDoc(mapDoc(mapId));
+    if (!snapshot.exists()) throw new Error('This map no longer exists');
+    const map = readSharedMap(mapId, snapshot.data());
+    const newId = uuidv4();
+    const { nodes, edges } = await readGraph(mapId);
+    await setDoc(doc(db, 'users', uid, 'sessions', newId), {
+        id: newId,
+        goal: map.goal,
+        title: `${map.title || map.goal} (Copy)`,
+        nodes,
+        edges,
+        rootId: map.rootId,
+        treeMode: map.treeMode,
+        updatedAt: Date.now(),
+    });
+    return newId;
+};
+
+/** Deletes a shared map and everything under it. Owner only. */
+export const deleteSharedMap = async (mapId: string): Promise<void> => {
+    const snapshot = await getDoc(mapDoc(mapId));
+    if (!snapshot.exists()) return;
+    const collections: MapCollection[] = ['nodes', 'edges', 'comments', 'presence'];
+    const snapshots = await Promise.all(collections.map(name => getDocs(mapCollection(mapId, name))));
+    // Views are private to each person, so they are deleted by id rather than listed
+    const views = readSharedMap(mapId, snapshot.data()).memberIds.map(uid => doc(mapCollection(mapId, 'views'), uid));
+    await commitInBatches([
+        ...snapshots.flatMap(s => s.docs.map(d => (batch: WriteBatch) => batch.delete(d.ref))),
+        ...views.map(ref => (batch: WriteBatch) => batch.delete(ref)),
+    ]);
+    await deleteDoc(mapDoc(mapId));
+};
@@ -0,0 +1,184 @@
+import { QuerySnapshot, doc, onSnapshot, writeBatch } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { useStore } from '@/lib/store';
+import {
+    DocChange,
+    SyncedDoc,
+    applyEdgeDocs,
+    applyNodeDocs,
+    changedIds,
+    pendingWrites,
+    restorableEdges,
+    syncKey,
+    toEdgeDoc,
+    toNodeDoc,
+} from './documents';
+import { mapCollection, mapDoc, mapSummary } from './sharing';
+import { CollabUser, MapRole, SharedMap, canEditMap, readSharedMap } from './types';
+
+// Local edits are gathered for this long and written together
+const FLUSH_DELAY_MS = 300;
+
+type GraphCollection = 'nodes' | 'edges';
+
+export interface SharedMapHandlers {
+    // The first full copy of the graph is on the board
+    onReady: () => void;
+    // The map document changed; null once the user no longer has access
+    onMap: (map: SharedMap | null) => void;
+}
+
+// Our own writes come back as local snapshots first; they are already on the board
+const toChanges = (snapshot: QuerySnapshot): DocChange[] => snapshot.docChanges()
+    .filter(c => !c.doc.metadata.hasPendingWrites)
+    .map(c => ({ id: c.doc.id, doc: c.type === 'removed' ? undefined : { ...c.doc.data(), id: c.doc.id } }));
+
+/**
+ * Keeps the store and `maps/{id}` in step. Remote node and edge documents are applied to
+ * the board as they change; local edits (editors only) are written back one document per
+ * changed node or edge, together with the shared settings: goal, root and tree mode.
+ * Returns the disconnect.
+ */
+export const connectSharedMap = (map: SharedMap, user: CollabUser, handlers: SharedMapHandlers): (() => void) => {
+    // Sync key of every document as the server last had it
+    const server: Record<GraphCollection, Map<string, string>> = { nodes: new Map(), edges: new Map() };
+    const serverEdges = new Map<string, SyncedDoc>();
+    const dirty: Record<GraphCollection, Set<string>> = { nodes: new Set(), edges: new Set() };
+    const initial: Partial<Record<GraphCollection, DocChange[]>> = {};
+    let role: MapRole | null = map.members[user.uid]?.role ?? null;
+    let ready = false;
+    let settingsDirty = false;
+    let applyingRemote = false;
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    // Remote updates must not be mistaken for local edits and written straight back
+    const applyRemote = (update: () => void) => {
+        applyingRemote = true;
+        try {
+            update();
+        } finally {
+            applyingRemote = false;
+        }
+    };
+
+    const applySettings = (current: SharedMap) => applyRemote(() => {
+        const store = useStore.getState();
+        store.setMapAccess(role ? { mapId: map.id, role } : null);
+        store.setTreeMode(current.treeMode);
+        store.setRootId(current.rootId);
+        if (current.goal) store.setGoal(current.goal);
+    });
+    applySettings(map);
+
+    const remember = (kind: GraphCollection, changes: DocChange[]) => changes.forEach(({ id, doc }) => {
+        if (doc) server[kind].set(id, syncKey(doc));
+        else server[kind].delete(id);
+        if (kind === 'edges') {
+            if (doc) serverEdges.set(id, doc);
+            else serverEdges.delete(id);
+        }
+    });
+
+    const applyGraph = (nodeChanges: DocChange[], edgeChanges: DocChange[]) => applyRemote(() => {
+        useStore.getState().applyRemoteGraph(nodeChanges, edgeChanges);
+        const { nodes, edges, setEdges } = useStore.getState();
+        const restored = restorableEdges(edges, serverEdges, nodes, dirty.edges);
+        if (restored.length > 0) setEdges([...edges, ...restored]);
+    });
+
+    const listen = (kind: GraphCollection) => onSnapshot(mapCollection(map.id, kind), (snapshot) => {
+        const changes = toChanges(snapshot);
+        remember(kind, changes);
+        if (ready) {
+            if (changes.length > 0) applyGraph(kind === 'nodes' ? changes : [], kind === 'edges' ? changes : []);
+            return;
+        }
+        // Nothing goes on the board until both halves are in, or every edge would arrive dangling
+        initial[kind] = changes;
+        if (!initial.nodes || !initial.edges) return;
+        const nodeChanges = initial.nodes;
+        const edgeChanges = initial.edges;
+        applyRemote(() => {
+            useStore.getState().setNodes(applyNodeDocs([], nodeChanges));
+            useStore.getState().setEdges(applyEdgeDocs([], edgeChanges));
+        });
+        ready = true;
+        handlers.onReady();
+    }, (error) => console.error(`Shared map ${kind} listener failed`, error));
+
+    const flush = async () => {
+        flushTimer = null;
+        if (!canEditMap(role)) return;
+        const { nodes, edges, goal, rootId, treeMode } = useStore.getState();
+        const nodeWrites = pendingWrites(nodes, dirty.nodes, toNodeDoc, server.nodes);
+        const edgeWrites = pendingWrites(edges, dirty.edges, toEdgeDoc, server.edges);
+        dirty.nodes.clear();
+        dirty.edges.clear();
+        const graphChanged = [nodeWrites, edgeWrites].some(w => w.upserts.length > 0 || w.removals.length > 0);
+        if (!graphChanged && !settingsDirty) return;
+
+        const batch = writeBatch(db);
+        ([['nodes', nodeWrites], ['edges', edgeWrites]] as const).forEach(([kind, writes]) => {
+            writes.upserts.forEach(d => {
+                batch.set(doc(mapCollection(map.id, kind), d.id), d);
+                server[kind].set(d.id, syncKey(d));
+                if (kind === 'edges') serverEdges.set(d.id, d);
+            });
+            writes.removals.forEach(id => {
+                batch.delete(doc(mapCollection(map.id, kind), id));
+                server[kind].delete(id);
+                if (kind === 'edges') serverEdges.delete(id);
+            });
+        });
+        batch.update(mapDoc(map.id), { ...mapSummary(nodes), goal, rootId, treeMode, updatedAt: Date.now() });
+        settingsDirty = false;
+        try {
+            await batch.commit();
+        } catch (e) {
+            // The listeners put the server's version back on the board on their next change
+            console.error("Shared map save failed", e);
+        }
+    };
+
+    const unsubscribeStore = useStore.subscribe((state, previous) => {
+        if (applyingRemote || !ready || !canEditMap(role)) return;
+        if (state.nodes !== previous.nodes) changedIds(previous.nodes, state.nodes).forEach(id => dirty.nodes.add(id));
+        if (state.edges !== previous.edges) changedIds(previous.edges, state.edges).forEach(id => dirty.edges.add(id));
+        if (state.goal !== previous.goal || state.rootId !== previous.rootId || state.treeMode !== previous.treeMode) settingsDirty = true;
+        if ((dirty.nodes.size > 0 || dirty.edges.size > 0 || settingsDirty) && !flushTimer) {
+            flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+        }
+    });
+
+    const unsubscribeMap = onSnapshot(mapDoc(map.id), (snapshot) => {
+        if (snapshot.metadata.hasPendingWrites) return;
+        const current = snapshot.exists() ? readSharedMap(map.id, snapshot.data()) : null;
+        role = current?.members[user.uid]?.role ?? null;
+        if (!current || !role) {
+            handlers.onMap(null);
+            return;
+        }
+        applySettings(current);
+        handlers.onMap(current);
+    }, (error) => {
+        // Removed from the map: the rules stop the listener
+        console.error("Shared map listener failed", error);
+        handlers.onMap(null);
+    });
+
+    const unsubscribeNodes = listen('nodes');
+    const unsubscribeEdges = listen('edges');
+
+    return () => {
+        if (flushTimer) {
+            clearTimeout(flushTimer);
+            flush();
+        }
+        unsubscribeStore();
+        unsubscribeMap();
+        unsubscribeNodes();
+        unsubscribeEdges();
+        useStore.getState().setMapAccess(null);
+    };
+};
+
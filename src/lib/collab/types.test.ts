@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PRESENCE_TIMEOUT_MS,
+  SharedMap,
+  acceptInvitePatch,
+  canCommentOnMap,
+  canEditMap,
+  changeRolePatch,
+  collaboratorColor,
+  invitePatch,
+  isOnline,
+  readSharedMap,
+  removeMemberPatch,
+  revokeInvitePatch,
+  roleOf,
+} from './types';
+
+const owner = { uid: 'owner', email: 'owner@example.com', displayName: 'Olive' };
+const guest = { uid: 'guest', email: 'Guest@Example.com', displayName: null };
+
+const sharedMap = (patch: Partial<SharedMap> = {}): SharedMap => ({
+  ...readSharedMap('map-1', {
+    ownerId: 'owner',
+    goal: 'Open a bakery',
+    members: { owner: { role: 'editor', name: 'Olive', email: 'owner@example.com' } },
+  }),
+  ...patch,
+});
+
+describe('roles', () => {
+  it('lets private sessions and editors change the map', () => {
+    expect(canEditMap(null)).toBe(true);
+    expect(canEditMap('editor')).toBe(true);
+    expect(canEditMap('commenter')).toBe(false);
+    expect(canCommentOnMap('commenter')).toBe(true);
+    expect(canCommentOnMap('viewer')).toBe(false);
+  });
+});
+
+describe('readSharedMap', () => {
+  it('fills in missing fields and drops unknown roles', () => {
+    const map = readSharedMap('m', {
+      ownerId: 'owner',
+      members: { owner: { role: 'editor', name: 'Olive' }, odd: { role: 'admin' } },
+      invites: { 'a@example.com': 'viewer', 'b@example.com': 'boss' },
+    });
+
+    expect(map.memberIds).toEqual(['owner']);
+    expect(map.inviteEmails).toEqual(['a@example.com']);
+    expect(map).toMatchObject({ goal: '', rootId: null, treeMode: true, nodeCount: 0, nodeLabels: [] });
+  });
+});
+
+describe('membership patches', () => {
+  it('invites by lower-cased email and accepts with the invited role', () => {
+    const invited = sharedMap(invitePatch(sharedMap(), ' Guest@example.com ', 'commenter'));
+    expect(invited.inviteEmails).toEqual(['guest@example.com']);
+    expect(roleOf(invited, guest)).toBe('commenter');
+
+    const joined = sharedMap({ ...invited, ...acceptInvitePatch(invited, guest) });
+    expect(joined.members.guest).toEqual({ role: 'commenter', name: 'Guest', email: 'guest@example.com' });
+    expect(joined.memberIds).toEqual(['owner', 'guest']);
+    expect(joined.inviteEmails).toEqual([]);
+    expect(acceptInvitePatch(joined, guest)).toBeNull();
+  });
+
+  it('has nothing to accept without an invite', () => {
+    expect(acceptInvitePatch(sharedMap(), guest)).toBeNull();
+    expect(acceptInvitePatch(sharedMap(invitePatch(sharedMap(), 'guest@example.com', 'viewer')), { ...guest, email: null })).toBeNull();
+  });
+
+  it('revokes an invite', () => {
+    const invited = sharedMap(invitePatch(sharedMap(), 'guest@example.com', 'viewer'));
+    expect(revokeInvitePatch(invited, 'GUEST@example.com')).toEqual({ invites: {}, inviteEmails: [] });
+  });
+
+  it('changes and removes members but never the owner', () => {
+    const invited = sharedMap(invitePatch(sharedMap(), 'guest@example.com', 'viewer'));
+    const joined = sharedMap({ ...invited, ...acceptInvitePatch(invited, guest) });
+
+    expect(changeRolePatch(joined, 'guest', 'editor')?.members.guest.role).toBe('editor');
+    expect(removeMemberPatch(joined, 'guest')?.memberIds).toEqual(['owner']);
+    expect(changeRolePatch(joined, owner.uid, 'viewer')).toBeNull();
+    expect(removeMemberPatch(joined, owner.uid)).toBeNull();
+    expect(removeMemberPatch(joined, 'stranger')).toBeNull();
+  });
+});
+
+describe('presence', () => {
+  it('gives everyone a stable colour', () => {
+    expect(collaboratorColor('guest')).toBe(collaboratorColor('guest'));
+    expect(collaboratorColor('guest')).toMatch(/^#[0-9a-f]{6}$/);
+  });
+
+  it('treats stale presence as offline', () => {
+    const now = 1_000_000;
+    expect(isOnline({ updatedAt: now - 1000 }, now)).toBe(true);
+    expect(isOnline({ updatedAt: now - PRESENCE_TIMEOUT_MS }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,156 @@
+// Shared maps live at `maps/{id}` instead of under one user's sessions, with their nodes,
+// edges, presence and comments in subcollections. The map document holds who may open it.
+
+export type MapRole = 'viewer' | 'commenter' | 'editor';
+
+export const MAP_ROLES: { value: MapRole; label: string; hint: string }[] = [
+    { value: 'viewer', label: 'Viewer', hint: 'Can look around' },
+    { value: 'commenter', label: 'Commenter', hint: 'Can comment on nodes' },
+    { value: 'editor', label: 'Editor', hint: 'Can change the map' },
+];
+
+export interface MapMember {
+    role: MapRole;
+    name: string;
+    email: string;
+}
+
+export interface SharedMap {
+    id: string;
+    ownerId: string;
+    goal: string;
+    title?: string;
+    rootId: string | null;
+    treeMode: boolean;
+    // Keyed by uid; `memberIds` repeats the keys so the library can query for them
+    members: Record<string, MapMember>;
+    memberIds: string[];
+    // Pending invites keyed by lower-cased email, mirrored in `inviteEmails` for the same reason
+    invites: Record<string, MapRole>;
+    inviteEmails: string[];
+    // Kept up to date by editors so the library can show and search shared maps
+    nodeCount: number;
+    nodeLabels: string[];
+    updatedAt: number;
+}
+
+export interface MapAccess {
+    mapId: string;
+    role: MapRole;
+}
+
+export interface CollabUser {
+    uid: string;
+    email: string | null;
+    displayName: string | null;
+}
+
+export interface Collaborator {
+    uid: string;
+    name: string;
+    color: string;
+    // Flow coordinates, null while the pointer is off the board
+    cursor: { x: number; y: number } | null;
+    selectedNodeId: string | null;
+    updatedAt: number;
+}
+
+export interface MapComment {
+    id: string;
+    nodeId: string;
+    authorId: string;
+    authorName: string;
+    text: string;
+    createdAt: number;
+}
+
+// A private session (no role) is the owner's alone, so everything is allowed there
+export const canEditMap = (role: MapRole | null) => role === null || role === 'editor';
+export const canCommentOnMap = (role: MapRole | null) => role !== 'viewer';
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const displayNameOf = (user: CollabUser) => user.displayName || user.email?.split('@')[0] || 'Anonymous';
+
+const isRole = (value: unknown): value is MapRole => MAP_ROLES.some(r => r.value === value);
+
+/** Reads a map document defensively; fields written by older clients may be missing. */
+export const readSharedMap = (id: string, data: Record<string, unknown>): SharedMap => {
+    const members: Record<string, MapMember> = {};
+    Object.entries((data.members as Record<string, Partial<MapMember>>) || {}).forEach(([uid, m]) => {
+        if (isRole(m?.role)) members[uid] = { role: m.role, name: String(m.name || ''), email: String(m.email || '') };
+    });
+    const invites: Record<string, MapRole> = {};
+    Object.entries((data.invites as Record<string, unknown>) || {}).forEach(([email, role]) => {
+        if (isRole(role)) invites[email] = role;
+    });
+    return {
+        id,
+        ownerId: String(data.ownerId || ''),
+        goal: String(data.goal || ''),
+        title: typeof data.title === 'string' ? data.title : undefined,
+        rootId: typeof data.rootId === 'string' ? data.rootId : null,
+        treeMode: data.treeMode !== false,
+        members,
+        memberIds: Object.keys(members),
+        invites,
+        inviteEmails: Object.keys(invites),
+        nodeCount: typeof data.nodeCount === 'number' ? data.nodeCount : 0,
+        nodeLabels: Array.isArray(data.nodeLabels) ? data.nodeLabels.map(String) : [],
+        updatedAt: typeof data.updatedAt === 'number' ? data.updatedAt : 0,
+    };
+};
+
+/** The signed-in user's role on the map, or null when they are neither a member nor invited. */
+export const roleOf = (map: SharedMap, user: CollabUser): MapRole | null =>
+    map.members[user.uid]?.role ?? (user.email ? map.invites[normalizeEmail(user.email)] : undefined) ?? null;
+
+// Membership patches. Each one rewrites whole fields (never dotted paths, since emails contain
+// dots) and is exactly what firestore.rules lets that person change.
+
+export const invitePatch = (map: SharedMap, email: string, role: MapRole) => {
+    const invites = { ...map.invites, [normalizeEmail(email)]: role };
+    return { invites, inviteEmails: Object.keys(invites) };
+};
+
+export const revokeInvitePatch = (map: SharedMap, email: string) => {
+    const invites = { ...map.invites };
+    delete invites[normalizeEmail(email)];
+    return { invites, inviteEmails: Object.keys(invites) };
+};
+
+/** Turns the user's pending invite into membership with the invited role; null without one. */
+export const acceptInvitePatch = (map: SharedMap, user: CollabUser) => {
+    const email = user.email ? normalizeEmail(user.email) : null;
+    const role = email ? map.invites[email] : undefined;
+    if (!email || !role || map.members[user.uid]) return null;
+    const members = { ...map.members, [user.uid]: { role, name: displayNameOf(user), email } };
+    return { members, memberIds: Object.keys(members), ...revokeInvitePatch(map, email) };
+};
+
+export const changeRolePatch = (map: SharedMap, uid: string, role: MapRole) => {
+    if (!map.members[uid] || uid === map.ownerId) return null;
+    return { members: { ...map.members, [uid]: { ...map.members[uid], role } } };
+};
+
+export const removeMemberPatch = (map: SharedMap, uid: string) => {
+    if (!map.members[uid] || uid === map.ownerId) return null;
+    const members = { ...map.members };
+    delete members[uid];
+    return { members, memberIds: Object.keys(members) };
+};
+
+// Fixed per user so someone keeps their colour across sessions and screens
+const COLLABORATOR_COLORS = ['#f472b6', '#34d399', '#fbbf24', '#60a5fa', '#a78bfa', '#f87171', '#2dd4bf', '#fb923c'];
+
+export const collaboratorColor = (uid: string): string => {
+    let hash = 0;
+    for (let i = 0; i < uid.length; i++) hash = (hash * 31 + uid.charCodeAt(i)) | 0;
+    return COLLABORATOR_COLORS[Math.abs(hash) % COLLABORATOR_COLORS.length];
+};
+
+/** Presence older than this is someone who closed the tab without saying goodbye. */
+export const PRESENCE_TIMEOUT_MS = 45_000;
+
+export const isOnline = (collaborator: Pick<Collaborator, 'updatedAt'>, now: number) =>
+    now - collaborator.updatedAt < PRESENCE_TIMEOUT_MS;
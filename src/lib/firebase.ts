@@ -1,6 +1,6 @@
 import { initializeApp, getApps, FirebaseApp } from 'firebase/app';
-import { getAuth } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
+import { connectAuthEmulator, getAuth } from 'firebase/auth';
+import { connectFirestoreEmulator, getFirestore } from 'firebase/firestore';
 
 // Fallback logic for build time or missing keys
 const getEnv = (key: string, mock: string) => {
@@ -27,3 +27,12 @@ if (getApps().length > 0) {
 
 export const auth = getAuth(app);
 export const db = getFirestore(app);
+
+// Local emulator suite (`npm run emulators`); ports match firebase.json.
+// Guarded so hot reloads don't connect twice, which the SDK rejects.
+const globalForEmulators = globalThis as { __ideaAiEmulators?: boolean };
+if (process.env.NEXT_PUBLIC_FIREBASE_EMULATORS === 'true' && !globalForEmulators.__ideaAiEmulators) {
+    globalForEmulators.__ideaAiEmulators = true;
+    connectAuthEmulator(auth, 'http://127.0.0.1:9099', { disableWarnings: true });
+    connectFirestoreEmulator(db, '127.0.0.1', 8080);
+}
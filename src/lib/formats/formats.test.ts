@@ -0,0 +1,55 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { MapDocument, MapFormatError } from './types';
+import { markdownFormat } from './markdown';
+import { opmlFormat } from './opml';
+import { freemindFormat } from './freemind';
+import { nativeFormat } from './native';
+
+// Ids in the depth-first order the outline importers hand them out, so a round trip is exact
+const outlineMap = (): MapDocument => ({
+  goal: 'R&D <core> plan',
+  nodes: [
+    { id: 'root', label: 'R&D <core> plan', description: 'Ship "v2" & more', position: { x: 0, y: 0 } },
+    { id: 'node-2', label: 'Research & <review>', position: { x: -200, y: 150 } },
+    { id: 'node-3', label: 'Papers', description: '- not a bullet\nSecond line', position: { x: -200, y: 300 } },
+    { id: 'node-4', label: 'Deep <dive>', position: { x: -200, y: 450 } },
+    { id: 'node-5', label: 'Budget', position: { x: 200, y: 150 } },
+  ],
+  edges: [
+    { source: 'root', target: 'node-2' },
+    { source: 'node-2', target: 'node-3' },
+    { source: 'node-3', target: 'node-4' },
+    { source: 'root', target: 'node-5' },
+  ],
+});
+
+describe.each([markdownFormat, opmlFormat, freemindFormat])('$label round trip', (format) => {
+  it('keeps labels with markup characters, descriptions, positions and nesting', () => {
+    expect(format.parse(format.serialize(outlineMap()))).toEqual(outlineMap());
+  });
+});
+
+describe('idea.ai JSON', () => {
+  const file = (patch: Partial<MapDocument>) => nativeFormat.serialize({ ...outlineMap(), rootId: 'root', ...patch });
+
+  it('round-trips the map with its root and cross-links', () => {
+    const doc = { ...outlineMap(), rootId: 'root', edges: [...outlineMap().edges, { source: 'node-5', target: 'node-4', kind: 'dependency' as const, label: 'pays for' }] };
+    expect(nativeFormat.parse(nativeFormat.serialize(doc))).toEqual(doc);
+  });
+
+  it('rejects JSON that is not an object', () => {
+    ['null', '42', '"x"', '[]'].forEach(text => expect(() => nativeFormat.parse(text)).toThrow(MapFormatError));
+  });
+
+  it('rejects nodes without an id or label', () => {
+    expect(() => nativeFormat.parse(file({ nodes: [{ label: 'No id' } as never] }))).toThrow('Node 1 has no id');
+    expect(() => nativeFormat.parse(file({ nodes: [{ id: 'a' } as never], edges: [] }))).toThrow('Node "a" has no label');
+    expect(() => nativeFormat.parse(file({ nodes: [{ id: 'a', label: 'A' }, { id: 'a', label: 'B' }], edges: [] }))).toThrow(MapFormatError);
+  });
+
+  it('rejects edges to nodes that are not in the file', () => {
+    const edges = [{ source: 'root', target: 'missing' }];
+    expect(() => nativeFormat.parse(file({ edges }))).toThrow('Edge 1 points to a node that is not in the file (missing)');
+  });
+});
@@ -0,0 +1,65 @@
+import { MapDocument, MapFormat, MapFormatError, OutlineItem, documentToOutline, outlineToDocument } from './types';
+import { escapeXml, parseXml, readPosition } from './xml';
+
+// Positions are stored as FreeMind node attributes so FreeMind/XMind keep them untouched
+const ATTR_X = 'idea.ai:x';
+const ATTR_Y = 'idea.ai:y';
+
+const serialize = (doc: MapDocument): string => {
+    let counter = 0;
+    const write = (item: OutlineItem, depth: number): string => {
+        const pad = '  '.repeat(depth + 1);
+        const lines = [`${pad}<node ID="ID_${++counter}" TEXT="${escapeXml(item.label)}">`];
+        if (item.description) {
+            const paragraphs = item.description.split('\n').map(l => `<p>${escapeXml(l)}</p>`).join('');
+            lines.push(`${pad}  <richcontent TYPE="NOTE"><html><head></head><body>${paragraphs}</body></html></richcontent>`);
+        }
+        if (item.position) {
+            lines.push(`${pad}  <attribute NAME="${ATTR_X}" VALUE="${item.position.x}"/>`);
+            lines.push(`${pad}  <attribute NAME="${ATTR_Y}" VALUE="${item.position.y}"/>`);
+        }
+        item.children.forEach(child => lines.push(write(child, depth + 1)));
+        lines.push(`${pad}</node>`);
+        return lines.join('\n');
+    };
+
+    // FreeMind maps have a single root, so several top-level items get the goal as a wrapper
+    const roots = documentToOutline(doc);
+    const top = roots.length === 1 ? roots[0] : { label: doc.goal, children: roots };
+
+    return ['<map version="1.0.1">', write(top, 0), '</map>', ''].join('\n');
+};
+
+const parse = (text: string): MapDocument => {
+    const xml = parseXml(text);
+    const rootNode = xml.querySelector('map > node');
+    if (!rootNode) throw new MapFormatError('Not a FreeMind map (missing root <node>)');
+
+    const read = (el: Element): OutlineItem => {
+        const childElements = Array.from(el.children);
+        const note = childElements.find(c => c.tagName === 'richcontent' && c.getAttribute('TYPE') === 'NOTE');
+        const attr = (name: string) => childElements
+            .find(c => c.tagName === 'attribute' && c.getAttribute('NAME') === name)
+            ?.getAttribute('VALUE');
+        const paragraphs = note ? Array.from(note.querySelectorAll('p')).map(p => p.textContent || '') : [];
+
+        return {
+            label: el.getAttribute('TEXT') || '',
+            description: paragraphs.length > 0 ? paragraphs.join('\n') : (note?.textContent?.trim() || undefined),
+            position: readPosition(attr(ATTR_X), attr(ATTR_Y)),
+            children: childElements.filter(c => c.tagName === 'node').map(read),
+        };
+    };
+
+    const root = read(rootNode);
+    return outlineToDocument([root], root.label);
+};
+
+export const freemindFormat: MapFormat = {
+    id: 'freemind',
+    label: 'FreeMind',
+    extension: 'mm',
+    mimeType: 'application/x-freemind',
+    serialize,
+    parse,
+};
@@ -0,0 +1,16 @@
+import { MapFormat, MapFormatError } from './types';
+import { markdownFormat } from './markdown';
+import { opmlFormat } from './opml';
+import { freemindFormat } from './freemind';
+import { nativeFormat } from './native';
+
+export * from './types';
+
+export const MAP_FORMATS: MapFormat[] = [nativeFormat, markdownFormat, opmlFormat, freemindFormat];
+
+export const formatForFile = (fileName: string): MapFormat => {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    const format = MAP_FORMATS.find(f => f.extension === extension || (f.id === 'markdown' && extension === 'markdown'));
+    if (!format) throw new MapFormatError(`Unsupported file type ".${extension}"`);
+    return format;
+};
@@ -0,0 +1,77 @@
+import { MapDocument, MapFormat, MapFormatError, OutlineItem, documentToOutline, outlineToDocument } from './types';
+
+// Positions ride along in an HTML comment, which Obsidian and most renderers hide
+const POSITION_COMMENT = /\s*<!--\s*pos:\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*-->\s*$/;
+const INDENT = '  ';
+
+const serialize = (doc: MapDocument): string => {
+    const lines: string[] = [`# ${doc.goal}`, ''];
+
+    const write = (item: OutlineItem, depth: number) => {
+        const pad = INDENT.repeat(depth);
+        const pos = item.position ? ` <!-- pos: ${item.position.x},${item.position.y} -->` : '';
+        lines.push(`${pad}- ${item.label.replace(/\n/g, ' ')}${pos}`);
+        // Description lines are continuation lines of the bullet
+        // (escaped when they would otherwise read as a bullet)
+        (item.description || '').split('\n').filter(l => l.trim()).forEach(l => {
+            lines.push(`${pad}${INDENT}${l.trim().replace(/^([-*+]\s)/, '\\$1')}`);
+        });
+        item.children.forEach(child => write(child, depth + 1));
+    };
+    documentToOutline(doc).forEach(item => write(item, 0));
+
+    return lines.join('\n') + '\n';
+};
+
+const parse = (text: string): MapDocument => {
+    let goal = '';
+    const roots: OutlineItem[] = [];
+    // Stack of [indent width, item]
+    const stack: [number, OutlineItem][] = [];
+
+    text.replace(/\t/g, INDENT).split(/\r?\n/).forEach(raw => {
+        if (!raw.trim()) return;
+
+        const heading = raw.match(/^#\s+(.+)$/);
+        if (heading && !goal && roots.length === 0) {
+            goal = heading[1].trim();
+            return;
+        }
+
+        const bullet = raw.match(/^(\s*)[-*+]\s+(?:\[[ xX]\]\s+)?(.*)$/);
+        const indent = raw.match(/^\s*/)![0].length;
+
+        if (bullet) {
+            const posMatch = bullet[2].match(POSITION_COMMENT);
+            const item: OutlineItem = {
+                label: bullet[2].replace(POSITION_COMMENT, '').trim(),
+                position: posMatch ? { x: Number(posMatch[1]), y: Number(posMatch[2]) } : undefined,
+                children: [],
+            };
+            while (stack.length > 0 && stack[stack.length - 1][0] >= indent) stack.pop();
+            if (stack.length > 0) stack[stack.length - 1][1].children.push(item);
+            else roots.push(item);
+            stack.push([indent, item]);
+            return;
+        }
+
+        // Continuation line: part of the description of the deepest open bullet
+        const owner = stack[stack.length - 1];
+        if (owner && indent > owner[0]) {
+            const line = raw.trim().replace(/^\\([-*+]\s)/, '$1');
+            owner[1].description = owner[1].description ? `${owner[1].description}\n${line}` : line;
+        }
+    });
+
+    if (roots.length === 0) throw new MapFormatError('No bullet list found in the Markdown file');
+    return outlineToDocument(roots, goal);
+};
+
+export const markdownFormat: MapFormat = {
+    id: 'markdown',
+    label: 'Markdown outline',
+    extension: 'md',
+    mimeType: 'text/markdown',
+    serialize,
+    parse,
+};
@@ -0,0 +1,72 @@
+import { MapDocument, MapDocumentNode, MapFormat, MapFormatError } from './types';
+
+export const NATIVE_FORMAT_ID = 'idea-ai-map';
+export const NATIVE_FORMAT_VERSION = 1;
+
+interface NativeFileV1 extends MapDocument {
+    format: typeof NATIVE_FORMAT_ID;
+    version: 1;
+    exportedAt: number;
+}
+
+const serialize = (doc: MapDocument): string => {
+    const file: NativeFileV1 = {
+        format: NATIVE_FORMAT_ID,
+        version: NATIVE_FORMAT_VERSION,
+        exportedAt: Date.now(),
+        ...doc,
+    };
+    return JSON.stringify(file, null, 2);
+};
+
+const parse = (text: string): MapDocument => {
+    let file: Partial<NativeFileV1>;
+    try {
+        file = JSON.parse(text);
+    } catch {
+        throw new MapFormatError('The file is not valid JSON');
+    }
+
+    if (typeof file !== 'object' || file === null || Array.isArray(file)) throw new MapFormatError('Not an idea.ai map file');
+    if (file.format !== NATIVE_FORMAT_ID) throw new MapFormatError('Not an idea.ai map file');
+    // Future versions add a migration step here before the shape check
+    if (file.version !== NATIVE_FORMAT_VERSION) {
+        throw new MapFormatError(`Unsupported idea.ai map version ${file.version} (this app reads version ${NATIVE_FORMAT_VERSION})`);
+    }
+    if (!Array.isArray(file.nodes) || !Array.isArray(file.edges)) {
+        throw new MapFormatError('The map file is missing its nodes or edges');
+    }
+
+    const ids = new Set<string>();
+    file.nodes.forEach((node: unknown, i) => {
+        const { id, label } = (node ?? {}) as Partial<MapDocumentNode>;
+        if (typeof id !== 'string' || !id) throw new MapFormatError(`Node ${i + 1} has no id`);
+        if (typeof label !== 'string') throw new MapFormatError(`Node "${id}" has no label`);
+        if (ids.has(id)) throw new MapFormatError(`Node id "${id}" is used twice`);
+        ids.add(id);
+    });
+    file.edges.forEach((edge: unknown, i) => {
+        const { source, target } = (edge ?? {}) as Partial<MapDocument['edges'][number]>;
+        [source, target].forEach(end => {
+            if (typeof end !== 'string' || !ids.has(end)) {
+                throw new MapFormatError(`Edge ${i + 1} points to a node that is not in the file (${String(end)})`);
+            }
+        });
+    });
+
+    return {
+        goal: file.goal || '',
+        ...(typeof file.rootId === 'string' && ids.has(file.rootId) ? { rootId: file.rootId } : {}),
+        nodes: file.nodes,
+        edges: file.edges,
+    };
+};
+
+export const nativeFormat: MapFormat = {
+    id: 'json',
+    label: 'idea.ai JSON',
+    extension: 'json',
+    mimeType: 'application/json',
+    serialize,
+    parse,
+};
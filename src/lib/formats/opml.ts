@@ -0,0 +1,55 @@
+import { MapDocument, MapFormat, MapFormatError, OutlineItem, documentToOutline, outlineToDocument } from './types';
+import { escapeXml, parseXml, readPosition } from './xml';
+
+// `_note` is the de-facto OPML extension for notes; `_x`/`_y` follow the same convention
+const serialize = (doc: MapDocument): string => {
+    const write = (item: OutlineItem, depth: number): string => {
+        const pad = '  '.repeat(depth + 2);
+        const attrs = [
+            `text="${escapeXml(item.label)}"`,
+            item.description ? `_note="${escapeXml(item.description)}"` : '',
+            item.position ? `_x="${item.position.x}" _y="${item.position.y}"` : '',
+        ].filter(Boolean).join(' ');
+        if (item.children.length === 0) return `${pad}<outline ${attrs}/>`;
+        return [`${pad}<outline ${attrs}>`, ...item.children.map(c => write(c, depth + 1)), `${pad}</outline>`].join('\n');
+    };
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<opml version="2.0">',
+        '  <head>',
+        `    <title>${escapeXml(doc.goal)}</title>`,
+        '  </head>',
+        '  <body>',
+        ...documentToOutline(doc).map(item => write(item, 0)),
+        '  </body>',
+        '</opml>',
+        '',
+    ].join('\n');
+};
+
+const parse = (text: string): MapDocument => {
+    const xml = parseXml(text);
+    const body = xml.querySelector('opml > body');
+    if (!body) throw new MapFormatError('Not an OPML document (missing <body>)');
+
+    const read = (el: Element): OutlineItem => ({
+        label: el.getAttribute('text') || el.getAttribute('title') || '',
+        description: el.getAttribute('_note') || undefined,
+        position: readPosition(el.getAttribute('_x'), el.getAttribute('_y')),
+        children: Array.from(el.children).filter(c => c.tagName === 'outline').map(read),
+    });
+
+    const roots = Array.from(body.children).filter(c => c.tagName === 'outline').map(read);
+    if (roots.length === 0) throw new MapFormatError('The OPML file has no outline items');
+    return outlineToDocument(roots, xml.querySelector('opml > head > title')?.textContent?.trim() || '');
+};
+
+export const opmlFormat: MapFormat = {
+    id: 'opml',
+    label: 'OPML',
+    extension: 'opml',
+    mimeType: 'text/x-opml',
+    serialize,
+    parse,
+};
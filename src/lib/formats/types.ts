@@ -0,0 +1,106 @@
+import { Edge, Node } from '@xyflow/react';
+import { EdgeKind, isHierarchyEdge, readEdgeKind, readEdgeLabel } from '../graph';
+
+// Format-neutral view of a map that every importer produces and every exporter reads
+export interface MapDocumentNode {
+    id: string;
+    label: string;
+    description?: string;
+    position?: { x: number; y: number };
+}
+
+export interface MapDocument {
+    goal: string;
+    // Node the tree hangs from; formats without the notion leave it out
+    rootId?: string;
+    nodes: MapDocumentNode[];
+    // `kind` is only set on cross-links; the outline formats drop those
+    edges: { source: string; target: string; kind?: EdgeKind; label?: string }[];
+}
+
+// Hierarchical view used by the outline formats (Markdown, OPML, FreeMind)
+export interface OutlineItem {
+    label: string;
+    description?: string;
+    position?: { x: number; y: number };
+    children: OutlineItem[];
+}
+
+export interface MapFormat {
+    id: string;
+    label: string;
+    extension: string;
+    mimeType: string;
+    serialize: (doc: MapDocument) => string;
+    parse: (text: string) => MapDocument;
+}
+
+export class MapFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MapFormatError';
+    }
+}
+
+export const documentFromStore = (goal: string, nodes: Node[], edges: Edge[], rootId?: string | null): MapDocument => ({
+    goal,
+    rootId: rootId ?? undefined,
+    nodes: nodes.map(n => ({
+        id: n.id,
+        label: String(n.data.label ?? ''),
+        description: n.data.description ? String(n.data.description) : undefined,
+        position: { x: Math.round(n.position.x), y: Math.round(n.position.y) },
+    })),
+    edges: edges.map(e => isHierarchyEdge(e)
+        ? { source: e.source, target: e.target }
+        : { source: e.source, target: e.target, kind: readEdgeKind(e), label: readEdgeLabel(e) || undefined }),
+});
+
+/**
+ * Turns the edge list into nested items. A node with several parents is placed
+ * under the first one; nodes without a parent become extra top-level items.
+ */
+export const documentToOutline = (doc: MapDocument): OutlineItem[] => {
+    const byId = new Map(doc.nodes.map(n => [n.id, n]));
+    const children = new Map<string, string[]>();
+    const hasParent = new Set<string>();
+
+    doc.edges.forEach(e => {
+        if ((e.kind && e.kind !== 'hierarchy') || !byId.has(e.source) || !byId.has(e.target) || hasParent.has(e.target)) return;
+        hasParent.add(e.target);
+        children.set(e.source, [...(children.get(e.source) || []), e.target]);
+    });
+
+    const visited = new Set<string>();
+    const build = (id: string): OutlineItem => {
+        visited.add(id);
+        const node = byId.get(id)!;
+        return {
+            label: node.label,
+            description: node.description,
+            position: node.position,
+            children: (children.get(id) || []).filter(c => !visited.has(c)).map(build),
+        };
+    };
+
+    const roots = doc.nodes.filter(n => !hasParent.has(n.id)).map(n => build(n.id));
+    // Pure cycles have no parentless entry point
+    doc.nodes.filter(n => !visited.has(n.id)).forEach(n => roots.push(build(n.id)));
+    return roots;
+};
+
+export const outlineToDocument = (items: OutlineItem[], goal: string): MapDocument => {
+    const nodes: MapDocumentNode[] = [];
+    const edges: MapDocument['edges'] = [];
+
+    const walk = (item: OutlineItem, parentId: string | null) => {
+        // The first item takes the id the chat flow expects for the map root
+        const id = nodes.length === 0 ? 'root' : `node-${nodes.length + 1}`;
+        nodes.push({ id, label: item.label, description: item.description, position: item.position });
+        if (parentId) edges.push({ source: parentId, target: id });
+        item.children.forEach(child => walk(child, id));
+    };
+    items.forEach(item => walk(item, null));
+
+    return { goal: goal || items[0]?.label || '', nodes, edges };
+};
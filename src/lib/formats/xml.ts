@@ -0,0 +1,22 @@
+import { MapFormatError } from './types';
+
+export const escapeXml = (value: string): string =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/\n/g, '&#10;');
+
+export const parseXml = (text: string): Document => {
+    const xml = new DOMParser().parseFromString(text, 'application/xml');
+    const error = xml.querySelector('parsererror');
+    if (error) throw new MapFormatError(`Invalid XML: ${error.textContent?.slice(0, 120)}`);
+    return xml;
+};
+
+export const readPosition = (x: string | null | undefined, y: string | null | undefined) => {
+    if (x == null || y == null || x === '' || y === '') return undefined;
+    const position = { x: Number(x), y: Number(y) };
+    return Number.isFinite(position.x) && Number.isFinite(position.y) ? position : undefined;
+};
@@ -0,0 +1,153 @@
+import { Edge, Node } from '@xyflow/react';
+
+// The session's designated root when given and on the map; maps saved before roots were
+// designated fall back to the node whose id says root, else the first node
+export const findRootId = (nodes: { id: string }[], rootId?: string | null): string | undefined =>
+    rootId && nodes.some(n => n.id === rootId) ? rootId : (nodes.find(n => n.id.includes('root')) || nodes[0])?.id;
+
+export type EdgeKind = 'hierarchy' | 'dependency' | 'related' | 'contradicts' | 'custom';
+
+export const EDGE_KINDS: { value: EdgeKind; label: string }[] = [
+    { value: 'hierarchy', label: 'Parent / child' },
+    { value: 'dependency', label: 'Depends on' },
+    { value: 'related', label: 'Related to' },
+    { value: 'contradicts', label: 'Contradicts' },
+    { value: 'custom', label: 'Custom' },
+];
+
+// Stroke per cross-link kind; parent/child edges keep React Flow's default look
+export const LINK_COLORS: Record<Exclude<EdgeKind, 'hierarchy'>, string> = {
+    dependency: '#f59e0b',
+    related: '#38bdf8',
+    contradicts: '#f87171',
+    custom: '#a78bfa',
+};
+
+export const LINK_DASHES: Partial<Record<EdgeKind, string>> = {
+    dependency: '6 3',
+    related: '2 4',
+};
+
+const isEdgeKind = (value: unknown): value is EdgeKind => EDGE_KINDS.some(k => k.value === value);
+
+// Edges without a kind are the parent/child links every map had before cross-links existed
+export const readEdgeKind = (edge: Pick<Edge, 'data'>): EdgeKind =>
+    isEdgeKind(edge.data?.kind) ? edge.data.kind : 'hierarchy';
+
+export const readEdgeLabel = (edge: Pick<Edge, 'data'>): string =>
+    typeof edge.data?.label === 'string' ? edge.data.label : '';
+
+/** Cross-links (every kind but hierarchy) sit on top of the tree and never shape it. */
+export const isHierarchyEdge = (edge: Pick<Edge, 'data'>) => readEdgeKind(edge) === 'hierarchy';
+
+export interface Hierarchy {
+    // Roots in display order: the map root first, then any disconnected nodes
+    roots: string[];
+    children: Map<string, string[]>;
+    parent: Map<string, string>;
+    depth: Map<string, number>;
+}
+
+/**
+ * Spanning tree of the map, built breadth-first from the root so a node with several
+ * parents sits under the one closest to the root. Child order follows edge order,
+ * which keeps the result stable between runs. Cross-links are ignored.
+ */
+export const buildHierarchy = (nodes: { id: string }[], allEdges: Edge[], rootId?: string | null): Hierarchy => {
+    const nodeIds = new Set(nodes.map(n => n.id));
+    const edges = allEdges.filter(isHierarchyEdge);
+    const outgoing = new Map<string, string[]>();
+    edges.forEach(e => {
+        if (!nodeIds.has(e.source) || !nodeIds.has(e.target)) return;
+        outgoing.set(e.source, [...(outgoing.get(e.source) || []), e.target]);
+    });
+
+    const roots: string[] = [];
+    const children = new Map<string, string[]>();
+    const parent = new Map<string, string>();
+    const depth = new Map<string, number>();
+
+    const visitFrom = (rootId: string) => {
+        roots.push(rootId);
+        depth.set(rootId, 0);
+        const queue = [rootId];
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+            const kids: string[] = [];
+            (outgoing.get(current) || []).forEach(target => {
+                if (depth.has(target)) return;
+                depth.set(target, depth.get(current)! + 1);
+                parent.set(target, current);
+                kids.push(target);
+                queue.push(target);
+            });
+            children.set(current, kids);
+        }
+    };
+
+    const mapRootId = findRootId(nodes, rootId);
+    if (mapRootId) visitFrom(mapRootId);
+    // Nodes the root can't reach: start from the ones nobody points at, then whatever is left (cycles)
+    const hasIncoming = new Set(edges.map(e => e.target));
+    nodes.filter(n => !depth.has(n.id) && !hasIncoming.has(n.id)).forEach(n => visitFrom(n.id));
+    nodes.filter(n => !depth.has(n.id)).forEach(n => visitFrom(n.id));
+
+    return { roots, children, parent, depth };
+};
+
+// Ids from the top of the tree down to (not including) `id`
+export const getAncestorIds = (hierarchy: Hierarchy, id: string): string[] => {
+    const path: string[] = [];
+    for (let current = hierarchy.parent.get(id); current; current = hierarchy.parent.get(current)) {
+        path.unshift(current);
+    }
+    return path;
+};
+
+export interface BranchInfo {
+    childCount: number;
+    // Descendants hidden because this node is collapsed (0 when expanded)
+    hiddenCount: number;
+}
+
+export interface CollapseState {
+    hiddenIds: Set<string>;
+    branches: Map<string, BranchInfo>;
+}
+
+/**
+ * Which nodes are folded away under a collapsed ancestor. Uses the same spanning
+ * tree as the layouts, so a node with a second, expanded parent still hides
+ * when its first parent is collapsed.
+ */
+export const getCollapseState = (nodes: Pick<Node, 'id' | 'data'>[], edges: Edge[], rootId?: string | null): CollapseState => {
+    const hierarchy = buildHierarchy(nodes, edges, rootId);
+    const collapsed = new Set(nodes.filter(n => n.data.collapsed).map(n => n.id));
+    const hiddenIds = new Set<string>();
+    const branches = new Map<string, BranchInfo>();
+
+    // Returns the subtree size below `id`
+    const walk = (id: string, hidden: boolean): number => {
+        if (hidden) hiddenIds.add(id);
+        const kids = hierarchy.children.get(id) || [];
+        const isCollapsed = collapsed.has(id) && kids.length > 0;
+        const descendants = kids.reduce((sum, kid) => sum + 1 + walk(kid, hidden || isCollapsed), 0);
+        branches.set(id, { childCount: kids.length, hiddenCount: isCollapsed ? descendants : 0 });
+        return descendants;
+    };
+    hierarchy.roots.forEach(root => walk(root, false));
+
+    return { hiddenIds, branches };
+};
+
+// Nodes and edges still on the board once collapsed branches are folded away
+export const getVisibleGraph = (nodes: Node[], edges: Edge[], hiddenIds = getCollapseState(nodes, edges).hiddenIds) => ({
+    nodes: hiddenIds.size === 0 ? nodes : nodes.filter(n => !hiddenIds.has(n.id)),
+    edges: hiddenIds.size === 0 ? edges : edges.filter(e => !hiddenIds.has(e.source) && !hiddenIds.has(e.target)),
+});
+
+// Key that changes whenever a node is collapsed or expanded; cheap enough for store selectors
+export const collapsedKey = (nodes: Node[]) => nodes.filter(n => n.data.collapsed).map(n => n.id).join('|');
+
+// Key that changes whenever an edge is added, removed or reconnected (re-rooting flips some)
+export const edgeEndpointsKey = (edges: Edge[]) => edges.map(e => `${e.source}>${e.target}`).join('|');
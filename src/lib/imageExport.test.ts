@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { Edge, Node } from '@xyflow/react';
+import { DEFAULT_IMAGE_EXPORT_OPTIONS, buildVectorSvg } from './imageExport';
+
+const node = (id: string, label: string, y: number, data: Record<string, unknown> = {}): Node =>
+  ({ id, type: 'expandable', position: { x: 0, y }, measured: { width: 280, height: 48 }, data: { label, ...data } });
+
+const bounds = { x: 0, y: 0, width: 280, height: 248 };
+const options = { ...DEFAULT_IMAGE_EXPORT_OPTIONS, format: 'pdf' as const };
+
+describe('buildVectorSvg', () => {
+  it('draws labels as escaped text and edges as paths, without embedded HTML', () => {
+    const nodes = [node('a', 'R&D <core>', 0), node('b', 'Hire', 200)];
+    const edges: Edge[] = [
+      { id: 'e1', source: 'a', target: 'b' },
+      { id: 'e2', source: 'b', target: 'a', data: { kind: 'dependency', label: 'needs' } },
+    ];
+
+    const { svg, width, height } = buildVectorSvg(nodes, edges, bounds, options);
+
+    expect({ width, height }).toEqual({ width: 360, height: 328 });
+    expect(svg).toContain('R&amp;D &lt;core&gt;');
+    expect(svg).not.toContain('foreignObject');
+    expect(svg.match(/<path [^>]*stroke-width/g)).toHaveLength(2);
+    expect(svg).toContain('marker-end="url(#dependency-arrow)"');
+    expect(svg).toContain('>needs</text>');
+  });
+
+  it('writes descriptions only for expanded nodes and when asked to', () => {
+    const expanded = { ...node('a', 'Plan', 0, { description: '- **Find** a site' }), measured: { width: 280, height: 120 } };
+
+    expect(buildVectorSvg([expanded], [], bounds, options).svg).toContain('>Find a site</tspan>');
+    expect(buildVectorSvg([expanded], [], bounds, { ...options, includeDescriptions: false }).svg).not.toContain('tspan');
+    expect(buildVectorSvg([node('a', 'Plan', 0, { description: 'Folded' })], [], bounds, options).svg).not.toContain('Folded');
+  });
+
+  it('leaves the background out when transparent', () => {
+    const dark = buildVectorSvg([node('a', 'A', 0)], [], bounds, options).svg;
+    const transparent = buildVectorSvg([node('a', 'A', 0)], [], bounds, { ...options, background: 'transparent' }).svg;
+
+    expect(dark).toContain('fill="#09090b"');
+    expect(transparent).not.toContain('#09090b');
+  });
+});
@@ -0,0 +1,248 @@
+import { Edge, Node, Position, Rect, getBezierPath } from '@xyflow/react';
+import { toPng, toSvg } from 'html-to-image';
+import { LINK_COLORS, LINK_DASHES, isHierarchyEdge, readEdgeKind, readEdgeLabel } from './graph';
+
+export type ImageFormat = 'png' | 'svg' | 'pdf';
+export type ImageBackground = 'dark' | 'light' | 'transparent';
+
+export interface ImageExportOptions {
+    format: ImageFormat;
+    // PNG and SVG only; PDFs are vector and print at any size
+    scale: number;
+    background: ImageBackground;
+    // Expanded node descriptions are part of the picture; off leaves just the headers
+    includeDescriptions: boolean;
+    // Only the selected nodes and everything below them
+    selectedSubtreeOnly: boolean;
+}
+
+export const DEFAULT_IMAGE_EXPORT_OPTIONS: ImageExportOptions = {
+    format: 'png',
+    scale: 2,
+    background: 'dark',
+    includeDescriptions: true,
+    selectedSubtreeOnly: false,
+};
+
+const BACKGROUND_COLORS: Record<ImageBackground, string | undefined> = {
+    dark: '#09090b',
+    light: '#ffffff',
+    transparent: undefined,
+};
+
+// Blank margin around the bounding box, in flow units
+const EXPORT_PADDING = 40;
+
+// Marks DOM parts of a node that the export can leave out (see ExpandableNode)
+const EXPORT_ROLE_ATTRIBUTE = 'data-export-role';
+
+export const collectSubtreeIds = (rootIds: string[], edges: Edge[]): Set<string> => {
+    const ids = new Set(rootIds);
+    const queue = [...rootIds];
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        edges.forEach(e => {
+            if (e.source === current && isHierarchyEdge(e) && !ids.has(e.target)) {
+                ids.add(e.target);
+                queue.push(e.target);
+            }
+        });
+    }
+    return ids;
+};
+
+/**
+ * Picks the nodes and edges that make up the exported picture. Returns null when
+ * a subtree export is requested but nothing is selected.
+ */
+export const selectExportContent = (nodes: Node[], edges: Edge[], options: ImageExportOptions) => {
+    if (!options.selectedSubtreeOnly) return { nodes, edges };
+
+    const selected = nodes.filter(n => n.selected).map(n => n.id);
+    if (selected.length === 0) return null;
+
+    const ids = collectSubtreeIds(selected, edges);
+    return {
+        nodes: nodes.filter(n => ids.has(n.id)),
+        edges: edges.filter(e => ids.has(e.source) && ids.has(e.target)),
+    };
+};
+
+/**
+ * Renders the given nodes at their full extent, independent of the current viewport:
+ * the viewport element is re-transformed so the bounding box sits at the origin.
+ * Everything not in `nodeIds`/`edgeIds` (ghost proposals, other branches) is filtered out.
+ */
+export const renderBoardImage = async (
+    viewportElement: HTMLElement,
+    bounds: Rect,
+    nodeIds: Set<string>,
+    edgeIds: Set<string>,
+    options: ImageExportOptions,
+): Promise<{ dataUrl: string; width: number; height: number }> => {
+    const width = Math.ceil((bounds.width + EXPORT_PADDING * 2) * options.scale);
+    const height = Math.ceil((bounds.height + EXPORT_PADDING * 2) * options.scale);
+    const translateX = (EXPORT_PADDING - bounds.x) * options.scale;
+    const translateY = (EXPORT_PADDING - bounds.y) * options.scale;
+
+    const filter = (element: HTMLElement) => {
+        if (!(element instanceof Element)) return true;
+        const classes = element.classList;
+        if (classes.contains('react-flow__node')) return nodeIds.has(element.getAttribute('data-id') || '');
+        if (classes.contains('react-flow__edge')) return edgeIds.has(element.getAttribute('data-id') || '');
+        if (!options.includeDescriptions && element.getAttribute(EXPORT_ROLE_ATTRIBUTE) === 'description') return false;
+        return true;
+    };
+
+    const renderOptions = {
+        backgroundColor: BACKGROUND_COLORS[options.background],
+        width,
+        height,
+        style: {
+            width: `${width}px`,
+            height: `${height}px`,
+            transform: `translate(${translateX}px, ${translateY}px) scale(${options.scale})`,
+        },
+        filter,
+        cacheBust: true,
+    };
+
+    const dataUrl = options.format === 'svg'
+        ? await toSvg(viewportElement, renderOptions)
+        // PNG is rasterised at the export size; pixelRatio 1 keeps `scale` as the only multiplier
+        : await toPng(viewportElement, { ...renderOptions, pixelRatio: 1 });
+
+    return { dataUrl, width, height };
+};
+
+// The board's palette per background, for the vector (PDF) drawing
+const VECTOR_THEMES: Record<ImageBackground, { node: string; border: string; label: string; text: string; edge: string }> = {
+    dark: { node: '#18181b', border: '#3f3f46', label: '#f4f4f5', text: '#a1a1aa', edge: '#71717a' },
+    light: { node: '#ffffff', border: '#d4d4d8', label: '#18181b', text: '#52525b', edge: '#a1a1aa' },
+    transparent: { node: '#ffffff', border: '#d4d4d8', label: '#18181b', text: '#52525b', edge: '#a1a1aa' },
+};
+
+// Fallback size of a node React Flow has not measured yet (ExpandableNode is 280px wide)
+const DEFAULT_NODE_SIZE = { width: 280, height: 48 };
+// Height of a node's header row; anything taller is its expanded description
+const NODE_HEADER_HEIGHT = 44;
+const LABEL_SIZE = 14;
+const TEXT_SIZE = 11;
+const TEXT_LINE_HEIGHT = 15;
+const NODE_INSET = 12;
+// Helvetica averages a little over half its size per character
+const CHAR_WIDTH = 0.55;
+
+const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const fitLine = (text: string, width: number, size: number) => {
+    const max = Math.max(1, Math.floor(width / (size * CHAR_WIDTH)));
+    return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+};
+
+// Greedy word wrap by estimated width; the last line that fits ends in an ellipsis if text is left over
+const wrapText = (text: string, width: number, size: number, maxLines: number): string[] => {
+    const max = Math.max(1, Math.floor(width / (size * CHAR_WIDTH)));
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (candidate.length <= max) {
+            line = candidate;
+            continue;
+        }
+        if (line) lines.push(line);
+        line = word.length > max ? word.slice(0, max) : word;
+    }
+    if (line) lines.push(line);
+    if (lines.length <= maxLines) return lines;
+    return [...lines.slice(0, maxLines - 1), fitLine(`${lines[maxLines - 1]}…`, width, size)];
+};
+
+// Descriptions are Markdown; the PDF shows their text
+const plainText = (markdown: string) => markdown
+    .replace(/^\s*(#+|[-*+]|\d+\.)\s+(\[[ xX]\]\s+)?/gm, '')
+    .replace(/[*_`]/g, '');
+
+const nodeBox = (node: Node) => ({
+    x: node.position.x,
+    y: node.position.y,
+    width: node.measured?.width ?? node.width ?? DEFAULT_NODE_SIZE.width,
+    height: node.measured?.height ?? node.height ?? DEFAULT_NODE_SIZE.height,
+});
+
+/**
+ * Draws the map as plain SVG shapes and text (no embedded HTML), laid out like the board:
+ * node boxes with their label and, when expanded on the board and asked for, description,
+ * and edges as the same bezier curves. This is what the PDF export is built from.
+ */
+export const buildVectorSvg = (nodes: Node[], edges: Edge[], bounds: Rect, options: ImageExportOptions) => {
+    const theme = VECTOR_THEMES[options.background];
+    const width = Math.ceil(bounds.width + EXPORT_PADDING * 2);
+    const height = Math.ceil(bounds.height + EXPORT_PADDING * 2);
+    const boxes = new Map(nodes.map(n => [n.id, nodeBox(n)]));
+    const parts: string[] = [];
+
+    const background = BACKGROUND_COLORS[options.background];
+    if (background) parts.push(`<rect width="${width}" height="${height}" fill="${background}"/>`);
+
+    edges.forEach(edge => {
+        const source = boxes.get(edge.source);
+        const target = boxes.get(edge.target);
+        if (!source || !target) return;
+        const [path, labelX, labelY] = getBezierPath({
+            sourceX: source.x + source.width / 2,
+            sourceY: source.y + source.height,
+            sourcePosition: Position.Bottom,
+            targetX: target.x + target.width / 2,
+            targetY: target.y,
+            targetPosition: Position.Top,
+        });
+        const kind = readEdgeKind(edge);
+        const color = kind === 'hierarchy' ? theme.edge : LINK_COLORS[kind];
+        const dash = LINK_DASHES[kind] ? ` stroke-dasharray="${LINK_DASHES[kind]}"` : '';
+        const marker = kind === 'dependency' ? ' marker-end="url(#dependency-arrow)"' : '';
+        parts.push(`<path d="${path}" fill="none" stroke="${color}" stroke-width="1.5"${dash}${marker}/>`);
+        const label = readEdgeLabel(edge);
+        if (label && kind !== 'hierarchy') {
+            parts.push(`<text x="${labelX}" y="${labelY + 3}" text-anchor="middle" font-family="Helvetica" font-size="10" fill="${color}">${escapeXml(label)}</text>`);
+        }
+    });
+
+    nodes.forEach(node => {
+        const box = boxes.get(node.id)!;
+        const innerWidth = box.width - NODE_INSET * 2;
+        parts.push(`<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="12" fill="${theme.node}" stroke="${theme.border}"/>`);
+        const label = fitLine(String(node.data?.label ?? ''), innerWidth, LABEL_SIZE);
+        parts.push(`<text x="${box.x + NODE_INSET}" y="${box.y + 28}" font-family="Helvetica" font-weight="bold" font-size="${LABEL_SIZE}" fill="${theme.label}">${escapeXml(label)}</text>`);
+
+        const description = typeof node.data?.description === 'string' ? plainText(node.data.description) : '';
+        const room = Math.floor((box.height - NODE_HEADER_HEIGHT - NODE_INSET) / TEXT_LINE_HEIGHT);
+        if (!options.includeDescriptions || !description.trim() || room < 1) return;
+        const lines = wrapText(description, innerWidth, TEXT_SIZE, room);
+        const tspans = lines.map((line, i) =>
+            `<tspan x="${box.x + NODE_INSET}" y="${box.y + NODE_HEADER_HEIGHT + TEXT_SIZE + i * TEXT_LINE_HEIGHT}">${escapeXml(line)}</tspan>`);
+        parts.push(`<text font-family="Helvetica" font-size="${TEXT_SIZE}" fill="${theme.text}">${tspans.join('')}</text>`);
+    });
+
+    const arrow = `<marker id="dependency-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto"><path d="M0,0 L10,5 L0,10 z" fill="${LINK_COLORS.dependency}"/></marker>`;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+        + `<defs>${arrow}</defs>`
+        + `<g transform="translate(${EXPORT_PADDING - bounds.x} ${EXPORT_PADDING - bounds.y})">${parts.join('')}</g></svg>`;
+    return { svg, width, height };
+};
+
+// One page the size of the map, drawn as vectors so text stays selectable and sharp at any zoom
+export const svgToPdf = async (svg: string, width: number, height: number): Promise<Blob> => {
+    const [{ jsPDF }, { svg2pdf }] = await Promise.all([import('jspdf'), import('svg2pdf.js')]);
+    const pdf = new jsPDF({
+        orientation: width >= height ? 'landscape' : 'portrait',
+        unit: 'px',
+        format: [width, height],
+        hotfixes: ['px_scaling'],
+    });
+    const element = new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement;
+    await svg2pdf(element, pdf, { x: 0, y: 0, width, height });
+    return pdf.output('blob');
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import type { Edge } from '@xyflow/react';
+import { enforceGraphIntegrity, wouldCreateCycle } from './integrity';
+import { readEdgeKind } from './graph';
+import { bakeryMap } from '@/services/__fixtures__/maps';
+
+const TREE = { rootId: 'root', treeMode: true };
+
+const edge = (source: string, target: string, kind?: string): Edge =>
+  ({ id: `e-${source}-${target}-${kind ?? 'hierarchy'}`, source, target, ...(kind ? { data: { kind } } : {}) });
+
+const check = (extra: Edge[], options = TREE) => {
+  const { nodes, edges } = bakeryMap();
+  return enforceGraphIntegrity(nodes, [...edges, ...extra], options);
+};
+
+const kindOf = (edges: Edge[], source: string, target: string) =>
+  edges.filter(e => e.source === source && e.target === target).map(readEdgeKind);
+
+describe('enforceGraphIntegrity', () => {
+  it('returns the same edges when the map is already sound', () => {
+    const { nodes, edges } = bakeryMap();
+    const result = enforceGraphIntegrity(nodes, edges, TREE);
+
+    expect(result.edges).toBe(edges);
+    expect(result.repairs).toEqual([]);
+  });
+
+  it('drops dangling edges, self-loops and duplicates', () => {
+    const { edges, repairs } = check([
+      edge('root', 'gone'),
+      edge('aspect-1', 'aspect-1', 'related'),
+      { ...edge('root', 'aspect-1'), id: 'again' },
+    ]);
+
+    expect(repairs.map(r => r.problem)).toEqual(['dangling', 'self-loop', 'duplicate']);
+    expect(edges).toHaveLength(bakeryMap().edges.length);
+  });
+
+  it('keeps edges that break the tree as related links', () => {
+    const { edges, repairs } = check([
+      edge('node-1700000000000-0-new', 'aspect-2'),
+      edge('aspect-1', 'root'),
+      edge('aspect-3', 'aspect-4'),
+    ]);
+
+    expect(repairs.map(r => r.problem)).toEqual(['cycle', 'root-parent', 'extra-parent']);
+    expect(kindOf(edges, 'node-1700000000000-0-new', 'aspect-2')).toEqual(['related']);
+    expect(kindOf(edges, 'aspect-1', 'root')).toEqual(['related']);
+    expect(kindOf(edges, 'aspect-3', 'aspect-4')).toEqual(['related']);
+  });
+
+  it('allows several parents outside tree mode, never a cycle', () => {
+    const { edges, repairs } = check(
+      [edge('aspect-3', 'aspect-4'), edge('aspect-4', 'aspect-3')],
+      { rootId: 'root', treeMode: false }
+    );
+
+    expect(kindOf(edges, 'aspect-3', 'aspect-4')).toEqual(['hierarchy']);
+    expect(kindOf(edges, 'aspect-4', 'aspect-3')).toEqual(['related']);
+    expect(repairs.map(r => r.problem)).toEqual(['cycle']);
+  });
+
+  it('drops a demoted edge that repeats an existing link', () => {
+    const { edges } = check([edge('aspect-3', 'aspect-4', 'related'), edge('aspect-3', 'aspect-4')]);
+    expect(kindOf(edges, 'aspect-3', 'aspect-4')).toEqual(['related']);
+  });
+
+  it('falls back to the legacy root guess when none is designated', () => {
+    expect(check([]).rootId).toBe('root');
+    expect(check([], { rootId: 'aspect-2', treeMode: true }).rootId).toBe('aspect-2');
+    expect(check([], { rootId: 'gone', treeMode: true }).rootId).toBe('root');
+  });
+});
+
+describe('wouldCreateCycle', () => {
+  it('spots an edge from a node to one of its ancestors', () => {
+    const { edges } = bakeryMap();
+    expect(wouldCreateCycle(edges, 'node-1700000000000-0-new', 'root')).toBe(true);
+    expect(wouldCreateCycle(edges, 'aspect-1', 'aspect-1')).toBe(true);
+    expect(wouldCreateCycle(edges, 'aspect-1', 'node-1700000000000-0-new')).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+import { Edge, Node } from '@xyflow/react';
+import { findRootId, isHierarchyEdge, readEdgeKind } from './graph';
+
+// Invariants every map in the store satisfies:
+// - edges only connect nodes that exist, never a node to itself, and never twice
+// - parent/child edges form no cycle and never point into the root
+// - in tree mode every node has at most one parent
+// Parent/child edges that break the tree are kept as "related" cross-links instead,
+// so nothing the user or the AI drew disappears; the rest is dropped.
+
+export type IntegrityProblem = 'dangling' | 'self-loop' | 'duplicate' | 'cycle' | 'root-parent' | 'extra-parent';
+
+export interface IntegrityRepair {
+    edgeId: string;
+    problem: IntegrityProblem;
+}
+
+export interface IntegrityOptions {
+    rootId: string | null;
+    // Single parent per node; off, a node may sit under several parents
+    treeMode: boolean;
+}
+
+export interface IntegrityResult {
+    // The input array itself when nothing needed repair
+    edges: Edge[];
+    rootId: string | null;
+    repairs: IntegrityRepair[];
+}
+
+const DEMOTED: IntegrityProblem[] = ['cycle', 'root-parent', 'extra-parent'];
+
+const reaches = (outgoing: Map<string, string[]>, from: string, to: string): boolean => {
+    const seen = new Set([from]);
+    const queue = [from];
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        if (current === to) return true;
+        (outgoing.get(current) || []).forEach(next => {
+            if (!seen.has(next)) {
+                seen.add(next);
+                queue.push(next);
+            }
+        });
+    }
+    return false;
+};
+
+const toOutgoing = (edges: Edge[]) => {
+    const outgoing = new Map<string, string[]>();
+    edges.filter(isHierarchyEdge).forEach(e => outgoing.set(e.source, [...(outgoing.get(e.source) || []), e.target]));
+    return outgoing;
+};
+
+/** Whether a parent/child edge from `source` to `target` would close a cycle. */
+export const wouldCreateCycle = (edges: Edge[], source: string, target: string): boolean =>
+    source === target || reaches(toOutgoing(edges), target, source);
+
+/**
+ * Checks `edges` against the invariants above, in order, so earlier edges win: the
+ * first parent a node got stays its parent. Nodes are never touched.
+ */
+export const enforceGraphIntegrity = (nodes: Node[], edges: Edge[], options: IntegrityOptions): IntegrityResult => {
+    const nodeIds = new Set(nodes.map(n => n.id));
+    // The designated root while it is on the map; otherwise (older maps, root deleted) the legacy guess
+    const rootId = findRootId(nodes, options.rootId) ?? null;
+    const repairs: IntegrityRepair[] = [];
+    const checked: Edge[] = [];
+    const keys = new Set<string>();
+    const hasParent = new Set<string>();
+    const outgoing = new Map<string, string[]>();
+
+    edges.forEach(edge => {
+        const problem = ((): IntegrityProblem | null => {
+            if (!nodeIds.has(edge.source) || !nodeIds.has(edge.target)) return 'dangling';
+            if (edge.source === edge.target) return 'self-loop';
+            if (keys.has(`${edge.source}-${edge.target}-${readEdgeKind(edge)}`)) return 'duplicate';
+            if (!isHierarchyEdge(edge)) return null;
+            if (edge.target === rootId) return 'root-parent';
+            if (reaches(outgoing, edge.target, edge.source)) return 'cycle';
+            if (options.treeMode && hasParent.has(edge.target)) return 'extra-parent';
+            return null;
+        })();
+
+        if (problem) repairs.push({ edgeId: edge.id, problem });
+        if (problem && !DEMOTED.includes(problem)) return;
+
+        const kept = problem ? { ...edge, data: { ...edge.data, kind: 'related' } } : edge;
+        const key = `${kept.source}-${kept.target}-${readEdgeKind(kept)}`;
+        // A demoted edge may repeat a link that is already there
+        if (problem && keys.has(key)) return;
+        keys.add(key);
+        if (isHierarchyEdge(kept)) {
+            hasParent.add(kept.target);
+            outgoing.set(kept.source, [...(outgoing.get(kept.source) || []), kept.target]);
+        }
+        checked.push(kept);
+    });
+
+    return { edges: repairs.length > 0 ? checked : edges, rootId, repairs };
+};
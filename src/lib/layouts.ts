@@ -0,0 +1,129 @@
+import { Edge, Node, XYPosition } from '@xyflow/react';
+import { buildHierarchy, Hierarchy } from './graph';
+
+export type LayoutKind = 'force' | 'tree' | 'org' | 'radial';
+
+export const LAYOUT_OPTIONS: { kind: LayoutKind; label: string }[] = [
+    { kind: 'force', label: 'Force' },
+    { kind: 'tree', label: 'Tree' },
+    { kind: 'org', label: 'Org chart' },
+    { kind: 'radial', label: 'Radial' },
+];
+
+export const isLayoutKind = (value: unknown): value is LayoutKind =>
+    LAYOUT_OPTIONS.some(option => option.kind === value);
+
+// Spacing is sized for ExpandableNode (280px wide, ~50px tall when collapsed)
+const TREE_LEVEL_GAP = 360;
+const TREE_ROW_GAP = 90;
+const ORG_LEVEL_GAP = 180;
+const ORG_COLUMN_GAP = 320;
+const RADIAL_RING_GAP = 340;
+
+/**
+ * Assigns each node a slot along the breadth axis: leaves take consecutive slots,
+ * parents sit centred over their children. Separate roots continue the sequence.
+ */
+const assignSlots = (hierarchy: Hierarchy): Map<string, number> => {
+    const slots = new Map<string, number>();
+    let nextLeaf = 0;
+
+    const place = (id: string): number => {
+        const kids = hierarchy.children.get(id) || [];
+        if (kids.length === 0) {
+            slots.set(id, nextLeaf++);
+            return slots.get(id)!;
+        }
+        const childSlots = kids.map(place);
+        const slot = (childSlots[0] + childSlots[childSlots.length - 1]) / 2;
+        slots.set(id, slot);
+        return slot;
+    };
+
+    hierarchy.roots.forEach(root => {
+        place(root);
+        nextLeaf += 1; // gap between disconnected groups
+    });
+    return slots;
+};
+
+const countLeaves = (hierarchy: Hierarchy): Map<string, number> => {
+    const leaves = new Map<string, number>();
+    const count = (id: string): number => {
+        const kids = hierarchy.children.get(id) || [];
+        const total = kids.length === 0 ? 1 : kids.reduce((sum, kid) => sum + count(kid), 0);
+        leaves.set(id, total);
+        return total;
+    };
+    hierarchy.roots.forEach(count);
+    return leaves;
+};
+
+const treeLayout = (hierarchy: Hierarchy): Map<string, XYPosition> => {
+    const slots = assignSlots(hierarchy);
+    const positions = new Map<string, XYPosition>();
+    slots.forEach((slot, id) => positions.set(id, {
+        x: (hierarchy.depth.get(id) || 0) * TREE_LEVEL_GAP,
+        y: Math.round(slot * TREE_ROW_GAP),
+    }));
+    return positions;
+};
+
+const orgLayout = (hierarchy: Hierarchy): Map<string, XYPosition> => {
+    const slots = assignSlots(hierarchy);
+    const positions = new Map<string, XYPosition>();
+    slots.forEach((slot, id) => positions.set(id, {
+        x: Math.round(slot * ORG_COLUMN_GAP),
+        y: (hierarchy.depth.get(id) || 0) * ORG_LEVEL_GAP,
+    }));
+    return positions;
+};
+
+const radialLayout = (hierarchy: Hierarchy): Map<string, XYPosition> => {
+    const positions = new Map<string, XYPosition>();
+    const leaves = countLeaves(hierarchy);
+    const [mainRoot, ...otherRoots] = hierarchy.roots;
+
+    // Each subtree gets a wedge proportional to its leaf count
+    const place = (id: string, startAngle: number, endAngle: number) => {
+        const depth = hierarchy.depth.get(id) || 0;
+        const angle = (startAngle + endAngle) / 2;
+        positions.set(id, {
+            x: Math.round(Math.cos(angle) * depth * RADIAL_RING_GAP),
+            y: Math.round(Math.sin(angle) * depth * RADIAL_RING_GAP),
+        });
+
+        const kids = hierarchy.children.get(id) || [];
+        const total = kids.reduce((sum, kid) => sum + leaves.get(kid)!, 0);
+        let cursor = startAngle;
+        kids.forEach(kid => {
+            const span = ((endAngle - startAngle) * leaves.get(kid)!) / total;
+            place(kid, cursor, cursor + span);
+            cursor += span;
+        });
+    };
+
+    if (mainRoot) place(mainRoot, -Math.PI / 2, (3 * Math.PI) / 2);
+
+    // Disconnected groups go in a row below the circle, laid out as small trees
+    if (otherRoots.length > 0) {
+        const outerRadius = (Math.max(...Array.from(hierarchy.depth.values())) + 1) * RADIAL_RING_GAP;
+        const rest = orgLayout({ ...hierarchy, roots: otherRoots });
+        rest.forEach((pos, id) => positions.set(id, { x: pos.x - outerRadius, y: pos.y + outerRadius }));
+    }
+    return positions;
+};
+
+/**
+ * Target positions for the deterministic layouts: the same map always produces the
+ * same picture. Force layout is simulated (see useForceLayout) and returns null.
+ */
+export const computeLayout = (kind: LayoutKind, nodes: Node[], edges: Edge[], rootId?: string | null): Map<string, XYPosition> | null => {
+    if (kind === 'force' || nodes.length === 0) return null;
+    const hierarchy = buildHierarchy(nodes, edges, rootId);
+    switch (kind) {
+        case 'tree': return treeLayout(hierarchy);
+        case 'org': return orgLayout(hierarchy);
+        case 'radial': return radialLayout(hierarchy);
+    }
+};
@@ -0,0 +1,112 @@
+import { Edge, Node } from '@xyflow/react';
+import { buildHierarchy, getCollapseState, getVisibleGraph } from './graph';
+import { TaskStatus } from './tasks';
+
+/**
+ * Scores how well `query` matches `text`. A plain substring wins outright; otherwise
+ * every query character must appear in order, with bonuses for runs and word starts.
+ * Returns null when there is no match.
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+    const q = query.toLowerCase().trim();
+    const t = text.toLowerCase();
+    if (!q) return null;
+
+    const index = t.indexOf(q);
+    if (index !== -1) return 100 + (index === 0 || /\W/.test(t[index - 1]) ? 20 : 0) - Math.min(index, 20) / 10;
+
+    let score = 0;
+    let run = 0;
+    let position = 0;
+    for (const char of q) {
+        if (char === ' ') continue;
+        const found = t.indexOf(char, position);
+        if (found === -1) return null;
+        run = found === position ? run + 1 : 0;
+        score += 1 + run * 2 + (found === 0 || /\W/.test(t[found - 1]) ? 3 : 0);
+        position = found + 1;
+    }
+    // Scattered matches across a long description are mostly noise
+    return score / q.length >= 1.5 ? score : null;
+};
+
+export interface SearchMatch {
+    id: string;
+    score: number;
+}
+
+// Label matches count double so a node named after the query beats one that mentions it
+export const searchNodes = (nodes: Node[], query: string): SearchMatch[] => {
+    if (!query.trim()) return [];
+    const matches: SearchMatch[] = [];
+    nodes.forEach(n => {
+        const label = fuzzyScore(query, String(n.data.label || ''));
+        const description = fuzzyScore(query, String(n.data.description || ''));
+        if (label === null && description === null) return;
+        matches.push({ id: n.id, score: Math.max((label ?? 0) * 2, description ?? 0) });
+    });
+    return matches.sort((a, b) => b.score - a.score);
+};
+
+export interface MapFilter {
+    id: string;
+    name: string;
+    // Node carries any of these tags
+    tags?: string[];
+    // Node has one of these task statuses
+    statuses?: TaskStatus[];
+    // Depth below the root, root = 0
+    maxDepth?: number;
+}
+
+export const readTags = (data: Record<string, unknown>): string[] =>
+    Array.isArray(data.tags) ? data.tags.map(String) : [];
+
+// Every tag used on the map, for the filter editor
+export const collectTags = (nodes: Node[]): string[] =>
+    Array.from(new Set(nodes.flatMap(n => readTags(n.data)))).sort();
+
+/**
+ * Nodes a filter hides. Tag and status criteria keep matching nodes plus their
+ * ancestors, so the path to every match stays visible; depth cuts the tree off below
+ * `maxDepth`. The root is never hidden.
+ */
+export const getFilteredOutIds = (nodes: Node[], edges: Edge[], filter: MapFilter | null, rootId?: string | null): Set<string> => {
+    const hidden = new Set<string>();
+    if (!filter) return hidden;
+
+    const hierarchy = buildHierarchy(nodes, edges, rootId);
+    const tags = filter.tags?.length ? new Set(filter.tags) : null;
+    const statuses = filter.statuses?.length ? new Set(filter.statuses) : null;
+    const byId = new Map(nodes.map(n => [n.id, n]));
+
+    const matches = (id: string) => {
+        const data = byId.get(id)!.data;
+        if (tags && !readTags(data).some(tag => tags.has(tag))) return false;
+        if (statuses && !statuses.has(data.status as TaskStatus)) return false;
+        return true;
+    };
+
+    // Returns whether anything in the subtree survives
+    const walk = (id: string): boolean => {
+        const depth = hierarchy.depth.get(id) ?? 0;
+        const keptChildren = (hierarchy.children.get(id) || []).map(walk).some(Boolean);
+        const keep = depth === 0 || ((filter.maxDepth === undefined || depth <= filter.maxDepth) && (keptChildren || ((tags || statuses) ? matches(id) : true)));
+        if (!keep) hidden.add(id);
+        return keep;
+    };
+    hierarchy.roots.forEach(walk);
+
+    return hidden;
+};
+
+// Everything off the board: folded branches plus whatever the active filter hides
+export const getHiddenNodeIds = (nodes: Node[], edges: Edge[], filter: MapFilter | null, rootId?: string | null): Set<string> => {
+    const hidden = getCollapseState(nodes, edges, rootId).hiddenIds;
+    getFilteredOutIds(nodes, edges, filter, rootId).forEach(id => hidden.add(id));
+    return hidden;
+};
+
+// The nodes and edges actually on the board, which is what layouts and image export work on
+export const getBoardGraph = (nodes: Node[], edges: Edge[], filter: MapFilter | null, rootId?: string | null) =>
+    getVisibleGraph(nodes, edges, getHiddenNodeIds(nodes, edges, filter, rootId));
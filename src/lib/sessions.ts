@@ -0,0 +1,173 @@
+import { collection, deleteDoc, doc, getDoc, getDocs, setDoc, updateDoc } from 'firebase/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@/lib/firebase';
+import { copySharedMap, deleteSharedMap, listSharedMaps, removeMember, renameSharedMap } from '@/lib/collab/sharing';
+import { CollabUser, MapRole, SharedMap, roleOf } from '@/lib/collab/types';
+
+export const LOCAL_SESSION_PREFIX = 'idea-ai-session-';
+
+export type SessionSource = 'local' | 'cloud' | 'shared';
+
+export interface SessionSummary {
+    id: string;
+    source: SessionSource;
+    goal: string;
+    /** User-chosen display name; falls back to the goal */
+    title?: string;
+    nodeCount: number;
+    nodeLabels: string[];
+    updatedAt: number;
+    /** Shared maps only: the user's role, whether they own it, and whether the invite is still unanswered */
+    role?: MapRole;
+    isOwner?: boolean;
+    pending?: boolean;
+}
+
+// Stored session documents (localStorage JSON or Firestore doc) - only the fields the library reads
+interface StoredSession {
+    goal?: string;
+    title?: string;
+    nodes?: { data?: { label?: unknown } }[];
+    updatedAt?: number;
+    timestamp?: number;
+}
+
+const summarize = (id: string, source: SessionSource, data: StoredSession): SessionSummary => {
+    const nodes = Array.isArray(data.nodes) ? data.nodes : [];
+    return {
+        id,
+        source,
+        goal: data.goal || '',
+        title: data.title,
+        nodeCount: nodes.length,
+        nodeLabels: nodes.map(n => String(n.data?.label ?? '')).filter(Boolean),
+        // The landing page writes `timestamp`; the workspace autosave writes `updatedAt`
+        updatedAt: data.updatedAt ?? data.timestamp ?? 0,
+    };
+};
+
+const sessionDoc = (uid: string, id: string) => doc(db, 'users', uid, 'sessions', id);
+
+export const listLocalSessions = (): SessionSummary[] => {
+    if (typeof window === 'undefined') return [];
+
+    const sessions: SessionSummary[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (!key || !key.startsWith(LOCAL_SESSION_PREFIX)) continue;
+        try {
+            const data = JSON.parse(localStorage.getItem(key) || '{}') as StoredSession;
+            sessions.push(summarize(key.slice(LOCAL_SESSION_PREFIX.length), 'local', data));
+        } catch (e) {
+            console.warn(`Skipping unreadable session ${key}`, e);
+        }
+    }
+    return sessions;
+};
+
+export const listCloudSessions = async (uid: string): Promise<SessionSummary[]> => {
+    const snapshot = await getDocs(collection(db, 'users', uid, 'sessions'));
+    return snapshot.docs.map(d => summarize(d.id, 'cloud', d.data() as StoredSession));
+};
+
+const summarizeShared = (map: SharedMap, user: CollabUser): SessionSummary => ({
+    id: map.id,
+    source: 'shared',
+    goal: map.goal,
+    title: map.title,
+    nodeCount: map.nodeCount,
+    nodeLabels: map.nodeLabels,
+    updatedAt: map.updatedAt,
+    role: roleOf(map, user) ?? undefined,
+    isOwner: map.ownerId === user.uid,
+    pending: !map.members[user.uid],
+});
+
+export const listSharedSessions = async (user: CollabUser): Promise<SessionSummary[]> =>
+    (await listSharedMaps(user)).map(map => summarizeShared(map, user));
+
+/** Every session the current user can open, newest first. */
+export const listSessions = async (user?: CollabUser | null): Promise<SessionSummary[]> => {
+    const local = listLocalSessions();
+    let cloud: SessionSummary[] = [];
+    let shared: SessionSummary[] = [];
+    if (user) {
+        try {
+            cloud = await listCloudSessions(user.uid);
+        } catch (e) {
+            console.error("Could not list cloud sessions", e);
+        }
+        try {
+            shared = await listSharedSessions(user);
+        } catch (e) {
+            console.error("Could not list shared maps", e);
+        }
+    }
+    return [...local, ...cloud, ...shared].sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/** Case-insensitive match of every query word against the title, goal and node labels. */
+export const searchSessions = (sessions: SessionSummary[], query: string): SessionSummary[] => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return sessions;
+
+    return sessions.filter(s => {
+        const haystack = [s.title || '', s.goal, ...s.nodeLabels].join('\n').toLowerCase();
+        return terms.every(t => haystack.includes(t));
+    });
+};
+
+export const renameSession = async (session: SessionSummary, title: string, uid?: string): Promise<void> => {
+    const updatedAt = Date.now();
+    if (session.source === 'shared') {
+        await renameSharedMap(session.id, title);
+        return;
+    }
+    if (session.source === 'cloud') {
+        if (!uid) throw new Error('Sign in to rename cloud sessions');
+        await updateDoc(sessionDoc(uid, session.id), { title, updatedAt });
+        return;
+    }
+    const key = `${LOCAL_SESSION_PREFIX}${session.id}`;
+    const data = JSON.parse(localStorage.getItem(key) || '{}');
+    localStorage.setItem(key, JSON.stringify({ ...data, title, updatedAt }));
+};
+
+/** Copies a session (in the same backend; shared maps into a private cloud session) under a new id and returns that id. */
+export const duplicateSession = async (session: SessionSummary, uid?: string): Promise<string> => {
+    if (session.source === 'shared') {
+        if (!uid) throw new Error('Sign in to duplicate shared maps');
+        return copySharedMap(session.id, uid);
+    }
+    const newId = uuidv4();
+    const title = `${session.title || session.goal} (Copy)`;
+    const updatedAt = Date.now();
+
+    if (session.source === 'cloud') {
+        if (!uid) throw new Error('Sign in to duplicate cloud sessions');
+        const original = await getDoc(sessionDoc(uid, session.id));
+        if (!original.exists()) throw new Error('Session no longer exists');
+        await setDoc(sessionDoc(uid, newId), { ...original.data(), id: newId, title, updatedAt });
+        return newId;
+    }
+
+    const data = JSON.parse(localStorage.getItem(`${LOCAL_SESSION_PREFIX}${session.id}`) || '{}');
+    localStorage.setItem(`${LOCAL_SESSION_PREFIX}${newId}`, JSON.stringify({ ...data, id: newId, title, updatedAt }));
+    return newId;
+};
+
+/** Deletes the session; on a shared map only the owner deletes it, anyone else leaves it. */
+export const deleteSession = async (session: SessionSummary, uid?: string): Promise<void> => {
+    if (session.source === 'shared') {
+        if (!uid) throw new Error('Sign in to change shared maps');
+        if (session.isOwner) await deleteSharedMap(session.id);
+        else await removeMember(session.id, uid);
+        return;
+    }
+    if (session.source === 'cloud') {
+        if (!uid) throw new Error('Sign in to delete cloud sessions');
+        await deleteDoc(sessionDoc(uid, session.id));
+        return;
+    }
+    localStorage.removeItem(`${LOCAL_SESSION_PREFIX}${session.id}`);
+};
@@ -0,0 +1,421 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createHistoryStep, runInHistoryStep, selectTopologyKey, useStore } from './store';
+import { bakeryMap } from '@/services/__fixtures__/maps';
+import { toEdgeDoc, toNodeDoc } from './collab/documents';
+
+const labels = () => useStore.getState().nodes.map(n => n.data.label);
+
+const byLabel = (label: string) => useStore.getState().nodes.find(n => n.data.label === label);
+
+const hasEdge = (source: string, target: string) =>
+  useStore.getState().edges.some(e => e.source === source && e.target === target);
+
+beforeEach(() => {
+  useStore.setState(useStore.getInitialState(), true);
+  useStore.setState(bakeryMap());
+  vi.spyOn(console, 'log').mockImplementation(() => { });
+});
+
+describe('setMindMapFromJSON', () => {
+  it('adds new nodes with fresh ids and remaps their edges', () => {
+    useStore.getState().setMindMapFromJSON({
+      nodes: [{ id: 'n1', label: 'Menu' }, { id: 'n2', label: 'Sourdough', description: 'Starter • Proofing' }],
+      edges: [{ source: 'root', target: 'n1' }, { source: 'n1', target: 'n2' }],
+    });
+
+    const menu = byLabel('Menu')!;
+    const sourdough = byLabel('Sourdough')!;
+    expect(menu.id).not.toBe('n1');
+    expect(menu.type).toBe('expandable');
+    expect(sourdough.data.description).toBe('Starter • Proofing');
+    expect(hasEdge('root', menu.id)).toBe(true);
+    expect(hasEdge(menu.id, sourdough.id)).toBe(true);
+  });
+
+  it('dedupes by label against the map and within the same update', () => {
+    useStore.getState().setMindMapFromJSON({
+      nodes: [
+        { id: 'n1', label: '  budget ', description: 'Costs • Grants' },
+        { id: 'n2', label: 'Grants' },
+        { id: 'n3', label: 'GRANTS' },
+      ],
+      edges: [{ source: 'n1', target: 'n2' }, { source: 'n1', target: 'n3' }],
+    });
+
+    expect(labels().filter(l => String(l).toLowerCase() === 'grants')).toHaveLength(1);
+    expect(byLabel('Budget')!.data.description).toBe('Costs • Grants');
+    expect(useStore.getState().edges.filter(e => e.target === byLabel('Grants')!.id)).toHaveLength(1);
+  });
+
+  it('never adds self-loops or edges the map already has', () => {
+    const before = useStore.getState().edges.length;
+    useStore.getState().setMindMapFromJSON({
+      nodes: [{ id: 'n1', label: 'Marketing' }],
+      edges: [{ source: 'aspect-2', target: 'n1' }, { source: 'root', target: 'aspect-1' }],
+    });
+
+    expect(useStore.getState().edges).toHaveLength(before);
+  });
+
+  it('gives edges merged in the same millisecond distinct ids', () => {
+    vi.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+    ['Menu', 'Staff', 'Permits'].forEach(label => useStore.getState().setMindMapFromJSON({
+      nodes: [{ id: 'n1', label }],
+      edges: [{ source: 'root', target: 'n1' }],
+    }));
+    useStore.getState().setMindMapFromJSON({ nodes: [{ id: 'n1', label: 'Insurance' }, { id: 'n2', label: 'Leases' }], edges: [] });
+    vi.mocked(Date.now).mockRestore();
+
+    const ids = useStore.getState().edges.map(e => e.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('connects orphaned new nodes to the root', () => {
+    useStore.getState().setMindMapFromJSON({ nodes: [{ id: 'n1', label: 'Insurance' }], edges: [] });
+
+    expect(hasEdge('root', byLabel('Insurance')!.id)).toBe(true);
+  });
+
+  it('falls back to the root when an edge names an unknown source', () => {
+    useStore.getState().setMindMapFromJSON({
+      nodes: [{ id: 'n1', label: 'Insurance' }],
+      edges: [{ source: 'does-not-exist', target: 'n1' }],
+    });
+
+    expect(hasEdge('root', byLabel('Insurance')!.id)).toBe(true);
+    expect(useStore.getState().edges.filter(e => e.target === byLabel('Insurance')!.id)).toHaveLength(1);
+  });
+
+  it('skips nodes without a label', () => {
+    const before = useStore.getState().nodes.length;
+    useStore.getState().setMindMapFromJSON({ nodes: [{ id: 'n1', label: '   ' }, { id: 'n2' }], edges: [] });
+
+    expect(useStore.getState().nodes).toHaveLength(before);
+  });
+
+  it('updates the root and explicit nodeUpdates in place', () => {
+    useStore.getState().setMindMapFromJSON({
+      nodes: [{ id: 'root', label: 'Open two bakeries' }],
+      edges: [],
+      nodeUpdates: [{ id: 'aspect-3', description: 'Two sites • Shared kitchen' }],
+    });
+
+    expect(useStore.getState().nodes.find(n => n.id === 'root')!.data.label).toBe('Open two bakeries');
+    expect(useStore.getState().nodes.find(n => n.id === 'aspect-3')!.data.description).toBe('Two sites • Shared kitchen');
+  });
+
+  it('is a single undo step', () => {
+    const before = useStore.getState().nodes;
+    useStore.getState().setMindMapFromJSON({ nodes: [{ id: 'n1', label: 'Insurance' }], edges: [] });
+    useStore.getState().undo();
+
+    expect(useStore.getState().nodes).toBe(before);
+  });
+
+  it('stages the update instead of merging it in review mode', () => {
+    const before = useStore.getState().nodes;
+    useStore.setState({ reviewMode: true });
+    useStore.getState().setMindMapFromJSON({ nodes: [{ id: 'n1', label: 'Insurance' }], edges: [{ source: 'aspect-1', target: 'n1' }] });
+
+    expect(useStore.getState().nodes).toBe(before);
+    expect(useStore.getState().staged.nodes.map(n => n.data.label)).toEqual(['Insurance']);
+    expect(useStore.getState().staged.edges.map(e => e.source)).toEqual(['aspect-1']);
+  });
+
+  it('records no undo step when accepting a proposal that is gone', () => {
+    useStore.setState({ reviewMode: true });
+    useStore.getState().setMindMapFromJSON({ nodes: [{ id: 'n1', label: 'Insurance' }], edges: [{ source: 'aspect-1', target: 'n1' }] });
+    const past = useStore.getState().past;
+
+    useStore.getState().acceptStagedItem('node', 'missing');
+    useStore.getState().acceptStagedItem('description', 'missing');
+    useStore.getState().acceptStagedItem('edge', useStore.getState().staged.edges[0].id);
+
+    expect(useStore.getState().past).toBe(past);
+  });
+});
+
+describe('mergeNodes', () => {
+  it('combines descriptions and tags and moves every edge to the target', () => {
+    useStore.getState().setMindMapFromJSON({
+      nodes: [{ id: 'n1', label: 'Social media', description: 'Reels' }, { id: 'n2', label: 'TikTok' }],
+      edges: [{ source: 'aspect-3', target: 'n1' }, { source: 'n1', target: 'n2' }],
+    });
+    const social = byLabel('Social media')!.id;
+    useStore.getState().updateNodeData(social, { tags: ['online'] });
+    useStore.getState().updateNodeData('aspect-2', { tags: ['launch'] });
+
+    useStore.getState().mergeNodes('aspect-2', [social]);
+
+    expect(byLabel('Social media')).toBeUndefined();
+    expect(byLabel('Marketing')!.data.description).toBe('Social media • Opening event\n\nReels');
+    expect(byLabel('Marketing')!.data.tags).toEqual(['launch', 'online']);
+    expect(hasEdge('aspect-3', 'aspect-2')).toBe(true);
+    expect(hasEdge('aspect-2', byLabel('TikTok')!.id)).toBe(true);
+  });
+
+  it('drops edges that would close a cycle when a node is merged into its descendant', () => {
+    const instagram = 'node-1700000000000-0-new';
+    useStore.getState().mergeNodes(instagram, ['aspect-2']);
+    const { edges } = useStore.getState();
+
+    expect(hasEdge('root', instagram)).toBe(true);
+    expect(edges.some(e => e.source === e.target)).toBe(false);
+    expect(edges.filter(e => e.target === instagram)).toHaveLength(1);
+  });
+
+  it('never folds the root away', () => {
+    useStore.getState().mergeNodes('aspect-1', ['root']);
+
+    expect(useStore.getState().nodes.some(n => n.id === 'root')).toBe(true);
+    expect(useStore.getState().past).toHaveLength(0);
+  });
+});
+
+describe('duplicateNode', () => {
+  it('attaches the copy to the same parents', () => {
+    useStore.getState().duplicateNode('aspect-2');
+    const copy = byLabel('Marketing (Copy)')!;
+
+    expect(hasEdge('root', copy.id)).toBe(true);
+    expect(useStore.getState().edges.filter(e => e.source === copy.id)).toHaveLength(0);
+  });
+});
+
+describe('cross-links', () => {
+  const addLink = () => useStore.setState((state) => ({
+    edges: [...state.edges, { id: 'link-1', source: 'aspect-2', target: 'aspect-1', data: { kind: 'dependency' } }],
+  }));
+
+  it('leaves the tree alone when the linked branch is deleted or merged', () => {
+    addLink();
+    useStore.getState().deleteNode('aspect-2');
+
+    expect(byLabel('Budget')).toBeDefined();
+    expect(useStore.getState().edges.some(e => e.id === 'link-1')).toBe(false);
+  });
+
+  it('keeps a link pointing back up the tree when nodes are merged', () => {
+    useStore.setState((state) => ({
+      edges: [...state.edges, { id: 'link-1', source: 'node-1700000000000-0-new', target: 'aspect-3', data: { kind: 'related' } }],
+    }));
+    useStore.getState().mergeNodes('aspect-3', ['aspect-2']);
+
+    expect(useStore.getState().edges.find(e => e.id === 'link-1')).toBeDefined();
+    expect(hasEdge('aspect-3', 'node-1700000000000-0-new')).toBe(true);
+  });
+
+  it('edits kind and label as one undo step each and drops an empty label', () => {
+    addLink();
+    useStore.getState().updateEdgeData('link-1', { kind: 'contradicts', label: 'clashes' });
+    useStore.getState().updateEdgeData('link-1', { label: '' });
+
+    expect(useStore.getState().edges.find(e => e.id === 'link-1')?.data).toEqual({ kind: 'contradicts' });
+    expect(useStore.getState().past).toHaveLength(2);
+  });
+
+  it('tells the AI about links but not about the kind of tree edges', () => {
+    addLink();
+    const { edges } = JSON.parse(useStore.getState().getMindMapAsJSON());
+
+    expect(edges[0]).toEqual({ source: 'root', target: 'aspect-1' });
+    expect(edges[edges.length - 1]).toEqual({ source: 'aspect-2', target: 'aspect-1', kind: 'dependency' });
+  });
+
+  it('does not place new topics by their links', () => {
+    useStore.getState().setMindMapFromJSON({
+      nodes: [{ id: 'n1', label: 'Bank loan' }],
+      edges: [{ source: 'aspect-4', target: 'n1', kind: 'dependency' }],
+    });
+    const loan = byLabel('Bank loan')!.id;
+
+    expect(hasEdge('root', loan)).toBe(true);
+    expect(useStore.getState().edges.find(e => e.source === 'aspect-4' && e.target === loan)?.data).toEqual({ kind: 'dependency' });
+  });
+});
+
+describe('graph integrity', () => {
+  it('keeps a descendant that another branch still leads to', () => {
+    useStore.getState().setTreeMode(false);
+    useStore.getState().onConnect({ source: 'aspect-3', target: 'node-1700000000000-0-new', sourceHandle: null, targetHandle: null });
+    useStore.getState().deleteNode('aspect-2');
+
+    expect(byLabel('Marketing')).toBeUndefined();
+    expect(byLabel('Instagram campaign')).toBeDefined();
+    expect(hasEdge('aspect-3', 'node-1700000000000-0-new')).toBe(true);
+  });
+
+  it('turns a second parent into a link in tree mode', () => {
+    useStore.getState().onConnect({ source: 'aspect-3', target: 'node-1700000000000-0-new', sourceHandle: null, targetHandle: null });
+    const edge = useStore.getState().edges.find(e => e.source === 'aspect-3' && e.target === 'node-1700000000000-0-new');
+
+    expect(edge?.data).toEqual({ kind: 'related' });
+  });
+
+  it('refuses to reconnect a parent edge into a cycle', () => {
+    const moved = useStore.getState().reconnectEdge('edge-root-aspect-2', 'node-1700000000000-0-new', 'aspect-2');
+
+    expect(moved).toBe(false);
+    expect(hasEdge('root', 'aspect-2')).toBe(true);
+    expect(useStore.getState().past).toHaveLength(0);
+  });
+
+  it('re-roots the map by flipping the path from the old root', () => {
+    useStore.getState().makeRoot('node-1700000000000-0-new');
+
+    expect(useStore.getState().rootId).toBe('node-1700000000000-0-new');
+    expect(hasEdge('node-1700000000000-0-new', 'aspect-2')).toBe(true);
+    expect(hasEdge('aspect-2', 'root')).toBe(true);
+    expect(hasEdge('root', 'aspect-1')).toBe(true);
+
+    useStore.getState().undo();
+    expect(hasEdge('root', 'aspect-2')).toBe(true);
+  });
+
+  it('changes the layout topology when re-rooting or reconnecting, but not when moving', () => {
+    const topology = () => selectTopologyKey(useStore.getState());
+    const initial = topology();
+
+    useStore.getState().applyNodePositions(new Map([['aspect-1', { x: 500, y: 500 }]]));
+    expect(topology()).toBe(initial);
+
+    useStore.getState().makeRoot('aspect-2');
+    const rerooted = topology();
+    expect(rerooted).not.toBe(initial);
+
+    useStore.getState().reconnectEdge('edge-root-aspect-1', 'aspect-3', 'aspect-1');
+    expect(topology()).not.toBe(rerooted);
+  });
+
+  it('drops edges left behind by a node that is removed', () => {
+    useStore.getState().setNodes(useStore.getState().nodes.filter(n => n.id !== 'aspect-4'));
+    expect(useStore.getState().edges.some(e => e.target === 'aspect-4')).toBe(false);
+  });
+});
+
+describe('history steps', () => {
+  const addTopic = (step: ReturnType<typeof createHistoryStep>, label: string) =>
+    runInHistoryStep(step, () => useStore.getState().setMindMapFromJSON({
+      nodes: [{ id: 'n1', label }],
+      edges: [{ source: 'root', target: 'n1' }],
+    }));
+
+  it('undoes every go of a step at once', () => {
+    const before = useStore.getState().nodes;
+    const step = createHistoryStep();
+    addTopic(step, 'Menu');
+    addTopic(step, 'Staff');
+
+    expect(useStore.getState().past).toHaveLength(1);
+    useStore.getState().undo();
+    expect(useStore.getState().nodes).toBe(before);
+  });
+
+  it('keeps edits the user made in between out of the step', () => {
+    const step = createHistoryStep();
+    addTopic(step, 'Menu');
+    useStore.getState().updateNodeData('aspect-1', { label: 'Renamed' });
+    addTopic(step, 'Staff');
+
+    expect(useStore.getState().past).toHaveLength(3);
+    useStore.getState().undo();
+    expect(byLabel('Staff')).toBeUndefined();
+    expect(byLabel('Renamed')).toBeDefined();
+  });
+
+  it('records again after an undo in the middle of the step', () => {
+    const step = createHistoryStep();
+    addTopic(step, 'Menu');
+    useStore.getState().undo();
+    addTopic(step, 'Staff');
+
+    expect(useStore.getState().past).toHaveLength(1);
+    useStore.getState().undo();
+    expect(byLabel('Staff')).toBeUndefined();
+  });
+});
+
+describe('undo history', () => {
+  const drag = (x: number, dragging: boolean) =>
+    useStore.getState().onNodesChange([{ id: 'aspect-1', type: 'position', position: { x, y: 0 }, dragging }]);
+
+  it('undoes a whole drag as one step', () => {
+    drag(10, true);
+    drag(20, true);
+    drag(30, false);
+
+    expect(useStore.getState().past).toHaveLength(1);
+    useStore.getState().undo();
+    expect(byLabel('Budget')!.position).toEqual({ x: 0, y: 0 });
+  });
+
+  it('undoes a deletion from the board, edges included, in one step', () => {
+    const connected = useStore.getState().edges.filter(e => e.source === 'aspect-2' || e.target === 'aspect-2');
+    useStore.getState().onEdgesChange(connected.map(e => ({ id: e.id, type: 'remove' as const })));
+    useStore.getState().onNodesChange([{ id: 'aspect-2', type: 'remove' }]);
+
+    expect(useStore.getState().past).toHaveLength(1);
+    useStore.getState().undo();
+    expect(byLabel('Marketing')).toBeDefined();
+    expect(hasEdge('root', 'aspect-2')).toBe(true);
+    expect(hasEdge('aspect-2', 'node-1700000000000-0-new')).toBe(true);
+  });
+
+  it('undoes and redoes a cascading delete as one step', () => {
+    const before = useStore.getState().nodes;
+    useStore.getState().deleteNode('aspect-2');
+    expect(byLabel('Instagram campaign')).toBeUndefined();
+
+    useStore.getState().undo();
+    expect(useStore.getState().nodes).toBe(before);
+    expect(hasEdge('aspect-2', 'node-1700000000000-0-new')).toBe(true);
+
+    useStore.getState().redo();
+    expect(byLabel('Marketing')).toBeUndefined();
+    expect(byLabel('Instagram campaign')).toBeUndefined();
+  });
+
+  it('clears redo after a new edit', () => {
+    useStore.getState().updateNodeData('aspect-1', { label: 'Funding' });
+    useStore.getState().undo();
+    expect(useStore.getState().future).toHaveLength(1);
+
+    useStore.getState().updateNodeData('aspect-3', { label: 'Site' });
+    expect(useStore.getState().future).toHaveLength(0);
+    useStore.getState().redo();
+    expect(byLabel('Budget')).toBeDefined();
+  });
+});
+
+describe('remote changes on a shared map', () => {
+  const remoteNode = { id: 'remote-1', type: 'expandable', position: { x: 0, y: 0 }, data: { label: 'Supplier' } };
+  const remoteEdge = { id: 'edge-remote-1', source: 'aspect-1', target: 'remote-1' };
+
+  it('keeps a collaborator\'s node when undoing an edit made before it arrived', () => {
+    useStore.getState().addNode('Menu', 'root');
+    useStore.getState().applyRemoteGraph([{ id: 'remote-1', doc: toNodeDoc(remoteNode) }], [{ id: remoteEdge.id, doc: toEdgeDoc(remoteEdge) }]);
+
+    useStore.getState().undo();
+    expect(byLabel('Menu')).toBeUndefined();
+    expect(byLabel('Supplier')).toBeDefined();
+    expect(hasEdge('aspect-1', 'remote-1')).toBe(true);
+
+    useStore.getState().redo();
+    expect(byLabel('Menu')).toBeDefined();
+    expect(byLabel('Supplier')).toBeDefined();
+  });
+
+  it('keeps a collaborator\'s edit and removal through an undo', () => {
+    useStore.getState().addNode('Menu', 'root');
+    const budget = byLabel('Budget')!;
+    useStore.getState().applyRemoteGraph([
+      { id: 'aspect-1', doc: toNodeDoc({ ...budget, data: { ...budget.data, label: 'Funding' } }) },
+      { id: 'aspect-4' },
+    ], []);
+
+    useStore.getState().undo();
+    expect(byLabel('Funding')).toBeDefined();
+    expect(byLabel('Equipment')).toBeUndefined();
+    expect(hasEdge('root', 'aspect-4')).toBe(false);
+  });
+});
@@ -1,4 +1,4 @@
-import { create } from 'zustand';
+import { StateCreator, create } from 'zustand';
 import {
     Connection,
     Edge,
@@ -9,10 +9,19 @@ import {
     OnNodesChange,
     OnEdgesChange,
     OnConnect,
+    XYPosition,
     applyNodeChanges,
     applyEdgeChanges,
 } from '@xyflow/react';
 import { v4 as uuidv4 } from 'uuid';
+import type { MapDocument } from './formats';
+import type { LayoutKind } from './layouts';
+import { EdgeKind, buildHierarchy, edgeEndpointsKey, findRootId, getAncestorIds, isHierarchyEdge, readEdgeKind, readEdgeLabel } from './graph';
+import type { TaskFields } from './tasks';
+import { MapFilter, readTags } from './search';
+import { enforceGraphIntegrity, wouldCreateCycle } from './integrity';
+import { Collaborator, MapAccess, canEditMap } from './collab/types';
+import { DocChange, applyEdgeDocs, applyNodeDocs } from './collab/documents';
 
 export type Role = 'user' | 'assistant' | 'system';
 
@@ -24,6 +33,84 @@ export interface Message {
     options?: string[];
 }
 
+// Everything undo/redo restores. Arrays are replaced immutably, so snapshots are cheap references.
+export interface HistorySnapshot {
+    nodes: Node[];
+    edges: Edge[];
+    rootId: string | null;
+    messages: Message[];
+    goal: string;
+}
+
+// AI proposals waiting for review. Staged nodes/edges are rendered as ghosts and
+// only reach `nodes`/`edges` once accepted.
+export interface StagedChanges {
+    nodes: Node[];
+    edges: Edge[];
+    descriptionUpdates: { nodeId: string; description: string }[];
+}
+
+export interface NodeDataPatch extends TaskFields {
+    label?: string;
+    description?: string;
+    tags?: string[];
+}
+
+export type StagedItemKind = 'node' | 'edge' | 'description';
+
+export interface BranchExpansion {
+    /** AI calls finished so far, out of `total` (which shrinks when the model returns fewer topics) */
+    done: number;
+    total: number;
+    /** Node currently being expanded */
+    label: string;
+}
+
+const EMPTY_STAGED: StagedChanges = { nodes: [], edges: [], descriptionUpdates: [] };
+
+const HISTORY_LIMIT = 100;
+
+// Set between the first and last position change of a node drag
+let dragInProgress = false;
+
+/**
+ * A change made in several goes with awaits in between (an AI turn, a branch expansion) that
+ * should undo as one step. Each go runs through `runInHistoryStep`: the first one records the
+ * undo entry and later ones extend it, as long as that entry is still the latest. An edit of
+ * the user's own or an undo in between ends that, and the next go records a fresh entry, so
+ * the user's edits are never folded into the AI's.
+ */
+export interface HistoryStep {
+    entry: HistorySnapshot | null;
+}
+
+export const createHistoryStep = (): HistoryStep => ({ entry: null });
+
+// Only set while a go runs; it is synchronous, so nothing the user does can land inside it
+let activeStep: HistoryStep | null = null;
+
+export const runInHistoryStep = <T>(step: HistoryStep, mutate: () => T): T => {
+    const outer = activeStep;
+    activeStep = step;
+    try {
+        return mutate();
+    } finally {
+        activeStep = outer;
+    }
+};
+
+// React Flow deletes a selection's edges and then its nodes in two calls within the same tick;
+// both record into this step, so the whole deletion is one undo entry
+let deletionStep: HistoryStep | null = null;
+
+const inDeletionStep = (mutate: () => void) => {
+    if (!deletionStep) {
+        deletionStep = createHistoryStep();
+        queueMicrotask(() => { deletionStep = null; });
+    }
+    runInHistoryStep(deletionStep, mutate);
+};
+
 interface AppState {
     // Mind Map State
     nodes: Node[];
@@ -33,12 +120,46 @@ interface AppState {
     onConnect: OnConnect;
     addNode: (label: string, parentId?: string, type?: string, description?: string, imageUrl?: string) => void;
     deleteNode: (id: string) => void;
+    // Moves an edge's ends; refused (false) when a parent/child edge would close a cycle
+    reconnectEdge: (id: string, source: string, target: string) => boolean;
+    deleteEdge: (id: string) => void;
     duplicateNode: (id: string) => void;
+    mergeNodes: (targetId: string, sourceIds: string[]) => void;
     setNodes: (nodes: Node[]) => void;
     setEdges: (edges: Edge[]) => void;
+    // A collaborator's node and edge changes on a shared map. They land on the board and in every
+    // undo/redo snapshot, so undoing a local edit neither reverts their work nor deletes it.
+    applyRemoteGraph: (nodeChanges: DocChange[], edgeChanges: DocChange[]) => void;
+    // Layout output: moves nodes without touching history. Nodes being dragged are skipped.
+    applyNodePositions: (positions: Map<string, XYPosition>) => void;
+    // Pinned nodes keep their position in force layout (dragging a node there pins it)
+    setNodePinned: (id: string, pinned: boolean) => void;
+    // User edits from the node itself (inline label, description editor)
+    updateNodeData: (id: string, patch: NodeDataPatch) => void;
+    // Kind and label of a link; an empty label is removed
+    updateEdgeData: (id: string, patch: { kind?: EdgeKind; label?: string }) => void;
+    // Folding is view state: persisted with the nodes but not part of undo
+    toggleCollapsed: (id: string) => void;
+    collapseToDepth: (depth: number) => void;
+    expandAll: () => void;
+    // Unfolds every collapsed ancestor so the node is on the board
+    revealNode: (id: string) => void;
     // V38: Full state replacement from AI with optional node updates
-    setMindMapFromJSON: (mapData: { nodes: any[], edges: any[], nodeUpdates?: any[] }) => void;
+    setMindMapFromJSON: (mapData: MindMapJSON) => void;
     getMindMapAsJSON: () => string;
+    // Replaces the whole map with an imported document (undoable)
+    importMindMap: (doc: MapDocument) => void;
+
+    // Review State
+    reviewMode: boolean;
+    setReviewMode: (enabled: boolean) => void;
+    staged: StagedChanges;
+    stageMindMapChanges: (mapData: MindMapJSON) => void;
+    acceptStagedItem: (kind: StagedItemKind, id: string) => void;
+    rejectStagedItem: (kind: StagedItemKind, id: string) => void;
+    acceptAllStaged: () => void;
+    rejectAllStaged: () => void;
+    onStagedNodesChange: OnNodesChange;
 
     // Chat State
     messages: Message[];
@@ -48,26 +169,308 @@ interface AppState {
 
     // Session State
     goal: string;
+    // Node the tree hangs from. Maps saved before it existed start out null and get one on load.
+    rootId: string | null;
+    // Hydration setter, not undoable; makeRoot is the user action
+    setRootId: (id: string | null) => void;
+    makeRoot: (id: string) => void;
+    // Tree mode allows one parent per node; further parent edges become "related" links
+    treeMode: boolean;
+    setTreeMode: (enabled: boolean) => void;
     setGoal: (goal: string) => void;
+    layout: LayoutKind;
+    setLayout: (layout: LayoutKind) => void;
+    // Saved map filters; the active one hides non-matching branches
+    savedFilters: MapFilter[];
+    activeFilterId: string | null;
+    setSavedFilters: (filters: MapFilter[]) => void;
+    saveFilter: (filter: MapFilter) => void;
+    deleteFilter: (id: string) => void;
+    setActiveFilter: (id: string | null) => void;
+    // Node the chat is about; selecting a single node on the board sets it. Not persisted.
+    focusNodeId: string | null;
+    setFocusNode: (id: string | null) => void;
+    // Running AI branch expansions, keyed by the node they started from. Not persisted.
+    branchExpansions: Record<string, BranchExpansion>;
+    setBranchExpansion: (id: string, progress: BranchExpansion | null) => void;
+    // The shared map open in this tab and your role on it; null for a private session. Not persisted.
+    mapAccess: MapAccess | null;
+    setMapAccess: (access: MapAccess | null) => void;
+    // Other people on the shared map right now. Not persisted.
+    collaborators: Collaborator[];
+    setCollaborators: (collaborators: Collaborator[]) => void;
+
+    // History State
+    past: HistorySnapshot[];
+    future: HistorySnapshot[];
+    recordHistory: () => void;
+    clearHistory: () => void;
+    undo: () => void;
+    redo: () => void;
 }
 
-export const useStore = create<AppState>((set, get) => ({
+export const selectActiveFilter = (state: AppState): MapFilter | null =>
+    state.savedFilters.find(f => f.id === state.activeFilterId) ?? null;
+
+export const selectCanEdit = (state: AppState): boolean => canEditMap(state.mapAccess?.role ?? null);
+
+// Changes with the shape of the map (nodes added or removed, edges rewired, a new root), not with moves or edits
+export const selectTopologyKey = (state: AppState): string =>
+    `${state.rootId}#${state.nodes.length}#${edgeEndpointsKey(state.edges)}`;
+
+// The focus only counts while its node is still on the map (it may have been deleted or undone away)
+export const selectFocusNode = (state: AppState): Node | null =>
+    state.focusNodeId ? state.nodes.find(n => n.id === state.focusNodeId) ?? null : null;
+
+const takeSnapshot = (state: AppState): HistorySnapshot => ({
+    nodes: state.nodes,
+    edges: state.edges,
+    rootId: state.rootId,
+    messages: state.messages,
+    goal: state.goal,
+});
+
+export type MindMapJSON = { nodes: any[], edges: any[], nodeUpdates?: any[] };
+
+// V38: COMPREHENSIVE NODE HANDLING
+// - Detects duplicates by label
+// - Handles nodeUpdates for enriching existing descriptions
+// - Auto-connects orphaned nodes to root
+// - Always updates descriptions when AI provides new context
+// Pure planning step shared by direct merges and review staging.
+const planMindMapMerge = (currentNodes: Node[], currentEdges: Edge[], mapData: MindMapJSON, rootId: string | null) => {
+    // Create lookup maps for existing nodes
+    const existingNodeById = new Map(currentNodes.map(n => [n.id, n]));
+    const existingNodeByLabel = new Map(
+        currentNodes.map(n => [String(n.data.label || '').toLowerCase().trim(), n])
+    );
+
+    const updatedNodes: Node[] = [];
+    const newNodes: Node[] = [];
+    const idMapping: Map<string, string> = new Map();
+
+    // V38: Process nodeUpdates FIRST to update existing descriptions
+    if (mapData.nodeUpdates && Array.isArray(mapData.nodeUpdates)) {
+        mapData.nodeUpdates.forEach((update: any) => {
+            const existingNode = existingNodeById.get(update.id);
+            if (existingNode && update.description) {
+                updatedNodes.push({
+                    ...existingNode,
+                    data: {
+                        ...existingNode.data,
+                        description: update.description,
+                    }
+                });
+            }
+        });
+    }
+
+    mapData.nodes.forEach((n: any, index: number) => {
+        const normalizedLabel = String(n.label || '').toLowerCase().trim();
+
+        // Skip nodes with empty labels
+        if (!normalizedLabel) return;
+
+        // Check if node already exists
+        const existingById = existingNodeById.get(n.id);
+        const existingByLabel = existingNodeByLabel.get(normalizedLabel);
+
+        if (n.id === 'root' && existingById) {
+            // Root node: update in place
+            updatedNodes.push({
+                ...existingById,
+                data: {
+                    ...existingById.data,
+                    label: n.label || existingById.data.label,
+                    description: n.description || existingById.data.description,
+                }
+            });
+            idMapping.set(n.id, n.id);
+        } else if (existingByLabel) {
+            // Node with same label exists: map to existing ID
+            idMapping.set(n.id, existingByLabel.id);
+
+            // V38: ALWAYS update description if AI provided one (a repeat within this update keeps the first)
+            const addedInThisUpdate = newNodes.some(nn => nn.id === existingByLabel.id);
+            if (!addedInThisUpdate && n.description && n.description !== existingByLabel.data.description) {
+                // Check if we haven't already updated this node
+                const alreadyUpdated = updatedNodes.some(un => un.id === existingByLabel.id);
+                if (!alreadyUpdated) {
+                    updatedNodes.push({
+                        ...existingByLabel,
+                        data: {
+                            ...existingByLabel.data,
+                            description: n.description,
+                        }
+                    });
+                }
+            }
+        } else {
+            // Genuinely new node: create with unique ID (the goal node of a fresh map keeps "root")
+            const newId = n.id === 'root' && !existingNodeById.has('root')
+                ? 'root'
+                : `node-${Date.now()}-${index}-${Math.random().toString(36).substr(2, 5)}`;
+            idMapping.set(n.id, newId);
+
+            newNodes.push({
+                id: newId,
+                position: { x: Math.random() * 600, y: Math.random() * 400 },
+                data: {
+                    label: n.label,
+                    description: n.description || '',
+                    imageUrl: n.imageUrl
+                },
+                type: 'expandable',
+            });
+
+            // Add to label map to prevent duplicates within same response
+            existingNodeByLabel.set(normalizedLabel, {
+                id: newId,
+                position: { x: 0, y: 0 },
+                data: { label: n.label, description: n.description }
+            } as Node);
+        }
+    });
+
+    // Build final node list
+    const updatedNodeIds = new Set(updatedNodes.map(n => n.id));
+    const unchangedNodes = currentNodes.filter(n => !updatedNodeIds.has(n.id));
+    const mergedNodes = [...unchangedNodes, ...updatedNodes, ...newNodes];
+    const allNodeIds = new Set(mergedNodes.map(n => n.id));
+
+    // The designated root, or on the first turn the node the AI sent as root
+    const mapRootId = findRootId(mergedNodes, rootId);
+
+    // V38: Process edges with ID remapping AND auto-connect orphans
+    const existingEdgeKeys = new Set(currentEdges.map(e => `${e.source}-${e.target}`));
+    const newNodesNeedingEdges = new Set(newNodes.map(n => n.id));
+
+    const newEdgesFromAI: Edge[] = (mapData.edges || [])
+        .map((e: any) => {
+            let sourceId = idMapping.get(e.source) || e.source;
+            const targetId = idMapping.get(e.target) || e.target;
+            // Cross-links keep their kind; they never give a node its place in the tree
+            const kind: EdgeKind = e.kind && e.kind !== 'hierarchy' ? e.kind : 'hierarchy';
+            if (kind !== 'hierarchy') return { source: sourceId, target: targetId, kind, label: e.label };
+
+            // V38: If source doesn't exist, fall back to root
+            if (!allNodeIds.has(sourceId)) {
+                sourceId = mapRootId || 'root';
+            }
+
+            // Mark this new node as having an edge
+            newNodesNeedingEdges.delete(targetId);
+
+            return { source: sourceId, target: targetId, kind };
+        })
+        .filter((e: any) => {
+            const key = `${e.source}-${e.target}`;
+            // Only add edge if both nodes exist AND edge doesn't already exist (duplicate labels can
+            // collapse two AI edges into one, or an edge onto itself)
+            if (e.source === e.target || !allNodeIds.has(e.source) || !allNodeIds.has(e.target) || existingEdgeKeys.has(key)) {
+                return false;
+            }
+            existingEdgeKeys.add(key);
+            return true;
+        })
+        .map((e: any) => ({
+            id: `edge-${uuidv4()}`,
+            source: e.source,
+            target: e.target,
+            ...(e.kind !== 'hierarchy' ? { data: { kind: e.kind, ...(e.label ? { label: e.label } : {}) } } : {}),
+        }));
+
+    // V38: Auto-connect any orphaned new nodes to root
+    const orphanEdges: Edge[] = [];
+    if (mapRootId) {
+        newNodesNeedingEdges.forEach(orphanId => {
+            const key = `${mapRootId}-${orphanId}`;
+            if (orphanId !== mapRootId && !existingEdgeKeys.has(key)) {
+                orphanEdges.push({
+                    id: `edge-orphan-${uuidv4()}`,
+                    source: mapRootId,
+                    target: orphanId,
+                });
+            }
+        });
+    }
+
+    const mergedEdges = [...currentEdges, ...newEdgesFromAI, ...orphanEdges];
+
+    return {
+        updatedNodes,
+        newNodes,
+        newEdges: [...newEdgesFromAI, ...orphanEdges],
+        mergedNodes,
+        mergedEdges,
+        stats: { newEdges: newEdgesFromAI.length, orphanEdges: orphanEdges.length },
+    };
+};
+
+const sameNodeIds = (a: Node[], b: Node[]) => a === b || (a.length === b.length && a.every((n, i) => n.id === b[i].id));
+
+// A patch that changes the graph (edges, the node set, the root or the mode) is checked against
+// the integrity invariants before it lands; moving or editing nodes cannot break them.
+const guardGraph = (state: AppState, patch: Partial<AppState>): Partial<AppState> => {
+    const nodes = patch.nodes ?? state.nodes;
+    const touchesGraph = patch.edges !== undefined || patch.rootId !== undefined || patch.treeMode !== undefined;
+    if (!touchesGraph && sameNodeIds(nodes, state.nodes)) return patch;
+    const { edges, rootId } = enforceGraphIntegrity(nodes, patch.edges ?? state.edges, {
+        rootId: patch.rootId !== undefined ? patch.rootId : state.rootId,
+        treeMode: patch.treeMode ?? state.treeMode,
+    });
+    // A root set explicitly is kept even before its node arrives (session hydration sets it first);
+    // otherwise the store follows the root the check settled on
+    return { ...patch, edges, rootId: patch.rootId !== undefined ? patch.rootId : rootId };
+};
+
+// Every store mutation goes through `set`, so wrapping it is what makes the invariants hold
+const withGraphIntegrity = (config: StateCreator<AppState>): StateCreator<AppState> => (set, get, api) =>
+    config(
+        ((partial: Partial<AppState> | ((state: AppState) => Partial<AppState>)) =>
+            set((state) => guardGraph(state, typeof partial === 'function' ? partial(state) : partial))) as typeof set,
+        get,
+        api
+    );
+
+export const useStore = create<AppState>()(withGraphIntegrity((set, get) => ({
     nodes: [],
     edges: [],
 
     onNodesChange: (changes: NodeChange[]) => {
+        // A whole drag is one undo step, recorded when it starts
+        const isDragging = changes.some(c => c.type === 'position' && c.dragging === true);
+        const dragEnded = changes.some(c => c.type === 'position' && c.dragging === false);
+        if (isDragging && !dragInProgress) {
+            dragInProgress = true;
+            get().recordHistory();
+        }
+        if (changes.some(c => c.type === 'remove')) inDeletionStep(() => get().recordHistory());
+
         set({
             nodes: applyNodeChanges(changes, get().nodes),
         });
+
+        // In force layout a node the user placed stays where they put it
+        if (dragEnded && get().layout === 'force') {
+            const droppedIds = new Set(changes.flatMap(c => c.type === 'position' && c.dragging === false ? [c.id] : []));
+            set({
+                nodes: get().nodes.map(n => droppedIds.has(n.id) && !n.data.pinned ? { ...n, data: { ...n.data, pinned: true } } : n),
+            });
+        }
+
+        if (dragEnded) dragInProgress = false;
     },
 
     onEdgesChange: (changes: EdgeChange[]) => {
+        if (changes.some(c => c.type === 'remove')) inDeletionStep(() => get().recordHistory());
         set({
             edges: applyEdgeChanges(changes, get().edges),
         });
     },
 
     onConnect: (connection: Connection) => {
+        get().recordHistory();
         set({
             edges: addEdge(connection, get().edges),
         });
@@ -79,13 +482,12 @@ export const useStore = create<AppState>((set, get) => ({
 
         // Validation: Verify parentId exists.
         // If parentId is provided but not found, check if it's a placeholder "id-of-parent" or similar garbage from AI.
-        // Fallback: If we have nodes, link to the first one (Root).
+        // Fallback: If we have nodes, link to the root.
         let effectiveParentId = parentId;
         const parentExists = parentId ? nodes.some(n => n.id === parentId) : false;
 
         if (!parentExists) {
-            // If valid nodes exist, use the first one as root default
-            effectiveParentId = nodes.length > 0 ? nodes[0].id : undefined;
+            effectiveParentId = findRootId(nodes, get().rootId);
         }
 
         const newNode: Node = {
@@ -95,6 +497,7 @@ export const useStore = create<AppState>((set, get) => ({
             type,
         };
 
+        get().recordHistory();
         set((state) => {
             const newNodes = [...state.nodes, newNode];
             let newEdges = state.edges;
@@ -114,18 +517,31 @@ export const useStore = create<AppState>((set, get) => ({
         });
     },
 
+    // Removes the node and its branch. Cross-links point elsewhere in the map and are not followed,
+    // and a descendant that also hangs under a node outside the branch stays with that parent.
     deleteNode: (id: string) => {
+        get().recordHistory();
         set((state) => {
-            const nodesToDelete = new Set<string>();
-            const q = [id];
-
-            while (q.length > 0) {
-                const currentId = q.shift()!;
-                if (nodesToDelete.has(currentId)) continue;
-                nodesToDelete.add(currentId);
+            const treeEdges = state.edges.filter(isHierarchyEdge);
+            const walk = (starts: string[], skip: Set<string>) => {
+                const seen = new Set(starts);
+                const q = [...starts];
+                while (q.length > 0) {
+                    const currentId = q.shift()!;
+                    treeEdges.forEach(e => {
+                        if (e.source === currentId && !seen.has(e.target) && !skip.has(e.target)) {
+                            seen.add(e.target);
+                            q.push(e.target);
+                        }
+                    });
+                }
+                return seen;
+            };
 
-                state.edges.filter(e => e.source === currentId).forEach(e => q.push(e.target));
-            }
+            const branch = walk([id], new Set());
+            // Whatever the rest of the map still reaches without passing through `id` survives
+            const stillReached = walk(state.nodes.filter(n => !branch.has(n.id)).map(n => n.id), new Set([id]));
+            const nodesToDelete = new Set([...branch].filter(nodeId => !stillReached.has(nodeId)));
 
             return {
                 nodes: state.nodes.filter((n) => !nodesToDelete.has(n.id)),
@@ -134,6 +550,22 @@ export const useStore = create<AppState>((set, get) => ({
         });
     },
 
+    reconnectEdge: (id, source, target) => {
+        const { edges } = get();
+        const edge = edges.find(e => e.id === id);
+        if (!edge) return false;
+        if (isHierarchyEdge(edge) && wouldCreateCycle(edges.filter(e => e.id !== id), source, target)) return false;
+        get().recordHistory();
+        set({ edges: edges.map(e => e.id === id ? { ...e, source, target } : e) });
+        return true;
+    },
+
+    deleteEdge: (id) => {
+        if (!get().edges.some(e => e.id === id)) return;
+        get().recordHistory();
+        set((state) => ({ edges: state.edges.filter(e => e.id !== id) }));
+    },
+
     duplicateNode: (id: string) => {
         const nodeToClone = get().nodes.find(n => n.id === id);
         if (!nodeToClone) return;
@@ -150,172 +582,360 @@ export const useStore = create<AppState>((set, get) => ({
             selected: false,
         };
 
-        // We don't copy edges because it might be messy, user can reconnect
-        set((state) => ({ nodes: [...state.nodes, newNode] }));
+        // The copy hangs off the same parents as the original; its children stay with the original
+        const parentEdges: Edge[] = get().edges
+            .filter(e => e.target === id)
+            .map(e => ({ ...e, id: `e${e.source}-${newId}`, target: newId, selected: false }));
+
+        get().recordHistory();
+        set((state) => ({ nodes: [...state.nodes, newNode], edges: [...state.edges, ...parentEdges] }));
+    },
+
+    // Folds `sourceIds` into `targetId`: descriptions and tags are combined and every edge of a
+    // source moves to the target, dropping edges that would loop onto it or close a cycle.
+    // The root is never folded away.
+    mergeNodes: (targetId, sourceIds) => {
+        const { nodes, edges, focusNodeId } = get();
+        const rootId = findRootId(nodes, get().rootId);
+        const target = nodes.find(n => n.id === targetId);
+        const sources = nodes.filter(n => n.id !== targetId && n.id !== rootId && sourceIds.includes(n.id));
+        if (!target || sources.length === 0) return;
+        const sourceIdSet = new Set(sources.map(n => n.id));
+
+        const descriptions = [target, ...sources]
+            .map(n => String(n.data.description || '').trim())
+            .filter((d, i, all) => d && all.indexOf(d) === i);
+        const tags = [...new Set([target, ...sources].flatMap(n => readTags(n.data)))];
+        const mergedTarget: Node = {
+            ...target,
+            data: { ...target.data, description: descriptions.join('\n\n'), ...(tags.length > 0 ? { tags } : {}) },
+        };
+
+        // Edges between untouched nodes stay; moved edges are accepted one by one against them
+        const untouched = edges.filter(e => !sourceIdSet.has(e.source) && !sourceIdSet.has(e.target));
+        // Only parent/child edges can form a cycle that matters; a link may point back up the tree
+        const outgoing = new Map<string, string[]>();
+        const link = (from: string, to: string) => outgoing.set(from, [...(outgoing.get(from) || []), to]);
+        untouched.filter(isHierarchyEdge).forEach(e => link(e.source, e.target));
+        const edgeKey = (from: string, to: string, e: Edge) => `${from}-${to}-${readEdgeKind(e)}`;
+        const keys = new Set(untouched.map(e => edgeKey(e.source, e.target, e)));
+
+        const reaches = (from: string, to: string): boolean => {
+            const seen = new Set([from]);
+            const queue = [from];
+            while (queue.length > 0) {
+                const current = queue.shift()!;
+                if (current === to) return true;
+                (outgoing.get(current) || []).forEach(next => {
+                    if (!seen.has(next)) {
+                        seen.add(next);
+                        queue.push(next);
+                    }
+                });
+            }
+            return false;
+        };
+
+        const moved = new Map<string, Edge>();
+        edges
+            .filter(e => sourceIdSet.has(e.source) || sourceIdSet.has(e.target))
+            .forEach(e => {
+                const from = sourceIdSet.has(e.source) ? targetId : e.source;
+                const to = sourceIdSet.has(e.target) ? targetId : e.target;
+                const key = edgeKey(from, to, e);
+                const hierarchy = isHierarchyEdge(e);
+                if (from === to || keys.has(key) || (hierarchy && reaches(to, from))) return;
+                keys.add(key);
+                if (hierarchy) link(from, to);
+                moved.set(e.id, { ...e, source: from, target: to });
+            });
+
+        get().recordHistory();
+        set({
+            nodes: nodes.filter(n => !sourceIdSet.has(n.id)).map(n => n.id === targetId ? mergedTarget : n),
+            // Original order, so sibling order in the layouts does not jump
+            edges: edges.flatMap(e => moved.get(e.id) ?? (sourceIdSet.has(e.source) || sourceIdSet.has(e.target) ? [] : [e])),
+            focusNodeId: focusNodeId && sourceIdSet.has(focusNodeId) ? targetId : focusNodeId,
+        });
     },
 
     setNodes: (nodes) => set({ nodes }),
     setEdges: (edges) => set({ edges }),
 
-    // V38: COMPREHENSIVE NODE HANDLING
-    // - Detects duplicates by label
-    // - Handles nodeUpdates for enriching existing descriptions
-    // - Auto-connects orphaned nodes to root
-    // - Always updates descriptions when AI provides new context
-    setMindMapFromJSON: (mapData) => {
-        if (!mapData || !mapData.nodes) return;
+    applyRemoteGraph: (nodeChanges, edgeChanges) => {
+        const rebase = <T extends { nodes: Node[]; edges: Edge[] }>(snapshot: T): T => ({
+            ...snapshot,
+            nodes: nodeChanges.length > 0 ? applyNodeDocs(snapshot.nodes, nodeChanges) : snapshot.nodes,
+            edges: edgeChanges.length > 0 ? applyEdgeDocs(snapshot.edges, edgeChanges) : snapshot.edges,
+        });
+        const rebaseEntry = (entry: HistorySnapshot) => {
+            const rebased = rebase(entry);
+            // An AI turn in progress keeps extending its entry
+            if (activeStep?.entry === entry) activeStep.entry = rebased;
+            return rebased;
+        };
+        const state = get();
+        // Edges whose node a collaborator removed are dropped by the integrity check once a snapshot is restored
+        set({
+            ...rebase({ nodes: state.nodes, edges: state.edges }),
+            past: state.past.map(rebaseEntry),
+            future: state.future.map(rebase),
+        });
+    },
 
-        const currentNodes = get().nodes;
-        const currentEdges = get().edges;
+    applyNodePositions: (positions) => set((state) => ({
+        nodes: state.nodes.map(n => {
+            const position = positions.get(n.id);
+            return position && !n.dragging ? { ...n, position } : n;
+        }),
+    })),
 
-        // Create lookup maps for existing nodes
-        const existingNodeById = new Map(currentNodes.map(n => [n.id, n]));
-        const existingNodeByLabel = new Map(
-            currentNodes.map(n => [String(n.data.label || '').toLowerCase().trim(), n])
-        );
+    setNodePinned: (id, pinned) => {
+        get().recordHistory();
+        set((state) => ({
+            nodes: state.nodes.map(n => n.id === id ? { ...n, data: { ...n.data, pinned } } : n),
+        }));
+    },
 
-        const updatedNodes: Node[] = [];
-        const newNodes: Node[] = [];
-        const idMapping: Map<string, string> = new Map();
+    updateNodeData: (id, patch) => {
+        const node = get().nodes.find(n => n.id === id);
+        if (!node || Object.entries(patch).every(([key, value]) => JSON.stringify(node.data[key]) === JSON.stringify(value))) return;
+        get().recordHistory();
+        // Cleared fields are removed rather than stored as undefined (Firestore rejects undefined)
+        const data: Record<string, unknown> = { ...node.data, ...patch };
+        Object.keys(patch).forEach(key => {
+            if (data[key] === undefined) delete data[key];
+        });
+        set((state) => ({
+            nodes: state.nodes.map(n => n.id === id ? { ...n, data } : n),
+        }));
+    },
 
-        // V38: Process nodeUpdates FIRST to update existing descriptions
-        if (mapData.nodeUpdates && Array.isArray(mapData.nodeUpdates)) {
-            mapData.nodeUpdates.forEach((update: any) => {
-                const existingNode = existingNodeById.get(update.id);
-                if (existingNode && update.description) {
-                    updatedNodes.push({
-                        ...existingNode,
-                        data: {
-                            ...existingNode.data,
-                            description: update.description,
-                        }
-                    });
-                }
-            });
-        }
+    updateEdgeData: (id, patch) => {
+        const edge = get().edges.find(e => e.id === id);
+        if (!edge) return;
+        const data: Record<string, unknown> = { ...edge.data, ...patch };
+        if (!data.label) delete data.label;
+        // Back to a plain parent/child edge: store it the way every other tree edge is stored
+        if (data.kind === 'hierarchy') delete data.kind;
+        if (JSON.stringify(data) === JSON.stringify(edge.data ?? {})) return;
+        get().recordHistory();
+        set((state) => ({
+            edges: state.edges.map(e => e.id === id ? { ...e, data } : e),
+        }));
+    },
 
-        mapData.nodes.forEach((n: any, index: number) => {
-            const normalizedLabel = String(n.label || '').toLowerCase().trim();
+    toggleCollapsed: (id) => set((state) => ({
+        nodes: state.nodes.map(n => n.id === id ? { ...n, data: { ...n.data, collapsed: !n.data.collapsed } } : n),
+    })),
 
-            // Skip nodes with empty labels
-            if (!normalizedLabel) return;
+    // Shows `depth` levels below the root: nodes at that depth fold their branches
+    collapseToDepth: (depth) => {
+        const { nodes, edges, rootId } = get();
+        const hierarchy = buildHierarchy(nodes, edges, rootId);
+        set({
+            nodes: nodes.map(n => {
+                const collapsed = (hierarchy.depth.get(n.id) ?? 0) >= depth && (hierarchy.children.get(n.id) || []).length > 0;
+                return Boolean(n.data.collapsed) === collapsed ? n : { ...n, data: { ...n.data, collapsed } };
+            }),
+        });
+    },
 
-            // Check if node already exists
-            const existingById = existingNodeById.get(n.id);
-            const existingByLabel = existingNodeByLabel.get(normalizedLabel);
+    expandAll: () => set((state) => ({
+        nodes: state.nodes.map(n => n.data.collapsed ? { ...n, data: { ...n.data, collapsed: false } } : n),
+    })),
 
-            if (n.id === 'root' && existingById) {
-                // Root node: update in place
-                updatedNodes.push({
-                    ...existingById,
-                    data: {
-                        ...existingById.data,
-                        label: n.label || existingById.data.label,
-                        description: n.description || existingById.data.description,
-                    }
-                });
-                idMapping.set(n.id, n.id);
-            } else if (existingByLabel) {
-                // Node with same label exists: map to existing ID
-                idMapping.set(n.id, existingByLabel.id);
-
-                // V38: ALWAYS update description if AI provided one
-                if (n.description && n.description !== existingByLabel.data.description) {
-                    // Check if we haven't already updated this node
-                    const alreadyUpdated = updatedNodes.some(un => un.id === existingByLabel.id);
-                    if (!alreadyUpdated) {
-                        updatedNodes.push({
-                            ...existingByLabel,
-                            data: {
-                                ...existingByLabel.data,
-                                description: n.description,
-                            }
-                        });
-                    }
-                }
-            } else {
-                // Genuinely new node: create with unique ID
-                const newId = `node-${Date.now()}-${index}-${Math.random().toString(36).substr(2, 5)}`;
-                idMapping.set(n.id, newId);
+    revealNode: (id) => {
+        const { nodes, edges, rootId } = get();
+        const ancestors = new Set(getAncestorIds(buildHierarchy(nodes, edges, rootId), id));
+        if (!nodes.some(n => ancestors.has(n.id) && n.data.collapsed)) return;
+        set({
+            nodes: nodes.map(n => ancestors.has(n.id) && n.data.collapsed ? { ...n, data: { ...n.data, collapsed: false } } : n),
+        });
+    },
 
-                newNodes.push({
-                    id: newId,
-                    position: { x: Math.random() * 600, y: Math.random() * 400 },
-                    data: {
-                        label: n.label,
-                        description: n.description || '',
-                        imageUrl: n.imageUrl
-                    },
-                    type: 'expandable',
-                });
+    setMindMapFromJSON: (mapData) => {
+        if (!mapData || !mapData.nodes) return;
 
-                // Add to label map to prevent duplicates within same response
-                existingNodeByLabel.set(normalizedLabel, {
-                    id: newId,
-                    position: { x: 0, y: 0 },
-                    data: { label: n.label, description: n.description }
-                } as Node);
-            }
-        });
+        // Review mode: propose instead of merging (an empty map has nothing to protect, so the goal node goes straight in)
+        if (get().reviewMode && get().nodes.length > 0) {
+            get().stageMindMapChanges(mapData);
+            return;
+        }
 
-        // Build final node list
-        const updatedNodeIds = new Set(updatedNodes.map(n => n.id));
-        const unchangedNodes = currentNodes.filter(n => !updatedNodeIds.has(n.id));
-        const mergedNodes = [...unchangedNodes, ...updatedNodes, ...newNodes];
-        const allNodeIds = new Set(mergedNodes.map(n => n.id));
-
-        // V38: Process edges with ID remapping AND auto-connect orphans
-        const existingEdgeKeys = new Set(currentEdges.map(e => `${e.source}-${e.target}`));
-        const newNodesNeedingEdges = new Set(newNodes.map(n => n.id));
-
-        const newEdgesFromAI: Edge[] = (mapData.edges || [])
-            .map((e: any, index: number) => {
-                let sourceId = idMapping.get(e.source) || e.source;
-                const targetId = idMapping.get(e.target) || e.target;
-
-                // V38: If source doesn't exist, fall back to root
-                if (!allNodeIds.has(sourceId)) {
-                    // Find root node
-                    const rootNode = mergedNodes.find(n => n.id.includes('root') || mergedNodes.indexOf(n) === 0);
-                    sourceId = rootNode?.id || 'root';
-                }
+        const { updatedNodes, newNodes, mergedNodes, mergedEdges, stats } = planMindMapMerge(get().nodes, get().edges, mapData, get().rootId);
+
+        console.log(`V38: Added ${newNodes.length} new nodes, ${stats.newEdges} edges, ${stats.orphanEdges} orphan edges. Updated ${updatedNodes.length} descriptions.`);
+        get().recordHistory();
+        set({ nodes: mergedNodes, edges: mergedEdges });
+    },
 
-                // Mark this new node as having an edge
-                newNodesNeedingEdges.delete(targetId);
-
-                return { source: sourceId, target: targetId, index };
-            })
-            .filter((e: any) => {
-                const key = `${e.source}-${e.target}`;
-                // Only add edge if both nodes exist AND edge doesn't already exist
-                return allNodeIds.has(e.source) && allNodeIds.has(e.target) && !existingEdgeKeys.has(key);
-            })
-            .map((e: any) => ({
-                id: `edge-${Date.now()}-${e.index}`,
+    importMindMap: (doc) => {
+        // Files from other tools carry no positions; lay those nodes out on a simple grid
+        const nodes: Node[] = doc.nodes.map((n, index) => ({
+            id: n.id,
+            position: n.position || { x: (index % 6) * 250, y: Math.floor(index / 6) * 150 },
+            data: { label: n.label, description: n.description || '' },
+            type: 'expandable',
+        }));
+        const nodeIds = new Set(nodes.map(n => n.id));
+        const edges: Edge[] = doc.edges
+            .filter(e => nodeIds.has(e.source) && nodeIds.has(e.target))
+            .map((e, index) => ({
+                id: `edge-import-${index}-${e.source}-${e.target}`,
                 source: e.source,
                 target: e.target,
+                ...(e.kind && e.kind !== 'hierarchy' ? { data: { kind: e.kind, ...(e.label ? { label: e.label } : {}) } } : {}),
             }));
 
-        // V38: Auto-connect any orphaned new nodes to root
-        const rootNode = mergedNodes.find(n => n.id.includes('root') || mergedNodes.indexOf(n) === 0);
-        const orphanEdges: Edge[] = [];
-        if (rootNode) {
-            newNodesNeedingEdges.forEach(orphanId => {
-                const key = `${rootNode.id}-${orphanId}`;
-                if (!existingEdgeKeys.has(key)) {
-                    orphanEdges.push({
-                        id: `edge-orphan-${Date.now()}-${orphanId}`,
-                        source: rootNode.id,
-                        target: orphanId,
-                    });
-                }
+        // The file's own root when it names one, else the first node nothing hangs from
+        const rootId = doc.rootId && nodeIds.has(doc.rootId)
+            ? doc.rootId
+            : nodes.find(n => !edges.some(e => e.target === n.id && isHierarchyEdge(e)))?.id ?? null;
+
+        get().recordHistory();
+        set({ nodes, edges, rootId, goal: doc.goal || get().goal, staged: EMPTY_STAGED });
+    },
+
+    reviewMode: false,
+    setReviewMode: (enabled) => {
+        // Leaving review mode must not silently drop proposals
+        if (!enabled) get().acceptAllStaged();
+        set({ reviewMode: enabled });
+    },
+
+    staged: EMPTY_STAGED,
+
+    stageMindMapChanges: (mapData) => {
+        const { nodes, edges, staged } = get();
+        const stagedNodeIds = new Set(staged.nodes.map(n => n.id));
+
+        // Plan against map + pending ghosts so later streamed topics dedupe against earlier proposals
+        const plan = planMindMapMerge([...nodes, ...staged.nodes], [...edges, ...staged.edges], mapData, get().rootId);
+
+        const stagedNodes = staged.nodes.map(n => plan.updatedNodes.find(u => u.id === n.id) || n);
+        const descriptionUpdates = [...staged.descriptionUpdates];
+        plan.updatedNodes
+            .filter(u => !stagedNodeIds.has(u.id))
+            .forEach(u => {
+                const current = nodes.find(n => n.id === u.id);
+                if (!current || u.data.description === current.data.description) return;
+                const update = { nodeId: u.id, description: String(u.data.description || '') };
+                const existingIndex = descriptionUpdates.findIndex(d => d.nodeId === u.id);
+                if (existingIndex >= 0) descriptionUpdates[existingIndex] = update;
+                else descriptionUpdates.push(update);
             });
+
+        // Drop ghosts next to their proposed parent instead of at a random spot
+        const positioned = plan.newNodes.map((n, i) => {
+            const parentEdge = plan.newEdges.find(e => e.target === n.id && isHierarchyEdge(e));
+            const parent = parentEdge && [...nodes, ...stagedNodes].find(p => p.id === parentEdge.source);
+            return parent
+                ? { ...n, position: { x: parent.position.x + 80 + (i % 3) * 60, y: parent.position.y + 160 + i * 30 } }
+                : n;
+        });
+
+        set({
+            staged: {
+                nodes: [...stagedNodes, ...positioned],
+                edges: [...staged.edges, ...plan.newEdges],
+                descriptionUpdates,
+            },
+        });
+    },
+
+    acceptStagedItem: (kind, id) => {
+        const { nodes, edges, staged } = get();
+
+        if (kind === 'description') {
+            const update = staged.descriptionUpdates.find(d => d.nodeId === id);
+            if (!update) return;
+            get().recordHistory();
+            set({
+                nodes: nodes.map(n => n.id === id ? { ...n, data: { ...n.data, description: update.description } } : n),
+                staged: { ...staged, descriptionUpdates: staged.descriptionUpdates.filter(d => d.nodeId !== id) },
+            });
+            return;
         }
 
-        const mergedEdges = [...currentEdges, ...newEdgesFromAI, ...orphanEdges];
+        let nextNodes = nodes;
+        let stagedNodes = staged.nodes;
+        if (kind === 'node') {
+            const node = staged.nodes.find(n => n.id === id);
+            if (!node) return;
+            nextNodes = [...nodes, node];
+            stagedNodes = staged.nodes.filter(n => n.id !== id);
+        }
 
-        console.log(`V38: Added ${newNodes.length} new nodes, ${newEdgesFromAI.length} edges, ${orphanEdges.length} orphan edges. Updated ${updatedNodes.length} descriptions.`);
-        set({ nodes: mergedNodes, edges: mergedEdges });
+        // Any proposed edge whose endpoints are now both real comes along
+        const realIds = new Set(nextNodes.map(n => n.id));
+        const ready = staged.edges.filter(e =>
+            (kind === 'node' || e.id === id) && realIds.has(e.source) && realIds.has(e.target)
+        );
+        const readyIds = new Set(ready.map(e => e.id));
+        // An edge that is gone, or still hangs off a ghost, has nothing to accept yet
+        if (kind === 'edge' && ready.length === 0) return;
+
+        get().recordHistory();
+        set({
+            nodes: nextNodes,
+            edges: [...edges, ...ready],
+            staged: { ...staged, nodes: stagedNodes, edges: staged.edges.filter(e => !readyIds.has(e.id)) },
+        });
+    },
+
+    rejectStagedItem: (kind, id) => {
+        const { staged } = get();
+        if (kind === 'description') {
+            set({ staged: { ...staged, descriptionUpdates: staged.descriptionUpdates.filter(d => d.nodeId !== id) } });
+        } else if (kind === 'edge') {
+            set({ staged: { ...staged, edges: staged.edges.filter(e => e.id !== id) } });
+        } else {
+            // Rejecting a ghost also rejects the ghosts hanging off it
+            const rejected = new Set([id]);
+            let changed = true;
+            while (changed) {
+                changed = false;
+                staged.edges.forEach(e => {
+                    if (rejected.has(e.source) && !rejected.has(e.target) && staged.nodes.some(n => n.id === e.target)) {
+                        rejected.add(e.target);
+                        changed = true;
+                    }
+                });
+            }
+            set({
+                staged: {
+                    ...staged,
+                    nodes: staged.nodes.filter(n => !rejected.has(n.id)),
+                    edges: staged.edges.filter(e => !rejected.has(e.source) && !rejected.has(e.target)),
+                },
+            });
+        }
+    },
+
+    acceptAllStaged: () => {
+        const { nodes, edges, staged } = get();
+        if (staged.nodes.length === 0 && staged.edges.length === 0 && staged.descriptionUpdates.length === 0) return;
+
+        get().recordHistory();
+        const updates = new Map(staged.descriptionUpdates.map(d => [d.nodeId, d.description]));
+        const nextNodes = [
+            ...nodes.map(n => updates.has(n.id) ? { ...n, data: { ...n.data, description: updates.get(n.id) } } : n),
+            ...staged.nodes,
+        ];
+        const realIds = new Set(nextNodes.map(n => n.id));
+        set({
+            nodes: nextNodes,
+            edges: [...edges, ...staged.edges.filter(e => realIds.has(e.source) && realIds.has(e.target))],
+            staged: EMPTY_STAGED,
+        });
+    },
+
+    rejectAllStaged: () => set({ staged: EMPTY_STAGED }),
+
+    // Ghosts are measured and dragged by React Flow like real nodes
+    onStagedNodesChange: (changes) => {
+        set((state) => ({ staged: { ...state.staged, nodes: applyNodeChanges(changes, state.staged.nodes) } }));
     },
 
     getMindMapAsJSON: () => {
@@ -324,12 +944,13 @@ export const useStore = create<AppState>((set, get) => ({
             id: n.id,
             label: n.data.label,
             description: n.data.description,
+            status: n.data.status,
         }));
-        const simplifiedEdges = state.edges.map(e => ({
-            source: e.source,
-            target: e.target,
-        }));
-        return JSON.stringify({ nodes: simplifiedNodes, edges: simplifiedEdges });
+        // Parent/child edges stay bare; links say what kind they are
+        const simplifiedEdges = state.edges.map(e => isHierarchyEdge(e)
+            ? { source: e.source, target: e.target }
+            : { source: e.source, target: e.target, kind: readEdgeKind(e), label: readEdgeLabel(e) || undefined });
+        return JSON.stringify({ rootId: findRootId(state.nodes, state.rootId), nodes: simplifiedNodes, edges: simplifiedEdges });
     },
 
     messages: [],
@@ -341,6 +962,7 @@ export const useStore = create<AppState>((set, get) => ({
             timestamp: Date.now(),
             options,
         };
+        get().recordHistory();
         set((state) => ({ messages: [...state.messages, newMessage] }));
     },
 
@@ -352,4 +974,95 @@ export const useStore = create<AppState>((set, get) => ({
 
     goal: '',
     setGoal: (goal) => set({ goal }),
-}));
+    rootId: null,
+    setRootId: (rootId) => set({ rootId }),
+    // Re-roots the tree: the edges on the path from the old root down to `id` are turned
+    // around, so the old root and everything above `id` end up underneath it
+    makeRoot: (id) => {
+        const { nodes, edges, rootId } = get();
+        if (id === findRootId(nodes, rootId) || !nodes.some(n => n.id === id)) return;
+        const hierarchy = buildHierarchy(nodes, edges, rootId);
+        const path = [...getAncestorIds(hierarchy, id), id];
+        const flipped = new Set(path.slice(1).map((child, i) => `${path[i]}-${child}`));
+
+        get().recordHistory();
+        set({
+            rootId: id,
+            edges: edges.map(e => isHierarchyEdge(e) && flipped.has(`${e.source}-${e.target}`) ? { ...e, source: e.target, target: e.source } : e),
+        });
+    },
+    treeMode: true,
+    setTreeMode: (treeMode) => set({ treeMode }),
+    layout: 'force',
+    setLayout: (layout) => set({ layout }),
+
+    savedFilters: [],
+    activeFilterId: null,
+    setSavedFilters: (savedFilters) => set({ savedFilters }),
+    saveFilter: (filter) => set((state) => ({
+        savedFilters: state.savedFilters.some(f => f.id === filter.id)
+            ? state.savedFilters.map(f => f.id === filter.id ? filter : f)
+            : [...state.savedFilters, filter],
+    })),
+    deleteFilter: (id) => set((state) => ({
+        savedFilters: state.savedFilters.filter(f => f.id !== id),
+        activeFilterId: state.activeFilterId === id ? null : state.activeFilterId,
+    })),
+    setActiveFilter: (activeFilterId) => set({ activeFilterId }),
+
+    focusNodeId: null,
+    setFocusNode: (focusNodeId) => set({ focusNodeId }),
+
+    branchExpansions: {},
+    setBranchExpansion: (id, progress) => set((state) => {
+        const branchExpansions = { ...state.branchExpansions };
+        if (progress) branchExpansions[id] = progress;
+        else delete branchExpansions[id];
+        return { branchExpansions };
+    }),
+
+    mapAccess: null,
+    setMapAccess: (mapAccess) => set({ mapAccess }),
+    collaborators: [],
+    setCollaborators: (collaborators) => set({ collaborators }),
+
+    past: [],
+    future: [],
+
+    // Call BEFORE a user-visible mutation. setNodes/setEdges/setMessages deliberately
+    // don't record so layout ticks and session hydration never pollute the history.
+    recordHistory: () => {
+        const state = get();
+        if (activeStep?.entry && state.past[state.past.length - 1] === activeStep.entry) return;
+        const entry = takeSnapshot(state);
+        if (activeStep) activeStep.entry = entry;
+        set({
+            past: [...state.past.slice(-(HISTORY_LIMIT - 1)), entry],
+            future: [],
+        });
+    },
+
+    clearHistory: () => set({ past: [], future: [] }),
+
+    undo: () => {
+        const state = get();
+        if (state.past.length === 0) return;
+        const previous = state.past[state.past.length - 1];
+        set({
+            ...previous,
+            past: state.past.slice(0, -1),
+            future: [takeSnapshot(state), ...state.future],
+        });
+    },
+
+    redo: () => {
+        const state = get();
+        if (state.future.length === 0) return;
+        const [next, ...rest] = state.future;
+        set({
+            ...next,
+            past: [...state.past, takeSnapshot(state)],
+            future: rest,
+        });
+    },
+})));
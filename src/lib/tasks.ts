@@ -0,0 +1,112 @@
+import { Edge, Node } from '@xyflow/react';
+import { buildHierarchy, getAncestorIds } from './graph';
+
+export type TaskStatus = 'todo' | 'doing' | 'done' | 'blocked';
+export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+// Optional task fields on node data. A node with a status counts as a task.
+export interface TaskFields {
+    status?: TaskStatus;
+    priority?: TaskPriority;
+    dueDate?: string; // YYYY-MM-DD
+    estimate?: number; // hours
+    assignee?: string;
+}
+
+export const TASK_STATUSES: { value: TaskStatus; label: string; chipClass: string }[] = [
+    { value: 'todo', label: 'To do', chipClass: 'bg-zinc-700/60 text-zinc-300 border-zinc-600' },
+    { value: 'doing', label: 'Doing', chipClass: 'bg-sky-600/20 text-sky-300 border-sky-500/40' },
+    { value: 'done', label: 'Done', chipClass: 'bg-emerald-600/20 text-emerald-300 border-emerald-500/40' },
+    { value: 'blocked', label: 'Blocked', chipClass: 'bg-red-600/20 text-red-300 border-red-500/40' },
+];
+
+export const TASK_PRIORITIES: { value: TaskPriority; label: string; chipClass: string }[] = [
+    { value: 'low', label: 'Low', chipClass: 'text-zinc-400 border-zinc-600' },
+    { value: 'medium', label: 'Medium', chipClass: 'text-amber-300 border-amber-500/40' },
+    { value: 'high', label: 'High', chipClass: 'text-orange-300 border-orange-500/40' },
+    { value: 'urgent', label: 'Urgent', chipClass: 'text-red-300 border-red-500/50' },
+];
+
+export const readTask = (data: Record<string, unknown>): TaskFields => ({
+    status: data.status as TaskStatus | undefined,
+    priority: data.priority as TaskPriority | undefined,
+    dueDate: data.dueDate as string | undefined,
+    estimate: data.estimate as number | undefined,
+    assignee: data.assignee as string | undefined,
+});
+
+export const isOverdue = (task: TaskFields, today = new Date().toISOString().slice(0, 10)) =>
+    Boolean(task.dueDate && task.status !== 'done' && task.dueDate < today);
+
+export interface TaskProgress {
+    done: number;
+    total: number;
+    percent: number;
+}
+
+/**
+ * Completion of every branch, rolled up from its leaf tasks: a parent is as complete
+ * as the share of done tasks below it, all the way to the root goal. Leaves without a
+ * status don't count; a parent's own status only matters when nothing below it is a task.
+ */
+export const computeProgress = (nodes: Pick<Node, 'id' | 'data'>[], edges: Edge[], rootId?: string | null): Map<string, TaskProgress> => {
+    const hierarchy = buildHierarchy(nodes, edges, rootId);
+    const statusById = new Map(nodes.map(n => [n.id, n.data.status as TaskStatus | undefined]));
+    const progress = new Map<string, TaskProgress>();
+
+    const walk = (id: string): { done: number; total: number } => {
+        const totals = (hierarchy.children.get(id) || []).map(walk).reduce(
+            (sum, child) => ({ done: sum.done + child.done, total: sum.total + child.total }),
+            { done: 0, total: 0 }
+        );
+        if (totals.total === 0 && statusById.get(id)) {
+            totals.total = 1;
+            totals.done = statusById.get(id) === 'done' ? 1 : 0;
+        }
+        if (totals.total > 0) {
+            progress.set(id, { ...totals, percent: Math.round((totals.done / totals.total) * 100) });
+        }
+        return totals;
+    };
+    hierarchy.roots.forEach(walk);
+
+    return progress;
+};
+
+export interface WorkItem {
+    id: string;
+    label: string;
+    task: TaskFields;
+    // Ancestor labels below the root goal, top first
+    path: string[];
+    isLeaf: boolean;
+}
+
+/**
+ * Nodes as plan items for the Kanban and checklist views, in tree order. The root
+ * goal itself is left out; it is what the plan is for.
+ */
+export const collectWorkItems = (nodes: Node[], edges: Edge[], mapRootId?: string | null): WorkItem[] => {
+    const hierarchy = buildHierarchy(nodes, edges, mapRootId);
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const rootId = hierarchy.roots[0];
+    const items: WorkItem[] = [];
+
+    const walk = (id: string) => {
+        const node = byId.get(id)!;
+        const kids = hierarchy.children.get(id) || [];
+        if (id !== rootId) {
+            items.push({
+                id,
+                label: String(node.data.label || ''),
+                task: readTask(node.data),
+                path: getAncestorIds(hierarchy, id).filter(a => a !== rootId).map(a => String(byId.get(a)?.data.label || '')),
+                isLeaf: kids.length === 0,
+            });
+        }
+        kids.forEach(walk);
+    };
+    hierarchy.roots.forEach(walk);
+
+    return items;
+};
@@ -0,0 +1,29 @@
+import type { Edge, Node } from '@xyflow/react';
+
+const node = (id: string, label: string, description = ''): Node => ({
+  id,
+  type: 'expandable',
+  position: { x: 0, y: 0 },
+  data: { label, description },
+});
+
+const edge = (source: string, target: string): Edge => ({ id: `edge-${source}-${target}`, source, target });
+
+/** A small second-turn map: the goal, four branches and one grandchild. */
+export const bakeryMap = (): { nodes: Node[]; edges: Edge[] } => ({
+  nodes: [
+    node('root', 'Open a bakery', 'Open a neighbourhood bakery'),
+    node('aspect-1', 'Budget', 'Startup costs • Funding'),
+    node('aspect-2', 'Marketing', 'Social media • Opening event'),
+    node('aspect-3', 'Location', 'Foot traffic • Lease terms'),
+    node('aspect-4', 'Equipment', 'Ovens • Mixers'),
+    node('node-1700000000000-0-new', 'Instagram campaign', 'Posts and stories'),
+  ],
+  edges: [
+    edge('root', 'aspect-1'),
+    edge('root', 'aspect-2'),
+    edge('root', 'aspect-3'),
+    edge('root', 'aspect-4'),
+    edge('aspect-2', 'node-1700000000000-0-new'),
+  ],
+});
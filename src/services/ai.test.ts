@@ -0,0 +1,151 @@
+import { readFileSync } from 'node:fs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Edge, Node } from '@xyflow/react';
+import { useStore } from '@/lib/store';
+import { parseAIResponse } from './ai';
+import { bakeryMap } from './__fixtures__/maps';
+
+// Recorded raw model replies live next to this file, one per scenario
+const readFixture = (name: string): string =>
+  readFileSync(new URL(`./__fixtures__/responses/${name}.txt`, import.meta.url), 'utf8');
+
+const GOAL = 'Open a bakery';
+
+// Parses a fixture against `map` and merges the result the way ChatPanel does
+const runTurn = (fixture: string, map: { nodes: Node[]; edges: Edge[] }, userMessage: string, defaultParentId = 'root') => {
+  useStore.setState({ nodes: map.nodes, edges: map.edges });
+  const parsed = parseAIResponse(readFixture(fixture), GOAL, map.nodes, map.edges, 'node-fallback-user', defaultParentId, userMessage);
+  useStore.getState().setMindMapFromJSON(parsed.updatedMindMap);
+  return { parsed, nodes: useStore.getState().nodes, edges: useStore.getState().edges };
+};
+
+const labelOf = (nodes: Node[], id: string) => String(nodes.find(n => n.id === id)?.data.label);
+
+// Edges as "Parent -> Child" so assertions do not depend on generated ids
+const edgeLabels = (nodes: Node[], edges: Edge[]) =>
+  edges.map(e => `${labelOf(nodes, e.source)} -> ${labelOf(nodes, e.target)}`).sort();
+
+const addedLabels = (before: Node[], after: Node[]) => {
+  const ids = new Set(before.map(n => n.id));
+  return after.filter(n => !ids.has(n.id)).map(n => n.data.label).sort();
+};
+
+beforeEach(() => {
+  useStore.setState(useStore.getInitialState(), true);
+  vi.spyOn(console, 'log').mockImplementation(() => { });
+});
+
+describe('parseAIResponse: first turn', () => {
+  it('builds the goal node with every topic hanging off it', () => {
+    const { parsed, nodes, edges } = runTurn('first-turn-plan', { nodes: [], edges: [] }, '');
+
+    expect(parsed.assistantResponse).toBe('Here is a starting plan for opening your bakery.');
+    expect(parsed.suggestions).toEqual(['Budget', 'Menu', 'Marketing']);
+    expect(parsed.pendingPlacements).toEqual([]);
+
+    expect(nodes).toHaveLength(9);
+    expect(nodes.find(n => n.id === 'root')?.data.label).toBe(GOAL);
+    expect(edges).toHaveLength(8);
+    expect(edges.every(e => e.source === 'root')).toBe(true);
+    expect(nodes.find(n => n.data.label === 'Equipment')?.data.description).toBe('Ovens • Mixers • Display cases');
+  });
+
+  it('strips brackets, defaults descriptions and skips nameless topics', () => {
+    const { parsed, nodes, edges } = runTurn('first-turn-bracketed', { nodes: [], edges: [] }, '');
+
+    expect(parsed.assistantResponse).toBe("Let's break the goal down.");
+    expect(parsed.suggestions).toEqual(['Budget', 'Location']);
+    expect(nodes.map(n => n.data.label).sort()).toEqual(['Budget', 'Location', 'Menu', GOAL].sort());
+    expect(nodes.find(n => n.data.label === 'Budget')?.data.description).toBe('Startup costs • Funding');
+    expect(nodes.find(n => n.data.label === 'Location')?.data.description).toBe('Location');
+    expect(edgeLabels(nodes, edges)).toEqual([`${GOAL} -> Budget`, `${GOAL} -> Location`, `${GOAL} -> Menu`]);
+  });
+});
+
+describe('parseAIResponse: later turns', () => {
+  it('falls back to a node from the user message when the reply has no topics', () => {
+    const map = bakeryMap();
+    const { parsed, nodes, edges } = runTurn('prose-only', map, 'Pricing strategy');
+
+    expect(parsed.assistantResponse).toMatch(/^Here's your plan for Open a bakery/);
+    expect(addedLabels(map.nodes, nodes)).toEqual(['Pricing strategy']);
+    expect(edgeLabels(nodes, edges)).toContain(`${GOAL} -> Pricing strategy`);
+  });
+
+  it('follows PARENT lines across several branches in one reply', () => {
+    const map = bakeryMap();
+    const { parsed, nodes, edges } = runTurn('multi-parent', map, 'More marketing and equipment ideas');
+
+    expect(parsed.pendingPlacements).toEqual([]);
+    expect(addedLabels(map.nodes, nodes)).toEqual(['Email newsletter', 'Oven maintenance', 'TikTok videos']);
+    expect(edgeLabels(nodes, edges)).toEqual(expect.arrayContaining([
+      'Marketing -> TikTok videos',
+      'Marketing -> Email newsletter',
+      'Equipment -> Oven maintenance',
+    ]));
+    expect(edges).toHaveLength(map.edges.length + 3);
+  });
+
+  it('anchors on the closest existing node when there is no PARENT line', () => {
+    const map = bakeryMap();
+    const { nodes, edges } = runTurn('lexical-anchor', map, 'More ideas for the Instagram campaign');
+
+    expect(edgeLabels(nodes, edges)).toContain('Instagram campaign -> Reels schedule');
+  });
+
+  it('merges duplicates into existing nodes instead of adding copies', () => {
+    const map = bakeryMap();
+    const { nodes, edges } = runTurn('duplicate-heavy', map, 'Refine marketing');
+
+    // Only "Flyers" is new, however many times and however it is spelled
+    expect(addedLabels(map.nodes, nodes)).toEqual(['Flyers']);
+    expect(nodes).toHaveLength(map.nodes.length + 1);
+    expect(nodes.find(n => n.id === 'node-1700000000000-0-new')?.data.description).toBe('Posts, reels and stories');
+    expect(nodes.find(n => n.id === 'aspect-2')?.data.description).toBe('Social media • Local press');
+
+    // One edge to the new node, no self-loop on Marketing, no repeated edges
+    expect(edgeLabels(nodes, edges).filter(e => e.endsWith('-> Flyers'))).toEqual(['Marketing -> Flyers']);
+    expect(edges.some(e => e.source === e.target)).toBe(false);
+    expect(new Set(edges.map(e => `${e.source}-${e.target}`)).size).toBe(edges.length);
+  });
+
+  it('holds a topic back for the user when no parent is a confident match', () => {
+    const map = bakeryMap();
+    const { parsed, nodes, edges } = runTurn('unknown-parent', map, 'What about hiring?');
+
+    expect(parsed.pendingPlacements.map(p => p.topic.name)).toEqual(['Hiring bakers']);
+    expect(parsed.pendingPlacements[0].anchor.confidence).toBeLessThan(0.35);
+    // Nothing is guessed onto the board, not even the legacy fallback node
+    expect(nodes).toEqual(map.nodes);
+    expect(edges).toEqual(map.edges);
+  });
+
+  it('puts topics under the focused node unless a node inside its branch fits', () => {
+    const map = bakeryMap();
+    const { parsed, nodes, edges } = runTurn('focused-branch', map, 'What else?', 'aspect-2');
+
+    expect(parsed.pendingPlacements).toEqual([]);
+    expect(edgeLabels(nodes, edges)).toEqual(expect.arrayContaining([
+      'Marketing -> Loyalty cards',
+      'Instagram campaign -> Reels schedule',
+    ]));
+  });
+});
+
+describe('parseAIResponse: cross-links', () => {
+  it('turns LINK lines into typed edges between existing and new nodes', () => {
+    const map = bakeryMap();
+    const { parsed, nodes, edges } = runTurn('cross-links', map, 'How do I pay for equipment?');
+
+    expect(parsed.pendingPlacements).toEqual([]);
+    const links = edges.filter(e => e.data?.kind).map(e => [labelOf(nodes, e.source), labelOf(nodes, e.target), e.data?.kind, e.data?.label]);
+    // The link to a node that is not on the map is dropped
+    expect(links).toEqual([
+      ['Equipment', 'Bank loan', 'dependency', undefined],
+      ['Marketing', 'Location', 'custom', 'needs foot traffic'],
+    ]);
+    // The link into the new topic does not replace its parent edge
+    expect(edgeLabels(nodes, edges.filter(e => !e.data?.kind))).toContain('Budget -> Bank loan');
+  });
+});
+
@@ -1,4 +1,28 @@
-import { CreateMLCEngine, MLCEngine, InitProgressCallback } from "@mlc-ai/web-llm";
+import type { Edge } from "@xyflow/react";
+import { EDGE_KINDS, EdgeKind } from "@/lib/graph";
+import {
+  ChatMessage,
+  CompletionOptions,
+  DEFAULT_OPENAI_CONFIG,
+  LLMProvider,
+  ProviderConfig,
+  ProviderProgressCallback,
+  createProvider,
+  loadProviderConfig,
+  saveProviderConfig,
+} from "./providers";
+import { MAP_GENERATION_SCHEMA, MapGeneration, parseMapGeneration } from "./mapSchema";
+import { AnchorResolution, LOW_CONFIDENCE_THRESHOLD, buildAnchorIndex, normalizeLabel, resolveAnchor } from "./anchors";
+import {
+  ContextManager,
+  DEFAULT_CONTEXT_BUDGET,
+  EMPTY_TURN_CONTEXT,
+  MIN_CONTEXT_BUDGET,
+  TokenCounter,
+  FocusContext,
+  TurnContext,
+  parseMapSnapshot,
+} from "./context";
 
 // Model options with metadata
 export const MODEL_OPTIONS = {
@@ -20,8 +44,6 @@ export const MODEL_OPTIONS = {
 
 export type ModelSize = keyof typeof MODEL_OPTIONS;
 
-let SELECTED_MODEL: string = MODEL_OPTIONS["1.5B"].id;
-
 // ============================================================================
 // V53: GENERALIZED INTENT - No hardcoded counts or specific domains
 // ============================================================================
@@ -83,21 +105,36 @@ TOPIC10: Topic Name|Description
 OPTIONS: Topic1, Topic2, Topic3`;
 };
 
-const buildMainTurnUserMessage = (
-  goal: string,
-  lastUserMessage: string,
-  conversationSummary: string,
-  leafNodes: string,
-  existingLabels: string
-): string => {
+// The focused branch, with where new topics should go by default ('' without a focus)
+const formatFocus = (focus: FocusContext | null): string => {
+  if (!focus) return '';
+  const below = [...focus.descendants, ...(focus.omittedDescendantCount > 0 ? [`… (${focus.omittedDescendantCount} more)`] : [])];
+  return `
+FOCUSED NODE: "${focus.label}"
+Path: ${[...focus.path, focus.label].join(' > ')}
+Siblings: ${focus.siblings.join(', ') || 'none'}
+Already under it: ${below.join(', ') || 'nothing yet'}
+The user is asking about this branch. New topics go under "${focus.label}" unless a node inside it fits better.
+`;
+};
+
+// Existing labels as one prompt line, noting how many did not fit the budget
+const formatNodeLabels = (context: TurnContext): string =>
+  [...context.nodeLabels, ...(context.omittedNodeCount > 0 ? [`… (${context.omittedNodeCount} more)`] : [])].join(', ');
+
+const buildMainTurnUserMessage = (goal: string, lastUserMessage: string, context: TurnContext): string => {
   const intent = extractUserIntent(lastUserMessage);
+  const history = [
+    context.summary && `Earlier in this conversation: ${context.summary}`,
+    context.recentTurns && `Recent messages:\n${context.recentTurns}`,
+  ].filter(Boolean).join('\n\n');
 
   return `Context: "${goal}"
-
+${history ? `\n${history}\n` : ''}
 USER REQUEST: "${lastUserMessage}"
 KEYWORDS: ${intent.keywords.join(', ') || 'general'}
-Existing nodes: ${existingLabels}
-
+Existing nodes: ${formatNodeLabels(context)}
+${context.links.length > 0 ? `Cross-links: ${context.links.join(', ')}\n` : ''}${formatFocus(context.focus)}
 TASK:
 1. Find relevant existing nodes for these keywords.
 2. Create new nodes with specific content.
@@ -109,6 +146,7 @@ PARENT: [Related Node A]
 NEWTOPIC: Name|Description • Detail 1
 PARENT: [Related Node B]
 NEWTOPIC: Name|Description • Detail 1
+LINK: [Node A] -> [Node B] | dependency
 OPTIONS: [New Node Names]
 
 EXAMPLE:
@@ -121,50 +159,321 @@ OPTIONS: Item 1, Item 2
 RULES:
 - PARENT must be an existing node name
 - Repeat PARENT to switch context
+- LINK is optional: connect two nodes in different branches as dependency, related or contradicts
 - Use "•" for bullets`;
 };
 
 
+/** The goal node every first-turn map hangs off. */
+export const createRootNode = (goal: string) => ({ id: "root", label: goal.slice(0, 30), description: goal });
+
+const buildStructuredUserMessage = (goal: string, lastUserMessage: string | null, context: TurnContext): string => {
+  const task = lastUserMessage === null
+    ? `Goal: ${goal}
+
+Create a comprehensive mind map with 8-10 main topics to cover this goal.
+Every topic uses "root" as its parent.`
+    : `Context: "${goal}"
+
+USER REQUEST: "${lastUserMessage}"
+Existing nodes: ${formatNodeLabels(context)}
+${context.links.length > 0 ? `Cross-links: ${context.links.join(', ')}\n` : ''}${formatFocus(context.focus)}
+Create new nodes for this request. Set "parent" to the exact label of the existing node it belongs under,
+or to the id of another node in your reply.`;
+
+  return `${task}
+
+Reply with one JSON object:
+- "message": brief reply to the user
+- "nodes": [{ "id": "n1", "label": "Name", "description": "Description • Detail", "parent": "..." }]
+- "edges": cross-links between nodes in different branches, [{ "source": "n1", "target": "n2", "kind": "dependency" }] (usually [])
+- "suggestions": 2-3 short follow-up requests`;
+};
+
+export interface BranchRequest {
+  goal: string;
+  label: string;
+  description?: string;
+  /** Labels from the top of the map down to (not including) the branch */
+  path: string[];
+  /** Labels already under the branch, so the model does not repeat them */
+  existingChildren: string[];
+  /** How many sub-topics to ask for */
+  breadth: number;
+}
+
+const buildBranchUserMessage = (request: BranchRequest): string => {
+  const { label, breadth } = request;
+  return `Context: "${request.goal}"
+BRANCH: "${label}"
+Path: ${[...request.path, label].join(' > ')}
+About it: ${request.description || label}
+Already under it: ${request.existingChildren.join(', ') || 'nothing yet'}
+
+TASK: Break "${label}" down into exactly ${breadth} sub-topics that belong directly under it.
+Use specific, real details. Do not repeat existing nodes.
+
+Reply format:
+MESSAGE: Brief note
+${Array.from({ length: breadth }, (_, i) => `TOPIC${i + 1}: Name|Description • Detail`).join('\n')}`;
+};
+
+const buildRepairMessage = (errors: string[]): string => {
+  return `Your reply did not match the required format:
+${errors.map(e => `- ${e}`).join('\n')}
+
+Reply again with only the corrected JSON object.`;
+};
+
+/** Upper bound on repair turns after the first structured attempt fails validation. */
+export const MAX_STRUCTURED_REPAIR_ATTEMPTS = 2;
+
+export class StructuredOutputError extends Error {
+  constructor(public readonly errors: string[], public readonly rawResponse: string) {
+    super(`Structured output invalid after ${MAX_STRUCTURED_REPAIR_ATTEMPTS + 1} attempts: ${errors.join(' ')}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
 /**
- * V50: Parse text format into JSON structure - Supports Multiple Parents
+ * Runs a structured turn and falls back to the text format only when the model never
+ * produced a valid document; any other failure is the caller's to report.
  */
-export const parseAIResponse = (response: string, goal: string, existingNodes: any[], newNodeId: string, defaultParentId: string, lastUserMessage: string) => {
-  const lines = response.split('\n').filter(l => l.trim());
-
-  let message = `Here's your plan for ${goal}. Click any topic or type to expand.`;
-  // V50: Store parent preference with each topic
-  const topics: { name: string, desc: string, preferredParent?: string }[] = [];
-  let options: string[] = [];
-  let currentParentName = "";
-
-  for (const line of lines) {
-    if (line.startsWith('MESSAGE:')) {
-      message = line.replace('MESSAGE:', '').trim();
-    } else if (line.startsWith('QUESTION:')) {
-      message = line.replace('QUESTION:', '').trim();
-    } else if (line.startsWith('PARENT:')) {
-      currentParentName = line.replace('PARENT:', '').trim();
-    } else if (line.startsWith('TOPIC') || line.startsWith('NEWTOPIC')) {
-      const content = line.replace(/^(TOPIC\d?|NEWTOPIC):?\s*/, '');
-      let [name, desc] = content.split('|').map(s => s.trim());
-      name = name.replace(/^\[|\]$/g, '').trim();
-      desc = (desc || name).replace(/^\[|\]$/g, '').trim();
-      if (name && name.length > 0) {
-        topics.push({ name, desc, preferredParent: currentParentName });
-      }
-    } else if (line.startsWith('OPTIONS:')) {
-      options = line.replace('OPTIONS:', '').split(',')
-        .map(s => s.trim().replace(/^\[|\]$/g, ''))
-        .filter(s => s && s.length > 0);
+export const withTextFallback = async (structured: () => Promise<void>, fallback: () => Promise<void>): Promise<void> => {
+  try {
+    await structured();
+    return;
+  } catch (e) {
+    if (!(e instanceof StructuredOutputError)) throw e;
+    console.warn("Structured output failed, falling back to text format", e.errors);
+  }
+  await fallback();
+};
+
+export interface ParsedTopic {
+  name: string;
+  desc: string;
+  preferredParent?: string;
+}
+
+/** A `LINK: A -> B | type` line; ends are labels, resolved to ids later. */
+export interface ParsedLink {
+  from: string;
+  to: string;
+  kind: EdgeKind;
+  label?: string;
+}
+
+export interface ParsedResponse {
+  message: string | null;
+  topics: ParsedTopic[];
+  options: string[];
+  links: ParsedLink[];
+}
+
+// "dependency" and friends map to their kind; any other text becomes a custom link with that label
+const parseLinkLine = (content: string): ParsedLink | null => {
+  const [ends, type = ''] = content.split('|').map(s => s.trim());
+  const [from, to] = ends.split('->').map(s => s.replace(/^\[|\]$/g, '').trim());
+  if (!from || !to) return null;
+  const kind = EDGE_KINDS.find(k => k.value !== 'hierarchy' && k.value === type.toLowerCase())?.value;
+  if (kind) return { from, to, kind };
+  return type ? { from, to, kind: 'custom', label: type } : { from, to, kind: 'related' };
+};
+
+/**
+ * Applies one line of the text format to the accumulated parse state.
+ * Returns the topic the line produced, if any, so streaming callers can react to it.
+ */
+const parseResponseLine = (line: string, state: ParsedResponse & { currentParentName: string }): ParsedTopic | null => {
+  if (line.startsWith('MESSAGE:')) {
+    state.message = line.replace('MESSAGE:', '').trim();
+  } else if (line.startsWith('QUESTION:')) {
+    state.message = line.replace('QUESTION:', '').trim();
+  } else if (line.startsWith('PARENT:')) {
+    state.currentParentName = line.replace('PARENT:', '').trim();
+  } else if (line.startsWith('TOPIC') || line.startsWith('NEWTOPIC')) {
+    const content = line.replace(/^(TOPIC\d?|NEWTOPIC):?\s*/, '');
+    let [name, desc] = content.split('|').map(s => s.trim());
+    name = name.replace(/^\[|\]$/g, '').trim();
+    desc = (desc || name).replace(/^\[|\]$/g, '').trim();
+    if (name && name.length > 0) {
+      // V50: Store parent preference with each topic
+      const topic = { name, desc, preferredParent: state.currentParentName };
+      state.topics.push(topic);
+      return topic;
+    }
+  } else if (line.startsWith('LINK:')) {
+    const link = parseLinkLine(line.replace('LINK:', ''));
+    if (link) state.links.push(link);
+  } else if (line.startsWith('OPTIONS:')) {
+    state.options = line.replace('OPTIONS:', '').split(',')
+      .map(s => s.trim().replace(/^\[|\]$/g, ''))
+      .filter(s => s && s.length > 0);
+  }
+  return null;
+};
+
+const createParseState = () => ({ message: null, topics: [], options: [], links: [], currentParentName: "" } as ParsedResponse & { currentParentName: string });
+
+export const parseResponseText = (response: string): ParsedResponse => {
+  const state = createParseState();
+  response.split('\n').filter(l => l.trim()).forEach(line => parseResponseLine(line.trim(), state));
+  return { message: state.message, topics: state.topics, options: state.options, links: state.links };
+};
+
+/**
+ * Incremental version of parseResponseText for token streams.
+ * Reports the MESSAGE text as it grows and each topic as soon as its line is complete.
+ */
+export class StreamingResponseParser {
+  private buffer = "";
+  private fullText = "";
+  private state = createParseState();
+
+  constructor(private readonly handlers: {
+    onMessage?: (message: string) => void;
+    onTopic?: (topic: ParsedTopic, index: number) => void;
+  }) { }
+
+  public push(delta: string): void {
+    this.fullText += delta;
+    this.buffer += delta;
+
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() || "";
+    lines.forEach(line => this.consume(line));
+
+    // Show the MESSAGE line while it is still being written
+    const partial = this.buffer.trim();
+    if (partial.startsWith('MESSAGE:') || partial.startsWith('QUESTION:')) {
+      this.handlers.onMessage?.(partial.replace(/^(MESSAGE|QUESTION):/, '').trim());
+    }
+  }
+
+  /** Flushes the trailing line and returns the complete response text. */
+  public end(): string {
+    if (this.buffer) this.consume(this.buffer);
+    this.buffer = "";
+    return this.fullText;
+  }
+
+  public get topicCount(): number {
+    return this.state.topics.length;
+  }
+
+  public get links(): ParsedLink[] {
+    return this.state.links;
+  }
+
+  private consume(rawLine: string): void {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const topic = parseResponseLine(line, this.state);
+    if (topic) {
+      this.handlers.onTopic?.(topic, this.state.topics.length - 1);
+    } else if (this.state.message !== null && (line.startsWith('MESSAGE:') || line.startsWith('QUESTION:'))) {
+      this.handlers.onMessage?.(this.state.message);
     }
   }
+}
+
+/** A topic whose parent could not be chosen with enough confidence; the user decides. */
+export interface PendingPlacement {
+  nodeId: string;
+  topic: ParsedTopic;
+  anchor: AnchorResolution;
+}
+
+/**
+ * V51: Contextual Anchor Selection - attaches each topic to the best existing node
+ * (see anchors.ts). Topics whose anchor is below LOW_CONFIDENCE_THRESHOLD are not
+ * placed but returned as `pending` so the chat can ask where they belong.
+ * `indexOffset` keeps temporary ids unique when topics arrive one at a time from a stream.
+ */
+export const resolveTopicParents = (
+  topics: ParsedTopic[],
+  existingNodes: any[],
+  existingEdges: Edge[],
+  defaultParentId: string,
+  lastUserMessage: string,
+  indexOffset: number = 0,
+  rootId?: string | null
+) => {
+  const timestamp = Date.now();
+  const newNodes: any[] = [];
+  const newEdges: any[] = [];
+  const pending: PendingPlacement[] = [];
+
+  const index = buildAnchorIndex(existingNodes, existingEdges, rootId);
+
+  topics.forEach((topic, i) => {
+    const nodeId = `node-${timestamp}-${i + indexOffset}-new`; // unique suffix
+    const anchor = resolveAnchor(index, { ...topic, context: lastUserMessage }, defaultParentId);
+
+    if (anchor.confidence < LOW_CONFIDENCE_THRESHOLD) {
+      pending.push({ nodeId, topic, anchor });
+      return;
+    }
+
+    newNodes.push({
+      id: nodeId,
+      label: topic.name,
+      description: topic.desc
+    });
+    newEdges.push({
+      source: anchor.parentId,
+      target: nodeId
+    });
+  });
+
+  return { nodes: newNodes, edges: newEdges, pending };
+};
+
+/**
+ * Turns LINK lines into setMindMapFromJSON edges. Ends are matched by label against
+ * `nodes` (existing ones carry it in `data`, freshly parsed ones directly); links
+ * naming a node that is not on the map are dropped rather than guessed.
+ */
+export const resolveLinks = (links: ParsedLink[], nodes: { id: string; label?: unknown; data?: { label?: unknown } }[]) => {
+  const idByLabel = new Map<string, string>();
+  nodes.forEach(n => {
+    const label = normalizeLabel(String(n.data?.label ?? n.label ?? ''));
+    if (label && !idByLabel.has(label)) idByLabel.set(label, n.id);
+  });
+
+  return links.flatMap(link => {
+    const source = idByLabel.get(normalizeLabel(link.from));
+    const target = idByLabel.get(normalizeLabel(link.to));
+    if (!source || !target || source === target) return [];
+    return [{ source, target, kind: link.kind, ...(link.label ? { label: link.label } : {}) }];
+  });
+};
+
+/**
+ * V50: Parse text format into JSON structure - Supports Multiple Parents
+ */
+export const parseAIResponse = (
+  response: string,
+  goal: string,
+  existingNodes: any[],
+  existingEdges: Edge[],
+  newNodeId: string,
+  defaultParentId: string,
+  lastUserMessage: string,
+  rootId?: string | null
+) => {
+  const parsed = parseResponseText(response);
+  const message = parsed.message ?? `Here's your plan for ${goal}. Click any topic or type to expand.`;
+  const { topics, options, links } = parsed;
 
   const isFirstTurn = existingNodes.length === 0;
 
   if (isFirstTurn) {
     // V50: First turn - create comprehensive structure (8+ topics)
     const nodes = [
-      { id: "root", label: goal.slice(0, 30), description: goal },
+      createRootNode(goal),
       ...topics.map((t, i) => ({
         id: `aspect-${i + 1}`,
         label: t.name,
@@ -179,121 +488,16 @@ export const parseAIResponse = (response: string, goal: string, existingNodes: a
 
     return {
       assistantResponse: message,
-      updatedMindMap: { nodes, edges },
-      suggestions: options.length > 0 ? options : topics.slice(0, 3).map(t => t.name)
+      updatedMindMap: { nodes, edges: [...edges, ...resolveLinks(links, nodes)] },
+      suggestions: options.length > 0 ? options : topics.slice(0, 3).map(t => t.name),
+      pendingPlacements: [] as PendingPlacement[]
     };
   } else {
     // V50: Mass Update Support - Resolve parent for EACH topic
-    const timestamp = Date.now();
-    const newNodes: any[] = [];
-    const newEdges: any[] = [];
-
-    // V51: Contextual Anchor Selection Algorithm
-    // Step 1: Identify Candidates & Focus
-    const rootNode = existingNodes.find(n => n.id.includes('root') || existingNodes.indexOf(n) === 0);
-    const rootId = rootNode?.id;
-
-    // Helper: Parse timestamp from ID (node-TIMESTAMP-index)
-    const getTimestamp = (id: string) => {
-      const match = id.match(/node-(\d+)-/);
-      return match ? parseInt(match[1]) : 0;
-    };
-
-    // Find "Most Recent Node" (Last Resort Fallback) - Exclude Root
-    const sortedByRecency = [...existingNodes]
-      .filter(n => n.id !== rootId)
-      .sort((a, b) => getTimestamp(b.id) - getTimestamp(a.id));
-    const mostRecentNode = sortedByRecency[0];
-
-    // Identify "Current Focus" (passed as defaultParentId)
-    const focusNodeId = defaultParentId !== rootId ? defaultParentId : null;
-
-    topics.forEach((topic, index) => {
-      let parentId = ""; // Start undefined to force selection logic
-
-      // 1. AI Explicit Preference (Highest Priority if valid)
-      if (topic.preferredParent) {
-        const matchingNode = existingNodes.find(n => {
-          const label = (n.data?.label || n.label || "").toLowerCase();
-          return label.includes(topic.preferredParent!.toLowerCase()) || topic.preferredParent!.toLowerCase().includes(label);
-        });
-        if (matchingNode) {
-          parentId = matchingNode.id;
-        }
-      }
-
-      // 2. Semantic Scoring (If no AI Preference found)
-      if (!parentId) {
-        let bestScore = 0.0;
-        let bestMatch = null;
-
-        const searchPhrase = (lastUserMessage + " " + topic.name).toLowerCase();
-        const searchTokens = searchPhrase.split(/\s+/).filter(t => t.length > 1); // Allow short words
-
-        for (const node of existingNodes) {
-          // Skip root for semantic matching unless explicit? (User says forbid connecting to root by default)
-          if (node.id === rootId) continue;
-
-          const label = (node.data?.label || node.label || "").toLowerCase();
-          const nodeTokens = label.split(/\s+/);
-
-          // V53: Weighted Scoring (Exact > Partial)
-          let matchScore = 0;
-          for (const token of searchTokens) {
-            for (const nt of nodeTokens) {
-              if (nt === token) {
-                matchScore += 1.0; // Exact match
-              } else if (token.length > 3 && nt.includes(token)) {
-                matchScore += 0.5; // Partial match (only if token is significant)
-              }
-            }
-          }
-
-          // Normalize score
-          const score = searchTokens.length > 0 ? (matchScore / searchTokens.length) : 0;
-
-          if (score > bestScore) {
-            bestScore = score;
-            bestMatch = node;
-          }
-        }
-
-        // Step 3: Choose Anchor
-        if (bestMatch && bestScore > 0.35) {
-          parentId = bestMatch.id; // Semantic Winner
-        } else {
-          // Step 4: Fallback (Score <= 0.35)
-          // "If no node scores above 0.35, use the most recently created or most recently interacted node."
-
-          if (focusNodeId) {
-            parentId = focusNodeId; // Primary Fallback: Current Focus
-          } else if (mostRecentNode) {
-            parentId = mostRecentNode.id; // Secondary Fallback: Last created
-          } else {
-            parentId = rootId || defaultParentId; // Absolute Last Resort: Root
-          }
-        }
-      }
-      // Safety check
-      if (!parentId) parentId = rootId || defaultParentId;
-
-      // Create Node
-      const nodeId = `node-${timestamp}-${index}-new`; // unique suffix
-      newNodes.push({
-        id: nodeId,
-        label: topic.name,
-        description: topic.desc
-      });
-
-      // Create Edge
-      newEdges.push({
-        source: parentId,
-        target: nodeId
-      });
-    });
+    const { nodes: newNodes, edges: newEdges, pending } = resolveTopicParents(topics, existingNodes, existingEdges, defaultParentId, lastUserMessage, 0, rootId);
 
     // Fallback: If no topics parsed, create one from user message (legacy)
-    if (newNodes.length === 0) {
+    if (topics.length === 0) {
       newNodes.push({
         id: newNodeId,
         label: lastUserMessage || "New Topic",
@@ -304,8 +508,9 @@ export const parseAIResponse = (response: string, goal: string, existingNodes: a
 
     return {
       assistantResponse: message,
-      updatedMindMap: { nodes: newNodes, edges: newEdges },
-      suggestions: options
+      updatedMindMap: { nodes: newNodes, edges: [...newEdges, ...resolveLinks(links, [...existingNodes, ...newNodes])] },
+      suggestions: options,
+      pendingPlacements: pending
     };
   }
 };
@@ -314,10 +519,22 @@ export const parseAIResponse = (response: string, goal: string, existingNodes: a
 // AI SERVICE
 // ============================================================================
 
+const STRUCTURED_OUTPUT_KEY = "idea-ai-structured-output";
+const EMBEDDING_ANCHORS_KEY = "idea-ai-embedding-anchors";
+const CONTEXT_BUDGET_KEY = "idea-ai-context-budget";
+
 export class AIService {
   private static instance: AIService;
-  private enginePromise: Promise<MLCEngine> | null = null;
-  private currentModelId: string = SELECTED_MODEL;
+  private provider: LLMProvider | null = null;
+  private providerConfig: ProviderConfig | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private currentSize: ModelSize = "1.5B";
+  private structuredOutput: boolean | null = null;
+  private embeddingAnchors: boolean | null = null;
+  private contextBudget: number | null = null;
+  private readonly context = new ContextManager();
+  // One per model id, so calibration learned for one model does not skew another
+  private readonly tokenCounters = new Map<string, TokenCounter>();
 
   private constructor() { }
 
@@ -328,104 +545,291 @@ export class AIService {
     return AIService.instance;
   }
 
+  // Config lives in localStorage, so resolve it lazily (never during SSR module init)
+  public getProviderConfig(): ProviderConfig {
+    if (!this.providerConfig) {
+      this.providerConfig = loadProviderConfig();
+    }
+    return this.providerConfig;
+  }
+
+  private getProvider(): LLMProvider {
+    if (!this.provider) {
+      this.provider = createProvider(this.getProviderConfig());
+    }
+    return this.provider;
+  }
+
+  public getModelSize(): ModelSize {
+    return this.currentSize;
+  }
+
+  // Resolves a size tier to the model id understood by the active provider
+  public resolveModelId(modelSize: ModelSize = this.currentSize): string {
+    const config = this.getProviderConfig();
+    switch (config.kind) {
+      case "openai":
+        return (config.models || DEFAULT_OPENAI_CONFIG.models)[modelSize];
+      case "mock":
+        return `mock-${modelSize}`;
+      default:
+        return MODEL_OPTIONS[modelSize].id;
+    }
+  }
+
   public getCurrentModel(): string {
-    return this.currentModelId;
+    return this.resolveModelId();
   }
 
-  public async switchModel(modelSize: ModelSize, onProgress?: InitProgressCallback): Promise<void> {
-    const newModelId = MODEL_OPTIONS[modelSize].id;
-    if (newModelId === this.currentModelId && this.enginePromise) {
-      return; // Already loaded
+  // JSON mode is opt-in and remembered per browser
+  public isStructuredOutputEnabled(): boolean {
+    if (this.structuredOutput === null) {
+      this.structuredOutput = typeof window !== "undefined" && localStorage.getItem(STRUCTURED_OUTPUT_KEY) === "true";
     }
+    return this.structuredOutput;
+  }
 
-    // Clear existing engine
-    this.enginePromise = null;
-    this.currentModelId = newModelId;
-    SELECTED_MODEL = newModelId;
+  public setStructuredOutputEnabled(enabled: boolean): void {
+    this.structuredOutput = enabled;
+    if (typeof window !== "undefined") localStorage.setItem(STRUCTURED_OUTPUT_KEY, String(enabled));
+  }
 
-    // Pre-load the new model
-    await this.getEngine(onProgress);
+  // Embedding re-ranking of uncertain placements: opt-in, and only for providers that can embed
+  public isEmbeddingAnchorsEnabled(): boolean {
+    if (this.embeddingAnchors === null) {
+      this.embeddingAnchors = typeof window !== "undefined" && localStorage.getItem(EMBEDDING_ANCHORS_KEY) === "true";
+    }
+    return this.embeddingAnchors;
   }
 
-  public async getEngine(onProgress?: InitProgressCallback): Promise<MLCEngine> {
-    if (this.enginePromise) {
-      return this.enginePromise;
+  public setEmbeddingAnchorsEnabled(enabled: boolean): void {
+    this.embeddingAnchors = enabled;
+    if (typeof window !== "undefined") localStorage.setItem(EMBEDDING_ANCHORS_KEY, String(enabled));
+  }
+
+  // Prompt size cap in tokens (system message + request + history + map), remembered per browser
+  public getContextBudget(): number {
+    if (this.contextBudget === null) {
+      const stored = typeof window !== "undefined" ? Number(localStorage.getItem(CONTEXT_BUDGET_KEY)) : NaN;
+      this.contextBudget = Number.isFinite(stored) && stored >= MIN_CONTEXT_BUDGET ? stored : DEFAULT_CONTEXT_BUDGET;
     }
+    return this.contextBudget;
+  }
+
+  public setContextBudget(tokens: number): void {
+    this.contextBudget = Math.max(MIN_CONTEXT_BUDGET, Math.round(tokens));
+    if (typeof window !== "undefined") localStorage.setItem(CONTEXT_BUDGET_KEY, String(this.contextBudget));
+  }
 
-    this.enginePromise = CreateMLCEngine(this.currentModelId, {
-      initProgressCallback: onProgress,
-      logLevel: "INFO"
+  private getTokenCounter(): TokenCounter {
+    const modelId = this.resolveModelId();
+    let counter = this.tokenCounters.get(modelId);
+    if (!counter) {
+      counter = new TokenCounter(modelId);
+      this.tokenCounters.set(modelId, counter);
+    }
+    return counter;
+  }
+
+  /**
+   * History and map context for one turn, sized to the budget left after the
+   * prompt that `buildMessages` produces without any context.
+   */
+  private async buildTurnContext(
+    provider: LLMProvider,
+    chatHistory: { role: string; content: string }[],
+    currentMindMapJSON: string,
+    focusNodeId: string | null,
+    buildMessages: (context: TurnContext) => ChatMessage[]
+  ): Promise<TurnContext> {
+    const counter = this.getTokenCounter();
+    return this.context.build({
+      history: chatHistory.slice(0, -1),
+      request: chatHistory[chatHistory.length - 1]?.content || "",
+      map: parseMapSnapshot(currentMindMapJSON),
+      counter,
+      budget: this.getContextBudget(),
+      reservedTokens: counter.countMessages(buildMessages(EMPTY_TURN_CONTEXT)),
+      summarize: (messages, maxTokens) => provider.complete(messages, { temperature: 0.2, maxTokens }),
+      focusId: focusNodeId,
     });
+  }
+
+  // Completion options that feed the backend's token counts back into the estimate
+  private withUsageCalibration<T extends CompletionOptions>(messages: ChatMessage[], options: T): T {
+    const counter = this.getTokenCounter();
+    return { ...options, onUsage: (usage) => counter.calibrate(messages, usage.promptTokens) };
+  }
+
+  public canEmbed(): boolean {
+    return typeof this.getProvider().embed === "function";
+  }
 
-    return this.enginePromise;
+  public async embed(texts: string[]): Promise<number[][]> {
+    const provider = this.getProvider();
+    if (!provider.embed) {
+      throw new Error(`The ${provider.kind} provider does not support embeddings`);
+    }
+    return provider.embed(texts);
+  }
+
+  public async setProvider(config: ProviderConfig, onProgress?: ProviderProgressCallback): Promise<void> {
+    saveProviderConfig(config);
+    const previous = this.provider;
+    this.providerConfig = config;
+    this.provider = createProvider(config);
+    this.loadPromise = null;
+    // A WebLLM model otherwise keeps its GPU memory after the switch
+    previous?.unload?.().catch((e) => console.warn("Could not unload the previous provider", e));
+
+    await this.ensureLoaded(onProgress);
+  }
+
+  public async switchModel(modelSize: ModelSize, onProgress?: ProviderProgressCallback): Promise<void> {
+    if (modelSize === this.currentSize && this.loadPromise) {
+      return; // Already loaded
+    }
+
+    this.currentSize = modelSize;
+    this.loadPromise = null;
+
+    // Pre-load the new model
+    await this.ensureLoaded(onProgress);
+  }
+
+  private async ensureLoaded(onProgress?: ProviderProgressCallback): Promise<LLMProvider> {
+    const provider = this.getProvider();
+
+    if (!this.loadPromise) {
+      this.loadPromise = provider.load(this.resolveModelId(), onProgress).catch((e) => {
+        this.loadPromise = null;
+        throw e;
+      });
+    }
+
+    await this.loadPromise;
+    return provider;
   }
 
   public async chat(
     initialGoal: string,
     chatHistory: { role: string; content: string }[],
     currentMindMapJSON: string,
-    onProgress?: InitProgressCallback
+    onProgress?: ProviderProgressCallback,
+    onToken?: (delta: string) => void,
+    focusNodeId: string | null = null
   ) {
-    const engine = await this.getEngine(onProgress);
+    const provider = await this.ensureLoaded(onProgress);
 
     const isFirstTurn = chatHistory.length <= 1;
 
     // V39: Build messages array with system + user messages
-    const messages: { role: string; content: string }[] = [
-      { role: "system", content: SYSTEM_MESSAGE }
-    ];
+    let messages: ChatMessage[];
 
     if (isFirstTurn) {
-      messages.push({
-        role: "user",
-        content: buildFirstTurnUserMessage(initialGoal)
-      });
+      messages = [
+        { role: "system", content: SYSTEM_MESSAGE },
+        { role: "user", content: buildFirstTurnUserMessage(initialGoal) },
+      ];
     } else {
       // V44: Get the last user message
       const lastUserMsg = chatHistory[chatHistory.length - 1]?.content || "";
 
-      // V44: Limit conversation summary to last 4 messages (context window limit)
-      const recentHistory = chatHistory.slice(-5, -1); // Last 4, excluding current
-      const summary = recentHistory
-        .map(m => `${m.role}: ${m.content.slice(0, 100)}`) // Truncate long messages
-        .join('\n');
-
-      // V43: Find leaf nodes (outermost - nodes that are not sources of any edge)
-      let leafNodeLabels = "root";
-      let existingLabels = "";
-      try {
-        const mapData = JSON.parse(currentMindMapJSON);
-        if (mapData.nodes && mapData.edges) {
-          const sourceIds = new Set(mapData.edges.map((e: any) => e.source));
-          const leafNodes = mapData.nodes.filter((n: any) => !sourceIds.has(n.id));
-          leafNodeLabels = leafNodes.map((n: any) => n.label || n.data?.label).join(', ');
-          // V45: Get all existing labels to prevent duplicates
-          existingLabels = mapData.nodes.map((n: any) => n.label || n.data?.label).join(', ');
-        }
-      } catch (e) {
-        console.warn("Could not parse mind map for leaf nodes");
-      }
-
-      messages.push({
-        role: "user",
-        content: buildMainTurnUserMessage(initialGoal, lastUserMsg, summary, leafNodeLabels, existingLabels)
-      });
+      // Older turns, recent turns and map labels share the context budget
+      const buildMessages = (context: TurnContext): ChatMessage[] => [
+        { role: "system", content: SYSTEM_MESSAGE },
+        { role: "user", content: buildMainTurnUserMessage(initialGoal, lastUserMsg, context) },
+      ];
+      messages = buildMessages(await this.buildTurnContext(provider, chatHistory, currentMindMapJSON, focusNodeId, buildMessages));
     }
 
     console.log("V39 DEBUG: Sending messages:", JSON.stringify(messages, null, 2));
 
-    const reply = await engine.chat.completions.create({
-      messages: messages as any,
+    const completionOptions = this.withUsageCalibration(messages, {
       temperature: 0.7, // Higher for more creativity, less template copying
-      max_tokens: 400,
+      maxTokens: 800, // Streaming shows progress, so a longer reply no longer feels stuck
       // V42: No JSON format - using simple text format
     });
 
-    const response = reply.choices[0].message.content || "";
+    let response = "";
+    if (onToken) {
+      for await (const delta of provider.stream(messages, completionOptions)) {
+        response += delta;
+        onToken(delta);
+      }
+    } else {
+      response = await provider.complete(messages, completionOptions);
+    }
     console.log("V39 DEBUG: Raw response:", response);
 
     return response;
   }
+
+  /**
+   * Structured-output counterpart of chat(): asks for MAP_GENERATION_SCHEMA JSON,
+   * validates it, and feeds validation errors back for a bounded number of repairs.
+   * Throws StructuredOutputError if the model never produces a valid document.
+   */
+  public async generateMap(
+    initialGoal: string,
+    chatHistory: { role: string; content: string }[],
+    currentMindMapJSON: string,
+    onProgress?: ProviderProgressCallback,
+    focusNodeId: string | null = null
+  ): Promise<MapGeneration> {
+    const provider = await this.ensureLoaded(onProgress);
+
+    const isFirstTurn = chatHistory.length <= 1;
+    const lastUserMsg = isFirstTurn ? null : chatHistory[chatHistory.length - 1]?.content || "";
+
+    const buildMessages = (context: TurnContext): ChatMessage[] => [
+      { role: "system", content: SYSTEM_MESSAGE },
+      { role: "user", content: buildStructuredUserMessage(initialGoal, lastUserMsg, context) },
+    ];
+    const messages = isFirstTurn
+      ? buildMessages(EMPTY_TURN_CONTEXT)
+      : buildMessages(await this.buildTurnContext(provider, chatHistory, currentMindMapJSON, focusNodeId, buildMessages));
+    const completionOptions = this.withUsageCalibration(messages, { temperature: 0.4, maxTokens: 1200, jsonSchema: MAP_GENERATION_SCHEMA });
+
+    let raw = "";
+    let errors: string[] = [];
+    for (let attempt = 0; attempt <= MAX_STRUCTURED_REPAIR_ATTEMPTS; attempt++) {
+      raw = await provider.complete(messages, completionOptions);
+      const result = parseMapGeneration(raw);
+      if (result.ok) return result.value;
+
+      errors = result.errors;
+      console.warn(`Structured output attempt ${attempt + 1} failed validation:`, errors);
+      messages.push({ role: "assistant", content: raw }, { role: "user", content: buildRepairMessage(errors) });
+    }
+
+    throw new StructuredOutputError(errors, raw);
+  }
+
+  /**
+   * Asks for the sub-topics of one branch, with the path from the goal as context.
+   * Returns at most `breadth` topics; rejects with an AbortError if `signal` fires.
+   */
+  public async expandBranch(request: BranchRequest, signal?: AbortSignal): Promise<ParsedTopic[]> {
+    const response = await this.completePrompt(buildBranchUserMessage(request), {
+      temperature: 0.7,
+      maxTokens: 120 + 60 * request.breadth,
+      signal,
+    });
+    return parseResponseText(response).topics.slice(0, request.breadth);
+  }
+
+  /** One-off completion of `prompt` under the shared system message, outside the chat history. */
+  public async completePrompt(prompt: string, options: Pick<CompletionOptions, "temperature" | "maxTokens" | "signal"> = {}): Promise<string> {
+    const provider = await this.ensureLoaded();
+    options.signal?.throwIfAborted();
+
+    const messages: ChatMessage[] = [
+      { role: "system", content: SYSTEM_MESSAGE },
+      { role: "user", content: prompt },
+    ];
+    return provider.complete(messages, this.withUsageCalibration(messages, options));
+  }
 }
 
 export const aiService = AIService.getInstance();
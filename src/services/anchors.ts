@@ -0,0 +1,295 @@
+// ============================================================================
+// ANCHOR RESOLUTION
+// Decides which existing node a newly generated topic should hang off. Candidates
+// are ranked with BM25 over their label, description and ancestor path, and the
+// ranking is optionally re-checked with embeddings. Every decision carries a
+// confidence so the caller can ask the user instead of guessing.
+// ============================================================================
+
+import { Edge, Node } from '@xyflow/react';
+import { buildHierarchy, findRootId, getAncestorIds } from '@/lib/graph';
+
+/** Below this the chat asks the user where the topic belongs. */
+export const LOW_CONFIDENCE_THRESHOLD = 0.35;
+
+export interface AnchorQuery {
+  name: string;
+  desc?: string;
+  /** PARENT: hint from the model, if any */
+  preferredParent?: string;
+  /** The user message that produced the topic */
+  context?: string;
+}
+
+export interface AnchorCandidate {
+  id: string;
+  label: string;
+  score: number;
+}
+
+export type AnchorReason = 'explicit' | 'focus' | 'lexical' | 'semantic' | 'fallback';
+
+export interface AnchorResolution {
+  parentId: string;
+  /** 0..1; below LOW_CONFIDENCE_THRESHOLD the placement should be confirmed by the user */
+  confidence: number;
+  reason: AnchorReason;
+  /** Best candidates, strongest first (never includes the root) */
+  candidates: AnchorCandidate[];
+}
+
+interface AnchorDocument {
+  id: string;
+  label: string;
+  ancestorIds: string[];
+  /** Text handed to the embedding model */
+  text: string;
+  terms: Map<string, number>;
+  length: number;
+}
+
+export interface AnchorIndex {
+  rootId: string | undefined;
+  rootLabel: string;
+  documents: AnchorDocument[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'i', 'in', 'into', 'is', 'it',
+  'me', 'more', 'my', 'of', 'on', 'or', 'our', 'some', 'that', 'the', 'this', 'to', 'under', 'up', 'we',
+  'what', 'with', 'add', 'about', 'ideas', 'please', 'can', 'you', 'your', 'should', 'need', 'want',
+]);
+
+// BM25 parameters (the usual defaults) and per-field weights
+const K1 = 1.2;
+const B = 0.75;
+const LABEL_WEIGHT = 3;
+const DESCRIPTION_WEIGHT = 1;
+const PATH_WEIGHT = 1;
+const HINT_WEIGHT = 3;
+const NAME_WEIGHT = 1;
+const DESC_QUERY_WEIGHT = 0.5;
+const CONTEXT_WEIGHT = 1;
+
+// Score at which lexical strength reaches ~63%; BM25 scores are unbounded, so
+// strength saturates instead of being normalised against a maximum
+const STRENGTH_SCALE = 4;
+// A cosine gap this large between the two best candidates counts as fully confident
+const SEMANTIC_MARGIN = 0.08;
+const MAX_CANDIDATES = 5;
+const MAX_EMBEDDED_CANDIDATES = 24;
+
+export const normalizeLabel = (text: string): string =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Crude plural folding so "budgets" and "budget" meet
+const stem = (token: string): string => {
+  if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+};
+
+export const tokenize = (text: string): string[] =>
+  normalizeLabel(text)
+    .split(' ')
+    .filter(t => t.length > 1 && !STOPWORDS.has(t))
+    .map(stem);
+
+const addTerms = (terms: Map<string, number>, text: string, weight: number): number => {
+  const tokens = tokenize(text);
+  tokens.forEach(t => terms.set(t, (terms.get(t) || 0) + weight));
+  return tokens.length * weight;
+};
+
+const readText = (node: Node, key: 'label' | 'description'): string => {
+  const value = (node.data as Record<string, unknown>)?.[key];
+  return typeof value === 'string' ? value : '';
+};
+
+/**
+ * Builds the BM25 corpus: one document per node except the root, made of its
+ * label (weighted up), its description and the labels of its ancestors.
+ */
+export const buildAnchorIndex = (nodes: Node[], edges: Edge[], mapRootId?: string | null): AnchorIndex => {
+  const rootId = findRootId(nodes, mapRootId);
+  const hierarchy = buildHierarchy(nodes, edges, rootId);
+  const labels = new Map(nodes.map(n => [n.id, readText(n, 'label')]));
+
+  const documents = nodes
+    .filter(n => n.id !== rootId)
+    .map((node): AnchorDocument => {
+      const label = readText(node, 'label');
+      const description = readText(node, 'description');
+      const ancestorIds = getAncestorIds(hierarchy, node.id);
+      const path = ancestorIds
+        .filter(id => id !== rootId)
+        .map(id => labels.get(id) || '')
+        .join(' ');
+
+      const terms = new Map<string, number>();
+      const length = addTerms(terms, label, LABEL_WEIGHT)
+        + addTerms(terms, description, DESCRIPTION_WEIGHT)
+        + addTerms(terms, path, PATH_WEIGHT);
+
+      return {
+        id: node.id,
+        label,
+        ancestorIds,
+        text: [path, label, description].filter(Boolean).join(' › '),
+        terms,
+        length,
+      };
+    });
+
+  const documentFrequency = new Map<string, number>();
+  documents.forEach(doc => doc.terms.forEach((_, term) => {
+    documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+  }));
+
+  const averageLength = documents.reduce((sum, d) => sum + d.length, 0) / Math.max(documents.length, 1);
+  const rootLabel = rootId ? labels.get(rootId) || '' : '';
+  return { rootId, rootLabel, documents, documentFrequency, averageLength };
+};
+
+const buildQueryTerms = (query: AnchorQuery): Map<string, number> => {
+  const terms = new Map<string, number>();
+  addTerms(terms, query.name, NAME_WEIGHT);
+  if (query.desc) addTerms(terms, query.desc, DESC_QUERY_WEIGHT);
+  if (query.preferredParent) addTerms(terms, query.preferredParent, HINT_WEIGHT);
+  if (query.context) addTerms(terms, query.context, CONTEXT_WEIGHT);
+  return terms;
+};
+
+const bm25 = (index: AnchorIndex, doc: AnchorDocument, queryTerms: Map<string, number>): number => {
+  const n = index.documents.length;
+  let score = 0;
+  queryTerms.forEach((weight, term) => {
+    const tf = doc.terms.get(term);
+    if (!tf) return;
+    const df = index.documentFrequency.get(term) || 0;
+    const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+    score += weight * idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / (index.averageLength || 1)));
+  });
+  return score;
+};
+
+// Strong and clearly ahead of the runner-up -> confident
+const lexicalConfidence = (best: number, second: number): number => {
+  if (best <= 0) return 0;
+  const strength = 1 - Math.exp(-best / STRENGTH_SCALE);
+  const margin = (best - second) / best;
+  return strength * (0.5 + 0.5 * margin);
+};
+
+/** Every non-root node with any lexical overlap with the query, best first. */
+export const rankAnchors = (index: AnchorIndex, query: AnchorQuery): AnchorCandidate[] => {
+  const queryTerms = buildQueryTerms(query);
+  return index.documents
+    .map(doc => ({ id: doc.id, label: doc.label, score: bm25(index, doc, queryTerms) }))
+    .filter(c => c.score > 0)
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Picks a parent for one topic. An exact match of the model's PARENT hint wins
+ * outright. When the chat is focused on a node (`focusId`, anything but the root),
+ * topics default under it unless a node inside that branch is a confident match.
+ * Otherwise the best BM25 candidate is used; with no lexical signal at all the
+ * topic goes under the root with zero confidence.
+ */
+export const resolveAnchor = (index: AnchorIndex, query: AnchorQuery, focusId?: string): AnchorResolution => {
+  if (index.documents.length === 0) {
+    // Nothing but the root to choose from, so there is nothing to ask either
+    return { parentId: index.rootId || focusId || 'root', confidence: 1, reason: 'fallback', candidates: [] };
+  }
+
+  const ranked = rankAnchors(index, query);
+  const candidates = ranked.slice(0, MAX_CANDIDATES);
+
+  const hint = query.preferredParent ? normalizeLabel(query.preferredParent) : '';
+  if (hint) {
+    if (index.rootId && (hint === 'root' || hint === normalizeLabel(index.rootLabel))) {
+      return { parentId: index.rootId, confidence: 1, reason: 'explicit', candidates };
+    }
+    const exact = index.documents.filter(d => normalizeLabel(d.label) === hint);
+    if (exact.length === 1) {
+      return { parentId: exact[0].id, confidence: 1, reason: 'explicit', candidates };
+    }
+  }
+
+  const focus = focusId ? index.documents.find(d => d.id === focusId) : undefined;
+  if (focus) {
+    const inBranch = ranked.filter(c =>
+      c.id === focus.id || index.documents.find(d => d.id === c.id)!.ancestorIds.includes(focus.id)
+    );
+    if (inBranch.length > 0 && inBranch[0].id !== focus.id) {
+      const confidence = lexicalConfidence(inBranch[0].score, inBranch[1]?.score || 0);
+      if (confidence >= LOW_CONFIDENCE_THRESHOLD) {
+        return { parentId: inBranch[0].id, confidence, reason: 'lexical', candidates };
+      }
+    }
+    return { parentId: focus.id, confidence: 1, reason: 'focus', candidates };
+  }
+
+  if (ranked.length === 0) {
+    return { parentId: index.rootId || 'root', confidence: 0, reason: 'fallback', candidates };
+  }
+
+  return {
+    parentId: ranked[0].id,
+    confidence: lexicalConfidence(ranked[0].score, ranked[1]?.score || 0),
+    reason: 'lexical',
+    candidates,
+  };
+};
+
+export const anchorQueryText = (query: AnchorQuery): string =>
+  [query.name, query.desc, query.preferredParent && `part of ${query.preferredParent}`].filter(Boolean).join('. ');
+
+export const cosine = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * Second opinion for an uncertain lexical decision: re-ranks the shortlist (or,
+ * without any lexical hit, every node up to a cap) by embedding similarity.
+ * `embed` returns one vector per input text.
+ */
+export const refineAnchorWithEmbeddings = async (
+  index: AnchorIndex,
+  query: AnchorQuery,
+  resolution: AnchorResolution,
+  embed: (texts: string[]) => Promise<number[][]>
+): Promise<AnchorResolution> => {
+  const shortlist = resolution.candidates.length > 1
+    ? resolution.candidates.map(c => index.documents.find(d => d.id === c.id)!).filter(Boolean)
+    : index.documents.slice(0, MAX_EMBEDDED_CANDIDATES);
+  if (shortlist.length === 0) return resolution;
+
+  const [queryVector, ...vectors] = await embed([anchorQueryText(query), ...shortlist.map(d => d.text)]);
+  const ranked = shortlist
+    .map((doc, i) => ({ id: doc.id, label: doc.label, score: cosine(queryVector, vectors[i]) }))
+    .sort((a, b) => b.score - a.score);
+
+  const margin = ranked.length > 1 ? ranked[0].score - ranked[1].score : SEMANTIC_MARGIN;
+  const semanticConfidence = Math.min(1, Math.max(0, margin / SEMANTIC_MARGIN));
+  const agrees = ranked[0].id === resolution.parentId;
+
+  return {
+    parentId: ranked[0].id,
+    // Agreement between both rankings is worth more than either alone
+    confidence: agrees ? Math.max(resolution.confidence, semanticConfidence) : semanticConfidence,
+    reason: 'semantic',
+    candidates: ranked.slice(0, MAX_CANDIDATES),
+  };
+};
@@ -0,0 +1,79 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useStore } from '@/lib/store';
+import { aiService } from './ai';
+import { cancelBranchExpansion, countBranchCalls, expandBranch } from './branch';
+import { bakeryMap } from './__fixtures__/maps';
+
+const childLabels = (parentId: string) => {
+  const { nodes, edges } = useStore.getState();
+  return edges
+    .filter(e => e.source === parentId)
+    .map(e => nodes.find(n => n.id === e.target)?.data.label)
+    .sort();
+};
+
+const idOf = (label: string) => useStore.getState().nodes.find(n => n.data.label === label)!.id;
+
+beforeAll(async () => {
+  await aiService.setProvider({ kind: 'mock' });
+});
+
+beforeEach(() => {
+  useStore.setState(useStore.getInitialState(), true);
+  useStore.setState({ ...bakeryMap(), goal: 'Open a bakery' });
+  vi.restoreAllMocks();
+  vi.spyOn(console, 'log').mockImplementation(() => { });
+});
+
+describe('countBranchCalls', () => {
+  it('makes one call per node above the last level', () => {
+    expect(countBranchCalls(3, 1)).toBe(1);
+    expect(countBranchCalls(3, 2)).toBe(4);
+    expect(countBranchCalls(2, 3)).toBe(7);
+  });
+});
+
+describe('expandBranch', () => {
+  it('adds breadth children per level under the right parents', async () => {
+    const result = await expandBranch('aspect-1', { breadth: 2, depth: 2 });
+
+    expect(result).toEqual({ added: 6, cancelled: false });
+    expect(childLabels('aspect-1')).toEqual(['Budget step 1', 'Budget step 2']);
+    expect(childLabels(idOf('Budget step 2'))).toEqual(['Budget step 2 step 1', 'Budget step 2 step 2']);
+    expect(useStore.getState().branchExpansions).toEqual({});
+  });
+
+  it('sends the ancestor path and existing children as context', async () => {
+    const expand = vi.spyOn(aiService, 'expandBranch');
+    await expandBranch('aspect-2', { breadth: 1, depth: 1 });
+
+    expect(expand.mock.calls[0][0]).toMatchObject({
+      goal: 'Open a bakery',
+      label: 'Marketing',
+      path: ['Open a bakery'],
+      existingChildren: ['Instagram campaign'],
+      breadth: 1,
+    });
+  });
+
+  it('is a single undo step however many levels it adds', async () => {
+    const before = useStore.getState().nodes;
+    await expandBranch('aspect-1', { breadth: 2, depth: 3 });
+    useStore.getState().undo();
+
+    expect(useStore.getState().nodes).toBe(before);
+  });
+
+  it('keeps what was added when cancelled', async () => {
+    const unsubscribe = useStore.subscribe((state) => {
+      if (state.branchExpansions['aspect-1']?.done === 1) cancelBranchExpansion('aspect-1');
+    });
+    const result = await expandBranch('aspect-1', { breadth: 2, depth: 2 });
+    unsubscribe();
+
+    expect(result).toEqual({ added: 2, cancelled: true });
+    expect(childLabels('aspect-1')).toEqual(['Budget step 1', 'Budget step 2']);
+    expect(childLabels(idOf('Budget step 1'))).toEqual([]);
+    expect(useStore.getState().branchExpansions).toEqual({});
+  });
+});
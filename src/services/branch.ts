@@ -0,0 +1,129 @@
+// ============================================================================
+// BRANCH EXPANSION
+// Grows one node's branch with AI sub-topics, level by level. Every reply goes
+// through the text parser and the same merge as chat turns, so duplicates and
+// review mode behave the same. A run can be cancelled, and undoes as one step
+// unless the user edits the map while it goes.
+// ============================================================================
+
+import { Node } from '@xyflow/react';
+import { createHistoryStep, runInHistoryStep, useStore } from '@/lib/store';
+import { buildHierarchy, getAncestorIds } from '@/lib/graph';
+import { aiService } from './ai';
+
+export const MAX_BRANCH_BREADTH = 8;
+export const MAX_BRANCH_DEPTH = 3;
+
+export interface BranchExpansionOptions {
+  /** Children per expanded node */
+  breadth: number;
+  /** Levels to generate below the starting node */
+  depth: number;
+}
+
+export interface BranchExpansionResult {
+  added: number;
+  cancelled: boolean;
+}
+
+// One controller per running expansion, keyed by the node it started from
+const controllers = new Map<string, AbortController>();
+
+/** AI calls a full run makes: one per node on every level but the last. */
+export const countBranchCalls = (breadth: number, depth: number): number => {
+  let total = 0;
+  for (let level = 0; level < depth; level++) total += breadth ** level;
+  return total;
+};
+
+const readText = (node: Node | undefined, key: 'label' | 'description'): string => {
+  const value = node?.data[key];
+  return typeof value === 'string' ? value : '';
+};
+
+// Board plus review proposals: in review mode the children of a level are ghosts
+const currentGraph = () => {
+  const { nodes, edges, staged, rootId } = useStore.getState();
+  return { nodes: [...nodes, ...staged.nodes], edges: [...edges, ...staged.edges], rootId };
+};
+
+/**
+ * Adds up to `breadth` children under `nodeId`, then under each new child, for
+ * `depth` levels. Only nodes created by this run are expanded further; a topic
+ * that matches an existing label is linked, not recursed into. Cancelling keeps
+ * whatever was already added.
+ */
+export const expandBranch = async (nodeId: string, options: BranchExpansionOptions): Promise<BranchExpansionResult> => {
+  const breadth = Math.min(Math.max(1, Math.round(options.breadth)), MAX_BRANCH_BREADTH);
+  const depth = Math.min(Math.max(1, Math.round(options.depth)), MAX_BRANCH_DEPTH);
+  if (controllers.has(nodeId)) return { added: 0, cancelled: false };
+
+  const controller = new AbortController();
+  controllers.set(nodeId, controller);
+  const { goal, setBranchExpansion } = useStore.getState();
+  // Every level merged in undoes as one step, unless the user edits the map in between
+  const step = createHistoryStep();
+
+  let done = 0;
+  let added = 0;
+  let total = countBranchCalls(breadth, depth);
+
+  try {
+    let frontier = [nodeId];
+    for (let level = 0; level < depth && frontier.length > 0; level++) {
+      const next: string[] = [];
+
+      for (let i = 0; i < frontier.length; i++) {
+        const parentId = frontier[i];
+        const { nodes, edges, rootId } = currentGraph();
+        const parent = nodes.find(n => n.id === parentId);
+        // Deleted (or rejected) while the run was going
+        if (!parent) continue;
+
+        setBranchExpansion(nodeId, { done, total, label: readText(parent, 'label') });
+
+        const hierarchy = buildHierarchy(nodes, edges, rootId);
+        const labelOf = (id: string) => readText(nodes.find(n => n.id === id), 'label');
+        const topics = await aiService.expandBranch({
+          goal,
+          label: readText(parent, 'label'),
+          description: readText(parent, 'description'),
+          path: getAncestorIds(hierarchy, parentId).map(labelOf),
+          existingChildren: (hierarchy.children.get(parentId) || []).map(labelOf),
+          breadth,
+        }, controller.signal);
+        done++;
+
+        if (topics.length > 0) {
+          const before = new Set(nodes.map(n => n.id));
+          runInHistoryStep(step, () => useStore.getState().setMindMapFromJSON({
+            nodes: topics.map((t, index) => ({ id: `branch-${index}`, label: t.name, description: t.desc })),
+            edges: topics.map((_, index) => ({ source: parentId, target: `branch-${index}` })),
+          }));
+          const created = currentGraph().edges
+            .filter(e => e.source === parentId && !before.has(e.target))
+            .map(e => e.target);
+          added += created.length;
+          next.push(...created);
+        }
+
+        // Fewer topics than asked for means fewer calls further down
+        const levelsLeft = depth - level - 1;
+        total = done + (frontier.length - i - 1) * countBranchCalls(breadth, levelsLeft + 1) + next.length * countBranchCalls(breadth, levelsLeft);
+      }
+
+      frontier = next;
+    }
+    return { added, cancelled: false };
+  } catch (e) {
+    if (controller.signal.aborted) return { added, cancelled: true };
+    throw e;
+  } finally {
+    controllers.delete(nodeId);
+    setBranchExpansion(nodeId, null);
+  }
+};
+
+export const cancelBranchExpansion = (nodeId: string): void => {
+  controllers.get(nodeId)?.abort();
+};
@@ -0,0 +1,145 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ContextManager, ConversationTurn, MapSnapshot, TokenCounter, describeFocus, describeLinks, selectNodeLabels } from './context';
+
+const turns = (count: number): ConversationTurn[] =>
+  Array.from({ length: count }, (_, i) => ({
+    role: i % 2 === 0 ? 'user' : 'assistant',
+    content: `Message ${i} ${'about the bakery plan '.repeat(8)}`,
+  }));
+
+const map: MapSnapshot = {
+  nodes: [
+    { id: 'root', label: 'Open a bakery' },
+    { id: 'a', label: 'Budget', description: 'Startup costs' },
+    { id: 'b', label: 'Marketing', description: 'Social media' },
+    { id: 'c', label: 'Instagram campaign', description: 'Posts and reels' },
+    ...Array.from({ length: 40 }, (_, i) => ({ id: `x${i}`, label: `Detail ${i}` })),
+  ],
+  edges: [
+    { source: 'root', target: 'a' },
+    { source: 'root', target: 'b' },
+    { source: 'b', target: 'c' },
+    ...Array.from({ length: 40 }, (_, i) => ({ source: 'a', target: `x${i}` })),
+  ],
+};
+
+const build = (manager: ContextManager, history: ConversationTurn[], summarize = vi.fn(async () => 'Summary of earlier turns')) =>
+  manager.build({
+    history,
+    request: 'More Instagram ideas',
+    map,
+    counter: new TokenCounter('Qwen2.5-1.5B'),
+    budget: 1000,
+    reservedTokens: 200,
+    summarize,
+  });
+
+describe('TokenCounter', () => {
+  it('moves its estimate towards the counts the backend reports', () => {
+    const counter = new TokenCounter('some-model');
+    const messages = [{ role: 'user' as const, content: 'x'.repeat(400) }];
+    const before = counter.countMessages(messages);
+    counter.calibrate(messages, 204);
+
+    expect(counter.countMessages(messages)).toBeGreaterThan(before);
+  });
+});
+
+describe('ContextManager', () => {
+  it('sends short conversations verbatim without summarizing', async () => {
+    const summarize = vi.fn(async () => 'unused');
+    const context = await build(new ContextManager(), turns(2), summarize);
+
+    expect(summarize).not.toHaveBeenCalled();
+    expect(context.summary).toBe('');
+    expect(context.recentTurns.split('\n')).toHaveLength(2);
+  });
+
+  it('folds older turns into the rolling summary once they overflow', async () => {
+    const manager = new ContextManager();
+    const summarize = vi.fn(async () => 'Summary of earlier turns');
+    const history = turns(12);
+    const context = await build(manager, history, summarize);
+
+    expect(summarize).toHaveBeenCalledTimes(1);
+    expect(context.summary).toBe('Summary of earlier turns');
+    expect(context.recentTurns).toContain('Message 11');
+    expect(context.recentTurns).not.toContain('Message 0 ');
+
+    // The next turn reuses the summary instead of summarizing again
+    await build(manager, [...history, ...turns(1)], summarize);
+    expect(summarize).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves the current request out of the recent turns', async () => {
+    const context = await build(new ContextManager(), [...turns(2), { role: 'user', content: 'More Instagram ideas' }]);
+
+    expect(context.recentTurns.split('\n')).toHaveLength(2);
+    expect(context.recentTurns).not.toContain('More Instagram ideas');
+  });
+
+  it('keeps going with the openings of old turns when summarizing fails', async () => {
+    const context = await build(new ContextManager(), turns(12), vi.fn(async () => { throw new Error('offline'); }));
+
+    expect(context.summary).toContain('Message 0');
+  });
+
+  it('starts a new summary when the history it covered is gone', async () => {
+    const manager = new ContextManager();
+    await build(manager, turns(12));
+    const context = await build(manager, turns(1), vi.fn(async () => 'unused'));
+
+    expect(context.summary).toBe('');
+  });
+});
+
+describe('selectNodeLabels', () => {
+  it('puts the goal and the nodes matching the request first and reports what did not fit', () => {
+    const { nodeLabels, omittedNodeCount } = selectNodeLabels(map, 'More Instagram ideas', new TokenCounter('qwen'), 40);
+
+    expect(nodeLabels.slice(0, 2)).toEqual(['Open a bakery', 'Instagram campaign']);
+    expect(omittedNodeCount).toBe(map.nodes.length - nodeLabels.length);
+    expect(omittedNodeCount).toBeGreaterThan(0);
+  });
+});
+
+describe('describeFocus', () => {
+  it('describes the path, siblings and branch of the focused node', () => {
+    const focus = describeFocus(map, 'b', new TokenCounter('qwen'), 200);
+
+    expect(focus).toEqual({
+      label: 'Marketing',
+      path: ['Open a bakery'],
+      siblings: ['Budget'],
+      descendants: ['Instagram campaign'],
+      omittedDescendantCount: 0,
+    });
+  });
+
+  it('lists as much of a large branch as fits', () => {
+    const focus = describeFocus(map, 'a', new TokenCounter('qwen'), 30)!;
+
+    expect(focus.descendants.length).toBeGreaterThan(0);
+    expect(focus.descendants.length + focus.omittedDescendantCount).toBe(40);
+  });
+});
+
+describe('describeLinks', () => {
+  const linked: MapSnapshot = {
+    ...map,
+    edges: [
+      ...map.edges,
+      { source: 'c', target: 'a', kind: 'dependency' },
+      { source: 'b', target: 'a', kind: 'custom', label: 'competes for cash' },
+      { source: 'x1', target: 'c', kind: 'related' },
+    ],
+  };
+
+  it('lists links between visible nodes and keeps them out of the tree', () => {
+    expect(describeLinks(linked, ['Budget', 'Marketing', 'Instagram campaign'])).toEqual([
+      '"Instagram campaign" -> "Budget" (depends on)',
+      '"Marketing" -> "Budget" (competes for cash)',
+    ]);
+    expect(describeFocus(linked, 'a', new TokenCounter('qwen'), 200)?.path).toEqual(['Open a bakery']);
+  });
+});
@@ -0,0 +1,353 @@
+// ============================================================================
+// CONVERSATION CONTEXT
+// Fits what the model sees about the conversation and the map into a token
+// budget: recent turns verbatim, older turns folded into a rolling summary,
+// and as many existing node labels as fit, most relevant to the request first.
+// ============================================================================
+
+import type { Edge, Node } from '@xyflow/react';
+import { EDGE_KINDS, EdgeKind, buildHierarchy, findRootId, getAncestorIds } from '@/lib/graph';
+import { buildAnchorIndex, rankAnchors } from './anchors';
+import type { ChatMessage } from './providers';
+
+export interface ConversationTurn {
+  role: string;
+  content: string;
+}
+
+/** Map as serialized by getMindMapAsJSON. */
+export interface MapSnapshot {
+  /** The session's designated root; older callers leave it out */
+  rootId?: string | null;
+  nodes: { id: string; label?: string; description?: string }[];
+  /** `kind` is left out for parent/child edges */
+  edges: { source: string; target: string; kind?: EdgeKind; label?: string }[];
+}
+
+export interface FocusContext {
+  label: string;
+  /** Labels from the goal down to the focused node's parent */
+  path: string[];
+  siblings: string[];
+  /** Labels inside the focused branch, nearest first, as many as fit */
+  descendants: string[];
+  omittedDescendantCount: number;
+}
+
+export interface TurnContext {
+  /** Rolling summary of turns no longer sent verbatim ('' while there are none) */
+  summary: string;
+  /** The newest turns, oldest first, as "role: text" lines */
+  recentTurns: string;
+  /** Existing labels that fit the budget, goal first, then by relevance to the request */
+  nodeLabels: string[];
+  omittedNodeCount: number;
+  /** The branch the user is talking about, when a node is focused */
+  focus: FocusContext | null;
+  /** Cross-links between nodes in `nodeLabels`, as `"A" -> "B" (kind)` */
+  links: string[];
+}
+
+export const EMPTY_TURN_CONTEXT: TurnContext = { summary: '', recentTurns: '', nodeLabels: [], omittedNodeCount: 0, focus: null, links: [] };
+
+export const DEFAULT_CONTEXT_BUDGET = 2048;
+export const MIN_CONTEXT_BUDGET = 512;
+
+// Share of the budget left after the fixed prompt
+const RECENT_SHARE = 0.35;
+const SUMMARY_SHARE = 0.15;
+const FOCUS_SHARE = 0.2;
+
+const DEFAULT_CHARS_PER_TOKEN = 4;
+// Starting ratios for common model families; refined from the usage the backend reports
+const MODEL_CHARS_PER_TOKEN: [RegExp, number][] = [
+  [/qwen/i, 3.6],
+  [/llama/i, 3.8],
+  [/phi/i, 3.5],
+  [/gemma/i, 3.7],
+];
+// Role markers and separators the chat template adds around every message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Estimates token counts for one model. None of the backends expose their
+ * tokenizer, so this is a characters-per-token ratio, seeded per model family
+ * and corrected with the prompt token counts the backend reports back.
+ */
+export class TokenCounter {
+  private charsPerToken: number;
+
+  constructor(modelId: string) {
+    this.charsPerToken = MODEL_CHARS_PER_TOKEN.find(([pattern]) => pattern.test(modelId))?.[1] ?? DEFAULT_CHARS_PER_TOKEN;
+  }
+
+  public count(text: string): number {
+    return Math.ceil(text.length / this.charsPerToken);
+  }
+
+  public countMessages(messages: ChatMessage[]): number {
+    return messages.reduce((sum, m) => sum + this.count(m.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+  }
+
+  /** Moves the ratio towards what the backend actually counted for `messages`. */
+  public calibrate(messages: ChatMessage[], promptTokens: number): void {
+    const chars = messages.reduce((sum, m) => sum + m.content.length, 0);
+    const contentTokens = promptTokens - messages.length * MESSAGE_OVERHEAD_TOKENS;
+    if (contentTokens <= 0) return;
+    const measured = chars / contentTokens;
+    // Ignore nonsense from servers that report usage differently
+    if (measured < 1 || measured > 8) return;
+    this.charsPerToken = this.charsPerToken * 0.7 + measured * 0.3;
+  }
+
+  /** Cuts `text` to at most `tokens` tokens, marking the cut. */
+  public clip(text: string, tokens: number): string {
+    const maxChars = Math.max(0, Math.floor(tokens * this.charsPerToken));
+    return text.length <= maxChars ? text : `${text.slice(0, Math.max(0, maxChars - 1)).trimEnd()}…`;
+  }
+}
+
+export const parseMapSnapshot = (json: string): MapSnapshot => {
+  try {
+    const data = JSON.parse(json);
+    if (Array.isArray(data.nodes) && Array.isArray(data.edges)) return data;
+  } catch {
+    console.warn("Could not parse mind map for the prompt");
+  }
+  return { nodes: [], edges: [] };
+};
+
+const formatTurn = (turn: ConversationTurn) => `${turn.role}: ${turn.content.replace(/\s+/g, ' ').trim()}`;
+
+// Cheap identity for the turns a summary covers, so an undo or a different map resets it
+const fingerprint = (turns: ConversationTurn[]): string => {
+  let hash = 0;
+  for (const turn of turns) {
+    const text = `${turn.role}:${turn.content}`;
+    for (let i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return `${turns.length}:${hash}`;
+};
+
+export type Summarizer = (messages: ChatMessage[], maxTokens: number) => Promise<string>;
+
+interface BuildContextArgs {
+  /** Earlier turns, oldest first, excluding the current request */
+  history: ConversationTurn[];
+  request: string;
+  map: MapSnapshot;
+  counter: TokenCounter;
+  /** Total prompt budget in tokens */
+  budget: number;
+  /** Tokens already taken by the system message and the prompt template */
+  reservedTokens: number;
+  summarize: Summarizer;
+  /** Focused node, if any; its branch is described ahead of the general label list */
+  focusId?: string | null;
+}
+
+/**
+ * Keeps the rolling summary for the current conversation and assembles the
+ * context for each turn. Summarizing costs a model call, so turns are folded in
+ * batches: once the unsummarized turns overflow their share, the oldest are
+ * folded until the rest fills half of it.
+ */
+export class ContextManager {
+  private summary = '';
+  private summarizedCount = 0;
+  private summarizedFingerprint = fingerprint([]);
+
+  public reset(): void {
+    this.summary = '';
+    this.summarizedCount = 0;
+    this.summarizedFingerprint = fingerprint([]);
+  }
+
+  public async build({ history: allTurns, request, map, counter, budget, reservedTokens, summarize, focusId }: BuildContextArgs): Promise<TurnContext> {
+    // The request is sent on its own; a copy ending the history would be counted and shown twice
+    const last = allTurns[allTurns.length - 1];
+    const history = last?.role === 'user' && last.content === request ? allTurns.slice(0, -1) : allTurns;
+    const available = Math.max(0, budget - reservedTokens);
+    const turnBudget = Math.floor(available * RECENT_SHARE);
+    const summaryBudget = Math.floor(available * SUMMARY_SHARE);
+
+    // The history the summary was built from is gone (undo, another map): start over
+    if (history.length < this.summarizedCount
+      || fingerprint(history.slice(0, this.summarizedCount)) !== this.summarizedFingerprint) {
+      this.reset();
+    }
+
+    const turnTokens = (turns: ConversationTurn[]) =>
+      turns.reduce((sum, t) => sum + counter.count(formatTurn(t)) + 1, 0);
+
+    let live = history.slice(this.summarizedCount);
+    if (live.length > 1 && turnTokens(live) > turnBudget) {
+      let fold = 0;
+      while (fold < live.length - 1 && turnTokens(live.slice(fold)) > turnBudget / 2) fold++;
+      await this.fold(history, fold, counter, summaryBudget, summarize);
+      live = history.slice(this.summarizedCount);
+    }
+
+    // Newest first until the share is used; a single oversized turn is clipped instead of dropped
+    const recent: string[] = [];
+    let used = 0;
+    for (let i = live.length - 1; i >= 0; i--) {
+      const line = formatTurn(live[i]);
+      const tokens = counter.count(line) + 1;
+      if (used + tokens > turnBudget) {
+        if (recent.length === 0) recent.unshift(counter.clip(line, turnBudget));
+        break;
+      }
+      recent.unshift(line);
+      used += tokens;
+    }
+    const recentTurns = recent.join('\n');
+    const summary = counter.clip(this.summary, summaryBudget);
+
+    const focus = focusId ? describeFocus(map, focusId, counter, Math.floor(available * FOCUS_SHARE)) : null;
+    const focusTokens = focus ? counter.count([...focus.path, ...focus.siblings, ...focus.descendants].join(', ')) : 0;
+
+    const nodeBudget = available - counter.count(recentTurns) - counter.count(summary) - focusTokens;
+    const { nodeLabels, omittedNodeCount } = selectNodeLabels(map, request, counter, nodeBudget);
+    // Links only mean something between nodes the model can see, and get whatever budget is left
+    const links = fitLabels(describeLinks(map, nodeLabels), counter, nodeBudget - counter.count(nodeLabels.join(', ')));
+
+    return { summary, recentTurns, nodeLabels, omittedNodeCount, focus, links };
+  }
+
+  private async fold(
+    history: ConversationTurn[],
+    count: number,
+    counter: TokenCounter,
+    summaryBudget: number,
+    summarize: Summarizer
+  ): Promise<void> {
+    if (count <= 0) return;
+    const turns = history.slice(this.summarizedCount, this.summarizedCount + count);
+    const words = Math.max(20, Math.floor(summaryBudget * 0.75));
+
+    let next: string;
+    try {
+      next = (await summarize([
+        { role: 'system', content: 'You keep a running summary of a planning conversation.' },
+        {
+          role: 'user', content: `Current summary: ${this.summary || '(none yet)'}
+
+New messages:
+${turns.map(t => counter.clip(formatTurn(t), summaryBudget)).join('\n')}
+
+Rewrite the summary so it also covers the new messages. Keep decisions, constraints and open questions. At most ${words} words. Reply with the summary only.`,
+        },
+      ], summaryBudget)).trim();
+    } catch (e) {
+      console.warn("Summarizing older turns failed, keeping their openings instead", e);
+      next = '';
+    }
+    if (!next) {
+      next = [this.summary, ...turns.map(t => counter.clip(formatTurn(t), 30))].filter(Boolean).join(' ');
+    }
+
+    this.summary = counter.clip(next, summaryBudget);
+    this.summarizedCount += count;
+    this.summarizedFingerprint = fingerprint(history.slice(0, this.summarizedCount));
+  }
+}
+
+const toGraph = (map: MapSnapshot): { nodes: Node[]; edges: Edge[] } => ({
+  nodes: map.nodes.map(n => ({
+    id: n.id,
+    position: { x: 0, y: 0 },
+    data: { label: n.label || '', description: n.description || '' },
+  })),
+  edges: map.edges.map((e, i) => ({
+    id: `context-${i}`,
+    source: e.source,
+    target: e.target,
+    ...(e.kind ? { data: { kind: e.kind, label: e.label } } : {}),
+  })),
+});
+
+// Takes labels in order while they fit `budget` tokens
+const fitLabels = (labels: string[], counter: TokenCounter, budget: number): string[] => {
+  const fitted: string[] = [];
+  let used = 0;
+  for (const label of labels) {
+    const tokens = counter.count(`${label}, `);
+    if (used + tokens > budget) break;
+    fitted.push(label);
+    used += tokens;
+  }
+  return fitted;
+};
+
+/**
+ * The focused node's surroundings: the path down to it, its siblings and as much
+ * of its branch as fits `budget` (breadth-first, so direct children come first).
+ */
+export const describeFocus = (map: MapSnapshot, focusId: string, counter: TokenCounter, budget: number): FocusContext | null => {
+  const { nodes, edges } = toGraph(map);
+  const labelOf = new Map(nodes.map(n => [n.id, String(n.data.label)]));
+  if (!labelOf.has(focusId)) return null;
+
+  const hierarchy = buildHierarchy(nodes, edges, map.rootId);
+  const path = getAncestorIds(hierarchy, focusId).map(id => labelOf.get(id) || '');
+  const parentId = hierarchy.parent.get(focusId);
+  const siblings = parentId
+    ? (hierarchy.children.get(parentId) || []).filter(id => id !== focusId).map(id => labelOf.get(id) || '')
+    : [];
+
+  const below: string[] = [];
+  const queue = [...(hierarchy.children.get(focusId) || [])];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    below.push(labelOf.get(id) || '');
+    queue.push(...(hierarchy.children.get(id) || []));
+  }
+
+  const fittedSiblings = fitLabels(siblings, counter, budget / 3);
+  const descendants = fitLabels(below, counter, budget - counter.count(fittedSiblings.join(', ')));
+  return {
+    label: labelOf.get(focusId) || '',
+    path,
+    siblings: fittedSiblings,
+    descendants,
+    omittedDescendantCount: below.length - descendants.length,
+  };
+};
+
+/**
+ * Labels for the prompt within `budget` tokens: the goal, then nodes matching the
+ * request (BM25 over label, description and path), then the rest from the top of
+ * the tree down, so the model always sees the overall shape first.
+ */
+export const selectNodeLabels = (
+  map: MapSnapshot,
+  request: string,
+  counter: TokenCounter,
+  budget: number
+): { nodeLabels: string[]; omittedNodeCount: number } => {
+  const { nodes, edges } = toGraph(map);
+  const labelOf = new Map(nodes.map(n => [n.id, String(n.data.label)]));
+
+  const rootId = findRootId(nodes, map.rootId);
+  const ranked = rankAnchors(buildAnchorIndex(nodes, edges, rootId), { name: request }).map(c => c.id);
+  const depth = buildHierarchy(nodes, edges, rootId).depth;
+  const byDepth = nodes.map(n => n.id).sort((a, b) => (depth.get(a) ?? 0) - (depth.get(b) ?? 0));
+
+  const ordered = Array.from(new Set([...(rootId ? [rootId] : []), ...ranked, ...byDepth]));
+  const labels = Array.from(new Set(ordered.map(id => labelOf.get(id) || '').filter(Boolean)));
+
+  const nodeLabels = fitLabels(labels, counter, budget);
+  return { nodeLabels, omittedNodeCount: labels.length - nodeLabels.length };
+};
+
+/** Cross-links whose two ends are both among `labels`, in map order. */
+export const describeLinks = (map: MapSnapshot, labels: string[]): string[] => {
+  const visible = new Set(labels);
+  const labelOf = new Map(map.nodes.map(n => [n.id, n.label || '']));
+  return map.edges
+    .filter(e => e.kind && e.kind !== 'hierarchy')
+    .map(e => ({ ...e, from: labelOf.get(e.source) || '', to: labelOf.get(e.target) || '' }))
+    .filter(e => visible.has(e.from) && visible.has(e.to))
+    .map(e => `"${e.from}" -> "${e.to}" (${e.label || EDGE_KINDS.find(k => k.value === e.kind)!.label.toLowerCase()})`);
+};
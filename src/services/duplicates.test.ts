@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { Edge, Node } from '@xyflow/react';
+import { DUPLICATE_THRESHOLD, confirmWithEmbeddings, editSimilarity, findDuplicates, levenshtein, tokenSetSimilarity } from './duplicates';
+import { bakeryMap } from './__fixtures__/maps';
+
+const node = (id: string, label: string, description = ''): Node => ({ id, position: { x: 0, y: 0 }, data: { label, description } });
+
+const withNodes = (extra: Node[], extraEdges: Edge[] = []) => {
+  const map = bakeryMap();
+  return { nodes: [...map.nodes, ...extra], edges: [...map.edges, ...extraEdges] };
+};
+
+describe('label similarity', () => {
+  it('measures edit distance on normalised labels', () => {
+    expect(levenshtein('kitten', 'sitting')).toBe(3);
+    expect(editSimilarity('Colour scheme', 'color scheme!')).toBeGreaterThan(0.9);
+    expect(editSimilarity('Budget', 'Location')).toBeLessThan(0.3);
+  });
+
+  it('scores a label that extends another by its shared words', () => {
+    expect(tokenSetSimilarity('User Research', 'User research phase')).toBeGreaterThanOrEqual(DUPLICATE_THRESHOLD);
+    expect(tokenSetSimilarity('Ovens', 'Oven')).toBe(1);
+    expect(tokenSetSimilarity('Marketing', 'Budget')).toBe(0);
+  });
+});
+
+describe('findDuplicates', () => {
+  it('suggests near-duplicates and keeps the node higher in the tree', () => {
+    const { nodes, edges } = withNodes(
+      [node('n1', 'Marketing plan')],
+      [{ id: 'e1', source: 'aspect-4', target: 'n1' }]
+    );
+    const { suggestions } = findDuplicates(nodes, edges);
+
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0]).toMatchObject({ targetId: 'aspect-2', sourceId: 'n1', reason: 'tokens' });
+  });
+
+  it('never suggests the root and leaves weak pairs as borderline', () => {
+    const { nodes, edges } = withNodes([node('n1', 'Open a bakery soon'), node('n2', 'Budgets'), node('n3', 'Budgeting')]);
+    const { suggestions, borderline } = findDuplicates(nodes, edges);
+
+    expect(suggestions.some(s => s.targetId === 'root' || s.sourceId === 'root')).toBe(false);
+    expect(suggestions.map(s => [s.targetLabel, s.sourceLabel])).toEqual([['Budget', 'Budgets']]);
+    expect(borderline.map(s => [s.targetLabel, s.sourceLabel])).toContainEqual(['Budget', 'Budgeting']);
+    expect(borderline.every(s => s.score < DUPLICATE_THRESHOLD)).toBe(true);
+  });
+
+  it('finds nothing in a map of distinct ideas', () => {
+    const { nodes, edges } = bakeryMap();
+    expect(findDuplicates(nodes, edges).suggestions).toEqual([]);
+  });
+});
+
+describe('confirmWithEmbeddings', () => {
+  it('promotes only the borderline pairs that embed close together', async () => {
+    const nodes = [node('a', 'Hiring'), node('b', 'Recruiting staff'), node('c', 'Staff uniforms')];
+    const vectors: Record<string, number[]> = { Hiring: [1, 0], 'Recruiting staff': [0.98, 0.2], 'Staff uniforms': [0, 1] };
+    const borderline = [
+      { targetId: 'a', sourceId: 'b', targetLabel: 'Hiring', sourceLabel: 'Recruiting staff', score: 0.5, reason: 'edit' as const },
+      { targetId: 'b', sourceId: 'c', targetLabel: 'Recruiting staff', sourceLabel: 'Staff uniforms', score: 0.6, reason: 'tokens' as const },
+    ];
+
+    const confirmed = await confirmWithEmbeddings(nodes, borderline, async (texts) => texts.map(t => vectors[t]));
+
+    expect(confirmed.map(s => [s.targetId, s.sourceId, s.reason])).toEqual([['a', 'b', 'semantic']]);
+  });
+});
@@ -0,0 +1,164 @@
+// ============================================================================
+// DUPLICATE DETECTION
+// Finds pairs of nodes that probably mean the same thing so the user can merge
+// them. Labels are compared by edit distance (typos, "Colour"/"Color") and by
+// token-set overlap ("User Research" vs "User research phase"); borderline pairs
+// can be confirmed with embeddings. Nothing is merged here.
+// ============================================================================
+
+import { Edge, Node } from '@xyflow/react';
+import { buildHierarchy, findRootId } from '@/lib/graph';
+import { cosine, normalizeLabel, tokenize } from './anchors';
+
+/** Pairs scoring at least this are suggested outright. */
+export const DUPLICATE_THRESHOLD = 0.75;
+// Pairs between this and DUPLICATE_THRESHOLD are only suggested when embeddings agree
+const BORDERLINE_THRESHOLD = 0.5;
+const SEMANTIC_THRESHOLD = 0.9;
+const MAX_EMBEDDED_PAIRS = 40;
+
+export type DuplicateReason = 'edit' | 'tokens' | 'semantic';
+
+export interface DuplicateSuggestion {
+  /** Node to keep: the one closer to the root, then the one with more links */
+  targetId: string;
+  /** Node to fold into the target */
+  sourceId: string;
+  targetLabel: string;
+  sourceLabel: string;
+  /** 0..1 */
+  score: number;
+  reason: DuplicateReason;
+}
+
+export interface DuplicateScan {
+  /** Strongest first */
+  suggestions: DuplicateSuggestion[];
+  /** Near misses worth an embedding check, strongest first */
+  borderline: DuplicateSuggestion[];
+}
+
+export const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/** 1 for identical labels, falling with the share of characters that must change. */
+export const editSimilarity = (a: string, b: string): number => {
+  const x = normalizeLabel(a);
+  const y = normalizeLabel(b);
+  const length = Math.max(x.length, y.length);
+  return length === 0 ? 0 : 1 - levenshtein(x, y) / length;
+};
+
+/**
+ * Overlap of the label words (stopwords dropped, plurals folded): the mean of
+ * Jaccard and containment, so a label that extends another still scores high.
+ */
+export const tokenSetSimilarity = (a: string, b: string): number => {
+  const x = new Set(tokenize(a));
+  const y = new Set(tokenize(b));
+  if (x.size === 0 || y.size === 0) return 0;
+  const shared = [...x].filter(t => y.has(t)).length;
+  const union = x.size + y.size - shared;
+  return (shared / union + shared / Math.min(x.size, y.size)) / 2;
+};
+
+const readText = (node: Node, key: 'label' | 'description'): string => {
+  const value = node.data[key];
+  return typeof value === 'string' ? value : '';
+};
+
+/**
+ * Scores every pair of nodes except the root (which anchors the map and is never
+ * suggested). Quadratic in the node count, which is fine for maps a person can read.
+ */
+export const findDuplicates = (nodes: Node[], edges: Edge[], mapRootId?: string | null): DuplicateScan => {
+  const rootId = findRootId(nodes, mapRootId);
+  const hierarchy = buildHierarchy(nodes, edges, rootId);
+  const degree = new Map<string, number>();
+  edges.forEach(e => {
+    degree.set(e.source, (degree.get(e.source) || 0) + 1);
+    degree.set(e.target, (degree.get(e.target) || 0) + 1);
+  });
+
+  // Keep the node that is higher in the tree, then the better connected one. Nodes cut off
+  // from the root start trees of their own at depth 0, so they rank last instead.
+  const depthUnderRoot = (id: string) => {
+    let top = id;
+    while (hierarchy.parent.has(top)) top = hierarchy.parent.get(top)!;
+    return top === rootId ? hierarchy.depth.get(id)! : Infinity;
+  };
+  const rank = (node: Node) => [depthUnderRoot(node.id), -(degree.get(node.id) || 0)];
+  const keepsFirst = (a: Node, b: Node) => {
+    const [depthA, linksA] = rank(a);
+    const [depthB, linksB] = rank(b);
+    return depthA !== depthB ? depthA < depthB : linksA <= linksB;
+  };
+
+  const candidates = nodes.filter(n => n.id !== rootId && readText(n, 'label').trim());
+  const suggestions: DuplicateSuggestion[] = [];
+  const borderline: DuplicateSuggestion[] = [];
+
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const a = candidates[i];
+      const b = candidates[j];
+      const edit = editSimilarity(readText(a, 'label'), readText(b, 'label'));
+      const tokens = tokenSetSimilarity(readText(a, 'label'), readText(b, 'label'));
+      const score = Math.max(edit, tokens);
+      if (score < BORDERLINE_THRESHOLD) continue;
+
+      const [target, source] = keepsFirst(a, b) ? [a, b] : [b, a];
+      const suggestion: DuplicateSuggestion = {
+        targetId: target.id,
+        sourceId: source.id,
+        targetLabel: readText(target, 'label'),
+        sourceLabel: readText(source, 'label'),
+        score,
+        reason: edit >= tokens ? 'edit' : 'tokens',
+      };
+      (score >= DUPLICATE_THRESHOLD ? suggestions : borderline).push(suggestion);
+    }
+  }
+
+  const byScore = (x: DuplicateSuggestion, y: DuplicateSuggestion) => y.score - x.score;
+  return { suggestions: suggestions.sort(byScore), borderline: borderline.sort(byScore) };
+};
+
+/**
+ * Promotes borderline pairs whose label and description embed close together.
+ * `embed` returns one vector per input text.
+ */
+export const confirmWithEmbeddings = async (
+  nodes: Node[],
+  borderline: DuplicateSuggestion[],
+  embed: (texts: string[]) => Promise<number[][]>
+): Promise<DuplicateSuggestion[]> => {
+  const pairs = borderline.slice(0, MAX_EMBEDDED_PAIRS);
+  const ids = [...new Set(pairs.flatMap(p => [p.targetId, p.sourceId]))];
+  if (ids.length === 0) return [];
+
+  const texts = ids.map(id => {
+    const node = nodes.find(n => n.id === id);
+    return node ? [readText(node, 'label'), readText(node, 'description')].filter(Boolean).join('. ') : '';
+  });
+  const vectors = new Map((await embed(texts)).map((vector, i) => [ids[i], vector]));
+
+  return pairs
+    .map(p => ({ ...p, score: cosine(vectors.get(p.targetId)!, vectors.get(p.sourceId)!), reason: 'semantic' as const }))
+    .filter(p => p.score >= SEMANTIC_THRESHOLD)
+    .sort((x, y) => y.score - x.score);
+};
@@ -0,0 +1,130 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useStore } from '@/lib/store';
+import { MAX_STRUCTURED_REPAIR_ATTEMPTS, StructuredOutputError, aiService, withTextFallback } from './ai';
+import { MapGeneration, parseMapGeneration, toMindMapUpdate, validateMapGeneration } from './mapSchema';
+import { MockProvider } from './providers';
+import { bakeryMap } from './__fixtures__/maps';
+
+const GOAL = 'Open a bakery';
+
+const generation = (patch: Partial<MapGeneration> = {}): MapGeneration => ({
+  message: 'Added staffing.',
+  nodes: [
+    { id: 'n1', label: 'Staff', description: 'Bakers • Cashiers', parent: 'root' },
+    { id: 'n2', label: 'Hiring', description: 'Job posts', parent: 'n1' },
+    { id: 'n3', label: 'Paid ads', description: 'Local ads', parent: 'Marketing' },
+  ],
+  edges: [{ source: 'n2', target: 'aspect-1', kind: 'dependency', label: 'needs budget' }],
+  suggestions: ['Staff'],
+  ...patch,
+});
+
+const labelOf = (id: string) => useStore.getState().nodes.find(n => n.id === id)?.data.label;
+
+const edgeLabels = () => useStore.getState().edges.map(e => `${labelOf(e.source)} -> ${labelOf(e.target)}`).sort();
+
+beforeAll(async () => {
+  await aiService.setProvider({ kind: 'mock' });
+});
+
+beforeEach(() => {
+  useStore.setState(useStore.getInitialState(), true);
+  useStore.setState({ ...bakeryMap(), goal: GOAL });
+  vi.restoreAllMocks();
+  vi.spyOn(console, 'log').mockImplementation(() => { });
+  vi.spyOn(console, 'warn').mockImplementation(() => { });
+});
+
+describe('validateMapGeneration', () => {
+  it('accepts a well-formed generation and defaults the link kind', () => {
+    const result = parseMapGeneration(JSON.stringify({ ...generation(), edges: [{ source: 'n1', target: 'n2' }] }));
+
+    expect(result.ok && result.value.edges).toEqual([{ source: 'n1', target: 'n2', kind: 'related' }]);
+  });
+
+  it('rejects a malformed generation with errors the model can act on', () => {
+    const result = validateMapGeneration({
+      message: '',
+      nodes: [{ id: 'n1', label: '', description: 'x', parent: 'n1' }, { id: 'n1', label: 'Dup', parent: 'root' }],
+      edges: [{ source: 'n1', target: 'n2', kind: 'blocks' }],
+      suggestions: 'Staff',
+    });
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors).toEqual([
+      '"message" must be a non-empty string.',
+      'nodes[0].label must not be empty.',
+      'nodes[0] cannot be its own parent.',
+      'nodes[1].description must be a string.',
+      'nodes[1].id "n1" is used more than once.',
+      'edges[0].kind must be one of dependency, related, contradicts, custom.',
+      '"suggestions" must be an array of strings.',
+    ]);
+  });
+
+  it('reports a reply that is not JSON', () => {
+    const result = parseMapGeneration('Sure! Here is your map:');
+    expect(!result.ok && result.errors[0]).toMatch(/^The reply is not valid JSON/);
+  });
+});
+
+describe('generateMap', () => {
+  it('sends the validation errors back and takes the repaired reply', async () => {
+    const complete = vi.spyOn(MockProvider.prototype, 'complete')
+      .mockResolvedValueOnce('{"message": "Oops"}')
+      .mockResolvedValueOnce(JSON.stringify(generation()));
+
+    const result = await aiService.generateMap(GOAL, [{ role: 'user', content: GOAL }], '{"nodes":[],"edges":[]}');
+
+    expect(result.nodes.map(n => n.label)).toEqual(['Staff', 'Hiring', 'Paid ads']);
+    expect(complete).toHaveBeenCalledTimes(2);
+    const repair = complete.mock.calls[1][0];
+    expect(repair[repair.length - 2]).toEqual({ role: 'assistant', content: '{"message": "Oops"}' });
+    expect(repair[repair.length - 1].content).toContain('- "nodes" must be an array.');
+  });
+
+  it('gives up after the repair limit, and the turn falls back to the text format', async () => {
+    const complete = vi.spyOn(MockProvider.prototype, 'complete').mockResolvedValue('not json');
+    const fallback = vi.fn(async () => { });
+
+    const attempt = aiService.generateMap(GOAL, [{ role: 'user', content: GOAL }], '{"nodes":[],"edges":[]}');
+    await expect(attempt).rejects.toBeInstanceOf(StructuredOutputError);
+    expect(complete).toHaveBeenCalledTimes(MAX_STRUCTURED_REPAIR_ATTEMPTS + 1);
+
+    await withTextFallback(async () => { await aiService.generateMap(GOAL, [{ role: 'user', content: GOAL }], '{}'); }, fallback);
+    expect(fallback).toHaveBeenCalledOnce();
+  });
+
+  it('does not fall back on other failures', async () => {
+    const fallback = vi.fn(async () => { });
+    await expect(withTextFallback(async () => { throw new Error('offline'); }, fallback)).rejects.toThrow('offline');
+    expect(fallback).not.toHaveBeenCalled();
+  });
+});
+
+describe('toMindMapUpdate', () => {
+  it('resolves parents and merges through setMindMapFromJSON', () => {
+    const update = toMindMapUpdate(generation(), useStore.getState().nodes, GOAL, undefined, 'root');
+    useStore.getState().setMindMapFromJSON(update);
+
+    expect(edgeLabels()).toEqual(expect.arrayContaining([
+      'Open a bakery -> Staff',
+      'Staff -> Hiring',
+      'Marketing -> Paid ads',
+      'Hiring -> Budget',
+    ]));
+    const link = useStore.getState().edges.find(e => labelOf(e.source) === 'Hiring' && labelOf(e.target) === 'Budget');
+    expect(link?.data).toEqual({ kind: 'dependency', label: 'needs budget' });
+  });
+
+  it('puts unplaced nodes under the focused node and adds the goal on a first turn', () => {
+    const unplaced = generation({ nodes: [{ id: 'n1', label: 'Flyers', description: '', parent: 'Nowhere' }], edges: [] });
+
+    expect(toMindMapUpdate(unplaced, useStore.getState().nodes, GOAL, 'aspect-2', 'root').edges)
+      .toEqual([{ source: 'aspect-2', target: 'n1' }]);
+
+    const first = toMindMapUpdate(generation({ edges: [] }), [], GOAL);
+    expect(first.nodes[0]).toEqual({ id: 'root', label: GOAL, description: GOAL });
+    expect(first.edges).toContainEqual({ source: 'root', target: 'n1' });
+  });
+});
@@ -0,0 +1,216 @@
+// ============================================================================
+// STRUCTURED MAP OUTPUT
+// Typed contract for the JSON mode of map generation: the JSON schema handed to
+// the model's constrained decoder, a validator for what comes back, and the
+// conversion into the shape setMindMapFromJSON merges.
+// ============================================================================
+
+import { EdgeKind, findRootId } from "@/lib/graph";
+
+export interface GeneratedNode {
+  id: string;
+  label: string;
+  description: string;
+  /** Id of another generated node, the exact label of an existing node, or "root" */
+  parent: string;
+}
+
+/** A cross-link; the tree itself comes from `parent` */
+export interface GeneratedEdge {
+  source: string;
+  target: string;
+  kind: Exclude<EdgeKind, "hierarchy">;
+  label?: string;
+}
+
+const LINK_KINDS = ["dependency", "related", "contradicts", "custom"] as const;
+
+export interface MapGeneration {
+  message: string;
+  nodes: GeneratedNode[];
+  edges: GeneratedEdge[];
+  suggestions: string[];
+}
+
+export type MapValidationResult =
+  | { ok: true; value: MapGeneration }
+  | { ok: false; errors: string[] };
+
+export const MAP_GENERATION_SCHEMA = {
+  type: "object",
+  properties: {
+    message: { type: "string" },
+    nodes: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          label: { type: "string" },
+          description: { type: "string" },
+          parent: { type: "string" },
+        },
+        required: ["id", "label", "description", "parent"],
+      },
+    },
+    edges: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          source: { type: "string" },
+          target: { type: "string" },
+          kind: { type: "string", enum: LINK_KINDS },
+          label: { type: "string" },
+        },
+        required: ["source", "target"],
+      },
+    },
+    suggestions: { type: "array", items: { type: "string" } },
+  },
+  required: ["message", "nodes", "edges", "suggestions"],
+} as const;
+
+const MAX_LABEL_LENGTH = 80;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Checks a parsed model reply against MapGeneration. Errors are phrased so they
+ * can be sent back to the model verbatim in a repair prompt.
+ */
+export const validateMapGeneration = (value: unknown): MapValidationResult => {
+  const errors: string[] = [];
+
+  if (!isRecord(value)) {
+    return { ok: false, errors: ["The reply must be a single JSON object."] };
+  }
+
+  if (typeof value.message !== "string" || !value.message.trim()) {
+    errors.push(`"message" must be a non-empty string.`);
+  }
+
+  const nodes: GeneratedNode[] = [];
+  if (!Array.isArray(value.nodes)) {
+    errors.push(`"nodes" must be an array.`);
+  } else {
+    const seenIds = new Set<string>();
+    value.nodes.forEach((n, i) => {
+      if (!isRecord(n)) {
+        errors.push(`nodes[${i}] must be an object.`);
+        return;
+      }
+      for (const key of ["id", "label", "description", "parent"] as const) {
+        if (typeof n[key] !== "string") errors.push(`nodes[${i}].${key} must be a string.`);
+      }
+      const id = String(n.id ?? "");
+      const label = String(n.label ?? "").trim();
+      if (!label) errors.push(`nodes[${i}].label must not be empty.`);
+      if (label.length > MAX_LABEL_LENGTH) errors.push(`nodes[${i}].label must be at most ${MAX_LABEL_LENGTH} characters.`);
+      if (seenIds.has(id)) errors.push(`nodes[${i}].id "${id}" is used more than once.`);
+      if (n.parent === n.id) errors.push(`nodes[${i}] cannot be its own parent.`);
+      seenIds.add(id);
+      nodes.push({ id, label, description: String(n.description ?? "").trim(), parent: String(n.parent ?? "").trim() });
+    });
+  }
+
+  const edges: GeneratedEdge[] = [];
+  if (!Array.isArray(value.edges)) {
+    errors.push(`"edges" must be an array.`);
+  } else {
+    value.edges.forEach((e, i) => {
+      if (!isRecord(e) || typeof e.source !== "string" || typeof e.target !== "string") {
+        errors.push(`edges[${i}] must have string "source" and "target".`);
+        return;
+      }
+      if (e.kind !== undefined && !LINK_KINDS.includes(e.kind as GeneratedEdge["kind"])) {
+        errors.push(`edges[${i}].kind must be one of ${LINK_KINDS.join(", ")}.`);
+        return;
+      }
+      const label = typeof e.label === "string" ? e.label.trim() : "";
+      edges.push({ source: e.source, target: e.target, kind: (e.kind as GeneratedEdge["kind"]) ?? "related", ...(label ? { label } : {}) });
+    });
+  }
+
+  let suggestions: string[] = [];
+  if (!Array.isArray(value.suggestions) || value.suggestions.some(s => typeof s !== "string")) {
+    errors.push(`"suggestions" must be an array of strings.`);
+  } else {
+    suggestions = value.suggestions as string[];
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, value: { message: String(value.message).trim(), nodes, edges, suggestions } };
+};
+
+/** Parses raw model text and validates it in one step. */
+export const parseMapGeneration = (raw: string): MapValidationResult => {
+  try {
+    return validateMapGeneration(JSON.parse(raw));
+  } catch (e) {
+    return { ok: false, errors: [`The reply is not valid JSON (${e instanceof Error ? e.message : String(e)}).`] };
+  }
+};
+
+/**
+ * Converts a validated generation into setMindMapFromJSON input. Parents are
+ * resolved against the generated ids first, then existing labels, then the root;
+ * anything unresolved goes under `defaultParentId`, or without one is left
+ * without an edge so the store attaches it to root.
+ */
+export const toMindMapUpdate = (
+  generation: MapGeneration,
+  existingNodes: { id: string; label?: string; data?: { label?: unknown } }[],
+  goal: string,
+  /** Where nodes without a usable parent go (the chat's focused node); defaults to the root */
+  defaultParentId?: string,
+  /** The session's designated root */
+  mapRootId?: string | null
+) => {
+  const generatedIds = new Set(generation.nodes.map(n => n.id));
+  const existingByLabel = new Map(
+    existingNodes.map(n => [String(n.data?.label ?? n.label ?? "").toLowerCase().trim(), n.id])
+  );
+
+  const isFirstTurn = existingNodes.length === 0;
+  const rootId = isFirstTurn ? "root" : findRootId(existingNodes, mapRootId)!;
+
+  const nodes: { id: string; label: string; description: string }[] = generation.nodes.map(n => ({
+    id: n.id,
+    label: n.label,
+    description: n.description,
+  }));
+  if (isFirstTurn) {
+    nodes.unshift({ id: "root", label: goal.slice(0, 30), description: goal });
+  }
+
+  const edges: { source: string; target: string; kind?: GeneratedEdge["kind"]; label?: string }[] = [];
+  const edgeKeys = new Set<string>();
+  const pushEdge = (source: string, target: string, link?: Pick<GeneratedEdge, "kind" | "label">) => {
+    const key = `${source}-${target}`;
+    if (source === target || edgeKeys.has(key)) return;
+    edgeKeys.add(key);
+    edges.push({ source, target, ...link });
+  };
+
+  generation.nodes.forEach(n => {
+    const parent = n.parent.trim();
+    let sourceId: string | undefined;
+    if (generatedIds.has(parent)) sourceId = parent;
+    else if (existingByLabel.has(parent.toLowerCase())) sourceId = existingByLabel.get(parent.toLowerCase());
+    else if (parent.toLowerCase() === "root") sourceId = rootId;
+    else if (defaultParentId) sourceId = defaultParentId;
+    else if (!parent) sourceId = rootId;
+
+    if (sourceId) pushEdge(sourceId, n.id);
+  });
+
+  // Cross-links are only kept between known nodes
+  const knownIds = new Set([...generatedIds, ...existingNodes.map(n => n.id), rootId]);
+  generation.edges.forEach(e => {
+    if (knownIds.has(e.source) && knownIds.has(e.target)) pushEdge(e.source, e.target, { kind: e.kind, label: e.label });
+  });
+
+  return { nodes, edges };
+};
@@ -0,0 +1,111 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useStore } from '@/lib/store';
+import { aiService } from './ai';
+import { critiqueNode, mergeSelected, rewriteDescription, splitNode, summarizeBranch } from './nodeActions';
+import { bakeryMap } from './__fixtures__/maps';
+
+const nodeById = (id: string) => useStore.getState().nodes.find(n => n.id === id);
+
+const childLabels = (parentId: string) => {
+  const { nodes, edges } = useStore.getState();
+  return edges
+    .filter(e => e.source === parentId)
+    .map(e => nodes.find(n => n.id === e.target)?.data.label)
+    .sort();
+};
+
+const INSTAGRAM = 'node-1700000000000-0-new';
+
+beforeAll(async () => {
+  await aiService.setProvider({ kind: 'mock' });
+});
+
+beforeEach(() => {
+  useStore.setState(useStore.getInitialState(), true);
+  useStore.setState({ ...bakeryMap(), goal: 'Open a bakery' });
+  vi.restoreAllMocks();
+  vi.spyOn(console, 'log').mockImplementation(() => { });
+});
+
+describe('description actions', () => {
+  it('summarizes a branch from its descendants', async () => {
+    const prompt = vi.spyOn(aiService, 'completePrompt');
+    const result = await summarizeBranch('aspect-2');
+
+    expect(prompt.mock.calls[0][0]).toContain('- Instagram campaign: Posts and stories');
+    expect(result.updated).toBe(true);
+    expect(nodeById('aspect-2')?.data.description).toBe('summarize of Marketing • Key point');
+  });
+
+  it('does nothing for a leaf', async () => {
+    const prompt = vi.spyOn(aiService, 'completePrompt');
+    const result = await summarizeBranch('aspect-1');
+
+    expect(result.updated).toBe(false);
+    expect(prompt).not.toHaveBeenCalled();
+  });
+
+  it('asks for the chosen tone and length', async () => {
+    const prompt = vi.spyOn(aiService, 'completePrompt');
+    await rewriteDescription('aspect-3', { tone: 'formal', length: 'shorter' });
+
+    expect(prompt.mock.calls[0][0]).toMatch(/formal tone\.\nMake it noticeably shorter/);
+    expect(nodeById('aspect-3')?.data.description).toBe('rewrite of Location • Key point');
+  });
+
+  it('proposes the new description instead of writing it in review mode', async () => {
+    useStore.setState({ reviewMode: true });
+    await rewriteDescription('aspect-3', { tone: 'neutral', length: 'same' });
+
+    expect(nodeById('aspect-3')?.data.description).toBe('Foot traffic • Lease terms');
+    expect(useStore.getState().staged.descriptionUpdates).toEqual([
+      { nodeId: 'aspect-3', description: 'rewrite of Location • Key point' },
+    ]);
+  });
+});
+
+describe('splitNode', () => {
+  it('adds the sub-ideas as children and shortens the description in one undo step', async () => {
+    const before = useStore.getState().nodes;
+    const result = await splitNode('aspect-4');
+
+    expect(result).toEqual({ message: null, added: 2, updated: true });
+    expect(childLabels('aspect-4')).toEqual(['Equipment part 1', 'Equipment part 2']);
+    expect(nodeById('aspect-4')?.data.description).toBe('split of Equipment • Key point');
+
+    useStore.getState().undo();
+    expect(useStore.getState().nodes).toBe(before);
+  });
+});
+
+describe('mergeSelected', () => {
+  it('folds the others into the first node and moves their links', async () => {
+    await mergeSelected(['aspect-2', INSTAGRAM, 'aspect-3']);
+    const { nodes, edges } = useStore.getState();
+
+    expect(nodes.map(n => n.id).sort()).toEqual(['aspect-1', 'aspect-2', 'aspect-4', 'root']);
+    expect(edges.some(e => e.source === e.target)).toBe(false);
+    expect(edges.filter(e => e.target === 'aspect-2')).toHaveLength(1);
+    expect(nodeById('aspect-2')?.data.description).toBe('merge of Marketing • Key point');
+  });
+
+  it('is a single undo step', async () => {
+    const before = useStore.getState().nodes;
+    await mergeSelected(['aspect-2', INSTAGRAM]);
+    useStore.getState().undo();
+
+    expect(useStore.getState().nodes).toBe(before);
+  });
+});
+
+describe('critiqueNode', () => {
+  it('posts the critique and proposes siblings under the same parent', async () => {
+    const result = await critiqueNode(INSTAGRAM);
+
+    expect(result.added).toBe(2);
+    expect(childLabels('aspect-2')).toEqual(['Instagram campaign', 'Instagram campaign part 1', 'Instagram campaign part 2']);
+    expect(useStore.getState().messages.map(m => m.content)).toEqual([
+      'Instagram campaign: Instagram campaign is missing a few angles.',
+    ]);
+  });
+});
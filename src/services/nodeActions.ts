@@ -0,0 +1,303 @@
+// ============================================================================
+// NODE ACTIONS
+// One-shot AI operations on a node or a selection: summarize a branch, rewrite
+// a description, split a node, merge near-duplicates and critique a branch.
+// Every result is applied through setMindMapFromJSON (nodeUpdates for
+// descriptions, nodes/edges for new ideas), so dedupe, undo and review mode
+// behave exactly as they do for chat replies.
+// ============================================================================
+
+import { Node } from '@xyflow/react';
+import { createHistoryStep, runInHistoryStep, useStore } from '@/lib/store';
+import { buildHierarchy, findRootId, getAncestorIds } from '@/lib/graph';
+import { aiService, parseResponseText } from './ai';
+
+export type RewriteTone = 'neutral' | 'formal' | 'casual' | 'persuasive';
+export type RewriteLength = 'shorter' | 'same' | 'longer';
+
+export const REWRITE_TONES: { value: RewriteTone; label: string }[] = [
+  { value: 'neutral', label: 'Neutral' },
+  { value: 'formal', label: 'Formal' },
+  { value: 'casual', label: 'Casual' },
+  { value: 'persuasive', label: 'Persuasive' },
+];
+
+export const REWRITE_LENGTHS: { value: RewriteLength; label: string }[] = [
+  { value: 'shorter', label: 'Shorter' },
+  { value: 'same', label: 'Same length' },
+  { value: 'longer', label: 'Longer' },
+];
+
+export interface NodeActionResult {
+  /** Text for the user (the critique itself), if the action produces one */
+  message: string | null;
+  /** New nodes merged or proposed */
+  added: number;
+  /** Whether a description was changed or proposed */
+  updated: boolean;
+}
+
+// Descendants listed in a summarize prompt; deeper or later ones are only counted
+const MAX_OUTLINE_NODES = 40;
+const OUTLINE_DESCRIPTION_CHARS = 120;
+const MAX_SUGGESTED_SIBLINGS = 4;
+
+// ============================================================================
+// MAP CONTEXT
+// ============================================================================
+
+const readText = (node: Node | undefined, key: 'label' | 'description'): string => {
+  const value = node?.data[key];
+  return typeof value === 'string' ? value : '';
+};
+
+interface NodeContext {
+  label: string;
+  description: string;
+  /** Labels from the top of the map down to (not including) the node */
+  path: string[];
+  parentId: string | undefined;
+  children: string[];
+  siblings: string[];
+}
+
+const readNodeContext = (nodeId: string): NodeContext => {
+  const { nodes, edges, rootId } = useStore.getState();
+  const node = nodes.find(n => n.id === nodeId);
+  if (!node) throw new Error(`Node ${nodeId} is not on the map`);
+
+  const hierarchy = buildHierarchy(nodes, edges, rootId);
+  const labelOf = (id: string) => readText(nodes.find(n => n.id === id), 'label');
+  const parentId = hierarchy.parent.get(nodeId);
+
+  return {
+    label: readText(node, 'label'),
+    description: readText(node, 'description'),
+    path: getAncestorIds(hierarchy, nodeId).map(labelOf),
+    parentId,
+    children: (hierarchy.children.get(nodeId) || []).map(labelOf),
+    siblings: parentId ? (hierarchy.children.get(parentId) || []).filter(id => id !== nodeId).map(labelOf) : [],
+  };
+};
+
+// Indented "- Label: description" lines for everything below `nodeId`, breadth-first up to the cap
+const outlineDescendants = (nodeId: string): string => {
+  const { nodes, edges, rootId } = useStore.getState();
+  const hierarchy = buildHierarchy(nodes, edges, rootId);
+  const rootDepth = hierarchy.depth.get(nodeId) || 0;
+
+  const ids: string[] = [];
+  const queue = [...(hierarchy.children.get(nodeId) || [])];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    ids.push(id);
+    queue.push(...(hierarchy.children.get(id) || []));
+  }
+
+  const listed = new Set(ids.slice(0, MAX_OUTLINE_NODES));
+  const lines: string[] = [];
+  // Depth-first over the listed ids so children sit under their parent
+  const visit = (id: string) => {
+    if (!listed.has(id)) return;
+    const node = nodes.find(n => n.id === id);
+    const description = readText(node, 'description').replace(/\s+/g, ' ').slice(0, OUTLINE_DESCRIPTION_CHARS);
+    const indent = '  '.repeat((hierarchy.depth.get(id) || 0) - rootDepth - 1);
+    lines.push(`${indent}- ${readText(node, 'label')}${description ? `: ${description}` : ''}`);
+    (hierarchy.children.get(id) || []).forEach(visit);
+  };
+  (hierarchy.children.get(nodeId) || []).forEach(visit);
+
+  const omitted = ids.length - listed.size;
+  return [...lines, ...(omitted > 0 ? [`… (${omitted} more)`] : [])].join('\n');
+};
+
+// ============================================================================
+// PROMPTS
+// ============================================================================
+
+const formatNode = (context: NodeContext): string => `NODE: "${context.label}"
+Path: ${[...context.path, context.label].join(' > ')}
+Description: ${context.description || 'none'}`;
+
+const buildSummarizePrompt = (goal: string, context: NodeContext, outline: string): string => `Context: "${goal}"
+ACTION: summarize
+${formatNode(context)}
+Everything under it:
+${outline}
+
+TASK: Write a new description for "${context.label}" that summarizes everything under it.
+Mention the main sub-topics and key details.
+
+Reply format:
+DESCRIPTION: Summary • Key point • Key point`;
+
+const LENGTH_INSTRUCTIONS: Record<RewriteLength, string> = {
+  shorter: 'Make it noticeably shorter; keep only what matters.',
+  same: 'Keep roughly the same length.',
+  longer: 'Make it more detailed, with specific examples.',
+};
+
+const buildRewritePrompt = (goal: string, context: NodeContext, tone: RewriteTone, length: RewriteLength): string => `Context: "${goal}"
+ACTION: rewrite
+${formatNode(context)}
+
+TASK: Rewrite the description of "${context.label}" in a ${tone} tone.
+${LENGTH_INSTRUCTIONS[length]} Keep the facts; do not invent new ones.
+
+Reply format:
+DESCRIPTION: Rewritten description • Detail`;
+
+const buildSplitPrompt = (goal: string, context: NodeContext): string => `Context: "${goal}"
+ACTION: split
+${formatNode(context)}
+Already under it: ${context.children.join(', ') || 'nothing yet'}
+
+TASK: Split the description of "${context.label}" into separate sub-ideas, one per TOPIC line.
+Use only what the description says. Then write a short description for "${context.label}" itself.
+
+Reply format:
+DESCRIPTION: Short overview
+TOPIC1: Name|Description • Detail
+TOPIC2: Name|Description • Detail`;
+
+const buildMergePrompt = (goal: string, contexts: NodeContext[]): string => `Context: "${goal}"
+ACTION: merge
+NODE: "${contexts[0].label}"
+These nodes cover the same idea:
+${contexts.map(c => `- ${c.label}: ${c.description || 'no description'}`).join('\n')}
+
+TASK: Write one description for "${contexts[0].label}" that combines all of them without repeating anything.
+
+Reply format:
+DESCRIPTION: Combined description • Detail`;
+
+const buildCritiquePrompt = (goal: string, context: NodeContext): string => `Context: "${goal}"
+ACTION: critique
+${formatNode(context)}
+Siblings: ${context.siblings.join(', ') || 'none'}
+Under it: ${context.children.join(', ') || 'nothing yet'}
+
+TASK: Critique "${context.label}" as part of this plan. What is vague, risky or missing?
+Then propose up to ${MAX_SUGGESTED_SIBLINGS} missing topics that belong next to it (not duplicates of the siblings).
+
+Reply format:
+MESSAGE: Two or three sentences of critique
+NEWTOPIC: Name|Description • Detail`;
+
+// The text after `FIELD:` on its own line, or null
+const readField = (response: string, field: string): string | null => {
+  const line = response.split('\n').map(l => l.trim()).find(l => l.startsWith(`${field}:`));
+  const value = line?.slice(field.length + 1).trim();
+  return value ? value : null;
+};
+
+// ============================================================================
+// ACTIONS
+// ============================================================================
+
+// Applies a description through the merge path (a proposal in review mode)
+const applyDescription = (nodeId: string, description: string | null): boolean => {
+  if (!description) return false;
+  useStore.getState().setMindMapFromJSON({ nodes: [], edges: [], nodeUpdates: [{ id: nodeId, description }] });
+  return true;
+};
+
+// Merges `topics` under `parentId` and reports how many nodes that actually added
+const applyTopics = (
+  parentId: string,
+  topics: { name: string; desc: string }[],
+  nodeUpdates: { id: string; description: string }[] = []
+): number => {
+  const { nodes, staged } = useStore.getState();
+  const before = nodes.length + staged.nodes.length;
+  useStore.getState().setMindMapFromJSON({
+    nodes: topics.map((t, index) => ({ id: `action-${index}`, label: t.name, description: t.desc })),
+    edges: topics.map((_, index) => ({ source: parentId, target: `action-${index}` })),
+    nodeUpdates,
+  });
+  const after = useStore.getState();
+  return after.nodes.length + after.staged.nodes.length - before;
+};
+
+/** Rewrites a node's description as a summary of everything below it. */
+export const summarizeBranch = async (nodeId: string): Promise<NodeActionResult> => {
+  const context = readNodeContext(nodeId);
+  const outline = outlineDescendants(nodeId);
+  if (!outline) return { message: null, added: 0, updated: false };
+
+  const response = await aiService.completePrompt(buildSummarizePrompt(useStore.getState().goal, context, outline), {
+    temperature: 0.3,
+    maxTokens: 300,
+  });
+  return { message: null, added: 0, updated: applyDescription(nodeId, readField(response, 'DESCRIPTION')) };
+};
+
+export const rewriteDescription = async (
+  nodeId: string,
+  options: { tone: RewriteTone; length: RewriteLength }
+): Promise<NodeActionResult> => {
+  const context = readNodeContext(nodeId);
+  const response = await aiService.completePrompt(
+    buildRewritePrompt(useStore.getState().goal, context, options.tone, options.length),
+    { temperature: 0.6, maxTokens: options.length === 'longer' ? 400 : 250 }
+  );
+  return { message: null, added: 0, updated: applyDescription(nodeId, readField(response, 'DESCRIPTION')) };
+};
+
+/** Turns a crowded description into child nodes and leaves a short overview behind. */
+export const splitNode = async (nodeId: string): Promise<NodeActionResult> => {
+  const context = readNodeContext(nodeId);
+  if (!context.description.trim()) return { message: null, added: 0, updated: false };
+
+  const response = await aiService.completePrompt(buildSplitPrompt(useStore.getState().goal, context), {
+    temperature: 0.3,
+    maxTokens: 500,
+  });
+  const { topics } = parseResponseText(response);
+  if (topics.length === 0) return { message: null, added: 0, updated: false };
+
+  const overview = readField(response, 'DESCRIPTION');
+  // Children and the shortened description land together, as one undo step
+  const added = applyTopics(nodeId, topics, overview ? [{ id: nodeId, description: overview }] : []);
+  return { message: null, added, updated: !!overview };
+};
+
+/**
+ * Folds the other nodes into the first one: their links move over, they are
+ * removed, and the survivor gets an AI-written description combining them all.
+ */
+export const mergeSelected = async (nodeIds: string[]): Promise<NodeActionResult> => {
+  const ids = [...new Set(nodeIds)];
+  if (ids.length < 2) return { message: null, added: 0, updated: false };
+
+  const contexts = ids.map(readNodeContext);
+  const response = await aiService.completePrompt(buildMergePrompt(useStore.getState().goal, contexts), {
+    temperature: 0.3,
+    maxTokens: 400,
+  });
+
+  return runInHistoryStep(createHistoryStep(), () => {
+    useStore.getState().mergeNodes(ids[0], ids.slice(1));
+    return { message: null, added: 0, updated: applyDescription(ids[0], readField(response, 'DESCRIPTION')) };
+  });
+};
+
+/** Posts a critique of the node to the chat and proposes missing siblings next to it. */
+export const critiqueNode = async (nodeId: string): Promise<NodeActionResult> => {
+  const context = readNodeContext(nodeId);
+  const response = await aiService.completePrompt(buildCritiquePrompt(useStore.getState().goal, context), {
+    temperature: 0.7,
+    maxTokens: 500,
+  });
+  const { message, topics } = parseResponseText(response);
+
+  const { nodes, rootId, addMessage } = useStore.getState();
+  // Siblings hang off the same parent; the goal node has none, so its gaps go under it
+  const parentId = context.parentId || findRootId(nodes, rootId) || nodeId;
+
+  return runInHistoryStep(createHistoryStep(), () => {
+    if (message) addMessage('assistant', `${context.label}: ${message}`);
+    const added = topics.length > 0 ? applyTopics(parentId, topics.slice(0, MAX_SUGGESTED_SIBLINGS)) : 0;
+    return { message, added, updated: false };
+  });
+};
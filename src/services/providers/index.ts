@@ -0,0 +1,79 @@
+import type { ModelSize } from '../ai';
+import { LLMProvider, ProviderKind } from './types';
+import { WebLLMProvider, isWebGPUAvailable } from './webllm';
+import { OpenAICompatibleProvider } from './openai';
+import { MockProvider } from './mock';
+
+export * from './types';
+export { WebLLMProvider, isWebGPUAvailable } from './webllm';
+export { OpenAICompatibleProvider } from './openai';
+export { MockProvider, defaultMockScript } from './mock';
+export type { MockScript } from './mock';
+
+export interface ProviderConfig {
+  kind: ProviderKind;
+  /** OpenAI-compatible only */
+  baseUrl?: string;
+  apiKey?: string;
+  /** OpenAI-compatible only: server model name used for each size tier */
+  models?: Record<ModelSize, string>;
+}
+
+const PROVIDER_CONFIG_KEY = 'idea-ai-provider';
+
+export const PROVIDER_LABELS: Record<ProviderKind, string> = {
+  webllm: 'In-browser (WebLLM)',
+  openai: 'OpenAI-compatible server',
+  mock: 'Scripted mock (offline)',
+};
+
+export const DEFAULT_OPENAI_CONFIG: Required<Pick<ProviderConfig, 'baseUrl' | 'models'>> = {
+  baseUrl: process.env.NEXT_PUBLIC_LLM_BASE_URL || 'http://localhost:11434/v1',
+  models: { '1.5B': 'qwen2.5:1.5b-instruct', '3B': 'qwen2.5:3b-instruct' },
+};
+
+export const getDefaultProviderConfig = (): ProviderConfig => {
+  const envKind = process.env.NEXT_PUBLIC_LLM_PROVIDER as ProviderKind | undefined;
+  if (envKind && envKind in PROVIDER_LABELS) {
+    return { kind: envKind, ...DEFAULT_OPENAI_CONFIG };
+  }
+  // Without WebGPU the in-browser engine cannot start at all
+  if (typeof window !== 'undefined' && !isWebGPUAvailable()) {
+    return { kind: 'openai', ...DEFAULT_OPENAI_CONFIG };
+  }
+  return { kind: 'webllm' };
+};
+
+export const loadProviderConfig = (): ProviderConfig => {
+  if (typeof window === 'undefined') return getDefaultProviderConfig();
+  try {
+    const stored = localStorage.getItem(PROVIDER_CONFIG_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as ProviderConfig;
+      if (parsed.kind in PROVIDER_LABELS) return parsed;
+    }
+  } catch (e) {
+    console.warn("Could not read provider config", e);
+  }
+  return getDefaultProviderConfig();
+};
+
+export const saveProviderConfig = (config: ProviderConfig): void => {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(PROVIDER_CONFIG_KEY, JSON.stringify(config));
+};
+
+export const createProvider = (config: ProviderConfig): LLMProvider => {
+  switch (config.kind) {
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        baseUrl: config.baseUrl || DEFAULT_OPENAI_CONFIG.baseUrl,
+        apiKey: config.apiKey,
+      });
+    case 'mock':
+      return new MockProvider();
+    case 'webllm':
+    default:
+      return new WebLLMProvider();
+  }
+};
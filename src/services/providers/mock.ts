@@ -0,0 +1,131 @@
+import { ChatMessage, CompletionOptions, LLMProvider, ProviderProgressCallback } from './types';
+
+/**
+ * A script is either a fixed list of replies (returned in order, the last one
+ * repeating) or a function of the conversation.
+ */
+export type MockScript = string[] | ((messages: ChatMessage[], options: CompletionOptions, turn: number) => string);
+
+const MOCK_CHUNK_SIZE = 8;
+
+// Pulls the quoted value out of a prompt line like `USER REQUEST: "..."`
+const extractQuoted = (text: string, key: string): string | null => {
+  const match = text.match(new RegExp(`${key}:\\s*"([^"]*)"`));
+  return match ? match[1] : null;
+};
+
+const MOCK_ASPECTS = ['Research', 'Planning', 'Budget', 'Timeline', 'Resources', 'Risks', 'Execution', 'Review'];
+
+// JSON-mode counterpart of the line format, matching MAP_GENERATION_SCHEMA
+const mockJsonReply = (goal: string | null, subject: string): string => {
+  const nodes = goal
+    ? MOCK_ASPECTS.map((a, i) => ({ id: `n${i + 1}`, label: a, description: `${a} for ${goal} • Define scope`, parent: 'root' }))
+    : [
+      { id: 'n1', label: `${subject} Basics`, description: `Fundamentals of ${subject} • Key terms`, parent: 'root' },
+      { id: 'n2', label: `${subject} Next Steps`, description: `What to do next • First action`, parent: 'n1' },
+    ];
+  return JSON.stringify({
+    message: goal ? `Here is a starting plan for ${goal}.` : `Added ideas about ${subject}.`,
+    nodes,
+    edges: goal ? [] : [{ source: 'n2', target: 'n1', kind: 'dependency' }],
+    suggestions: nodes.slice(0, 3).map(n => n.label),
+  });
+};
+
+/**
+ * Default script: answers in the same line format the real prompts ask for
+ * (or JSON when a schema is requested), derived only from the prompt text so
+ * the output is fully deterministic.
+ */
+export const defaultMockScript = (messages: ChatMessage[], options: CompletionOptions = {}): string => {
+  const lastUser = [...messages].reverse().find(m => m.role === 'user')?.content || '';
+
+  const goalLine = lastUser.match(/^Goal:\s*(.+)$/m);
+  const request = extractQuoted(lastUser, 'USER REQUEST') || lastUser.slice(0, 40);
+  const subject = request.replace(/[^\w\s-]/g, '').trim() || 'Topic';
+
+  if (options.jsonSchema) {
+    return mockJsonReply(goalLine ? goalLine[1].trim() : null, subject);
+  }
+
+  // Branch expansion: numbered sub-topics named after the branch so every level stays unique
+  const branch = extractQuoted(lastUser, 'BRANCH');
+  if (branch !== null) {
+    const count = Number(lastUser.match(/exactly (\d+)/)?.[1]) || 3;
+    return [
+      `MESSAGE: Broke ${branch} down into ${count} parts.`,
+      ...Array.from({ length: count }, (_, i) => `TOPIC${i + 1}: ${branch} step ${i + 1}|Part ${i + 1} of ${branch} • First action`),
+    ].join('\n');
+  }
+
+  // Node actions: one reply carrying every field the actions read, so each finds what it needs
+  const action = lastUser.match(/^ACTION:\s*(\w+)/m);
+  if (action) {
+    const node = extractQuoted(lastUser, 'NODE') || 'Node';
+    return [
+      `MESSAGE: ${node} is missing a few angles.`,
+      `DESCRIPTION: ${action[1]} of ${node} • Key point`,
+      `TOPIC1: ${node} part 1|First part of ${node}`,
+      `TOPIC2: ${node} part 2|Second part of ${node}`,
+    ].join('\n');
+  }
+
+  if (goalLine) {
+    const goal = goalLine[1].trim();
+    const aspects = MOCK_ASPECTS;
+    return [
+      `MESSAGE: Here is a starting plan for ${goal}.`,
+      ...aspects.map((a, i) => `TOPIC${i + 1}: ${a}|${a} for ${goal} • Define scope • List next steps`),
+      `OPTIONS: ${aspects.slice(0, 3).join(', ')}`,
+    ].join('\n');
+  }
+
+  return [
+    `MESSAGE: Added ideas about ${subject}.`,
+    `NEWTOPIC: ${subject} Basics|Fundamentals of ${subject} • Key terms`,
+    `NEWTOPIC: ${subject} Next Steps|What to do next • First action`,
+    `LINK: ${subject} Next Steps -> ${subject} Basics | dependency`,
+    `OPTIONS: ${subject} Basics, ${subject} Next Steps`,
+  ].join('\n');
+};
+
+/**
+ * Deterministic offline provider for development, demos and tests.
+ * Needs neither WebGPU nor a server.
+ */
+export class MockProvider implements LLMProvider {
+  public readonly kind = 'mock' as const;
+  private loadedModelId: string | null = null;
+  private turn = 0;
+
+  constructor(private readonly script: MockScript = defaultMockScript) { }
+
+  public get modelId(): string | null {
+    return this.loadedModelId;
+  }
+
+  public async load(modelId: string, onProgress?: ProviderProgressCallback): Promise<void> {
+    this.loadedModelId = modelId;
+    onProgress?.({ progress: 1, text: `Mock model ready (${modelId})` });
+  }
+
+  public async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<string> {
+    options.signal?.throwIfAborted();
+    const turn = this.turn++;
+    if (typeof this.script === 'function') {
+      return this.script(messages, options, turn);
+    }
+    if (this.script.length === 0) return '';
+    return this.script[Math.min(turn, this.script.length - 1)];
+  }
+
+  // Replays the scripted reply a few characters at a time to exercise streaming paths
+  public async *stream(messages: ChatMessage[], options: CompletionOptions = {}): AsyncIterable<string> {
+    const reply = await this.complete(messages, options);
+    for (let i = 0; i < reply.length; i += MOCK_CHUNK_SIZE) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      options.signal?.throwIfAborted();
+      yield reply.slice(i, i + MOCK_CHUNK_SIZE);
+    }
+  }
+}
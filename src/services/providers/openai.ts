@@ -0,0 +1,146 @@
+import { ChatMessage, CompletionOptions, LLMProvider, ProviderProgressCallback } from './types';
+
+export interface OpenAICompatibleConfig {
+  /** e.g. http://localhost:11434/v1 for Ollama or http://localhost:8080/v1 for llama.cpp */
+  baseUrl: string;
+  apiKey?: string;
+}
+
+interface CompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: CompletionUsage | null;
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: CompletionUsage | null;
+}
+
+const reportUsage = (usage: CompletionUsage | null | undefined, options: CompletionOptions) => {
+  if (usage?.prompt_tokens) {
+    options.onUsage?.({ promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens || 0 });
+  }
+};
+
+/**
+ * Talks to any server that implements the OpenAI `/chat/completions` API
+ * (Ollama, llama.cpp server, vLLM, LM Studio, ...).
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  public readonly kind = 'openai' as const;
+  private loadedModelId: string | null = null;
+
+  constructor(private readonly config: OpenAICompatibleConfig) { }
+
+  public get modelId(): string | null {
+    return this.loadedModelId;
+  }
+
+  private url(path: string): string {
+    return `${this.config.baseUrl.replace(/\/+$/, '')}${path}`;
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    return headers;
+  }
+
+  public async load(modelId: string, onProgress?: ProviderProgressCallback): Promise<void> {
+    // Nothing to download: the server owns the weights. We only check it is reachable.
+    onProgress?.({ progress: 0, text: `Connecting to ${this.config.baseUrl}...` });
+
+    const res = await fetch(this.url('/models'), { headers: this.headers() });
+    if (!res.ok) {
+      throw new Error(`LLM server at ${this.config.baseUrl} responded with ${res.status}`);
+    }
+
+    this.loadedModelId = modelId;
+    onProgress?.({ progress: 1, text: `Connected (${modelId})` });
+  }
+
+  private async request(messages: ChatMessage[], options: CompletionOptions, stream: boolean): Promise<Response> {
+    if (!this.loadedModelId) {
+      throw new Error("No model selected for the OpenAI-compatible provider");
+    }
+
+    const res = await fetch(this.url('/chat/completions'), {
+      method: 'POST',
+      headers: this.headers(),
+      signal: options.signal,
+      body: JSON.stringify({
+        model: this.loadedModelId,
+        messages,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        stream,
+        // Servers that do not know stream_options ignore it
+        stream_options: stream ? { include_usage: true } : undefined,
+        response_format: options.jsonSchema
+          ? { type: 'json_schema', json_schema: { name: 'response', schema: options.jsonSchema } }
+          : undefined,
+      }),
+    });
+
+    if (!res.ok) {
+      throw new Error(`Chat completion failed: ${res.status} ${await res.text()}`);
+    }
+    return res;
+  }
+
+  public async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<string> {
+    const res = await this.request(messages, options, false);
+    const data = await res.json() as ChatCompletionResponse;
+    reportUsage(data.usage, options);
+    return data.choices?.[0]?.message?.content || "";
+  }
+
+  // Reads the server-sent event stream: one `data: {chunk}` per line, ending with `data: [DONE]`
+  public async *stream(messages: ChatMessage[], options: CompletionOptions = {}): AsyncIterable<string> {
+    const res = await this.request(messages, options, true);
+    if (!res.body) throw new Error("Streaming is not supported by this server");
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    // Aborting stops the download too, not only the request
+    const cancel = () => { reader.cancel().catch(() => { }); };
+    options.signal?.addEventListener('abort', cancel, { once: true });
+    let buffer = '';
+    let ended = false;
+
+    try {
+      while (!ended) {
+        const { done, value } = await reader.read();
+        ended = done;
+        // The last event may arrive without a trailing newline; it is flushed with the end of the stream
+        buffer += ended ? decoder.decode() : decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = ended ? '' : lines.pop() || '';
+
+        for (const line of lines) {
+          const payload = line.trim().replace(/^data:\s*/, '');
+          if (!payload || payload.startsWith(':')) continue;
+          if (payload === '[DONE]') return;
+          try {
+            const chunk = JSON.parse(payload) as ChatCompletionChunk;
+            const delta = chunk.choices?.[0]?.delta?.content;
+            if (delta) yield delta;
+            reportUsage(chunk.usage, options);
+          } catch {
+            console.warn("Skipping malformed stream chunk", payload);
+          }
+        }
+      }
+    } finally {
+      options.signal?.removeEventListener('abort', cancel);
+      // Stopped early ([DONE], an abort, or the caller broke off): release the connection
+      if (!ended) cancel();
+    }
+  }
+}
@@ -0,0 +1,53 @@
+// ============================================================================
+// LLM PROVIDER CONTRACT
+// Every backend (in-browser WebLLM, an OpenAI-compatible server, the scripted
+// mock) implements this so AIService never talks to a specific SDK.
+// ============================================================================
+
+export type ProviderKind = 'webllm' | 'openai' | 'mock';
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  /** When set, the reply must be a JSON document matching this JSON schema (constrained decoding where supported). */
+  jsonSchema?: object;
+  /** Called with the token counts the backend reports for the request, if it reports any. */
+  onUsage?: (usage: TokenUsage) => void;
+  /** Aborting stops generation; the pending call then rejects with an AbortError. */
+  signal?: AbortSignal;
+}
+
+// Shape-compatible with WebLLM's InitProgressReport so existing callbacks keep working
+export interface ProviderProgressReport {
+  progress: number;
+  text: string;
+}
+
+export type ProviderProgressCallback = (report: ProviderProgressReport) => void;
+
+export interface LLMProvider {
+  readonly kind: ProviderKind;
+  /** Model the provider is currently bound to (null until load() resolves). */
+  readonly modelId: string | null;
+  /** Prepare the given model. Must be idempotent for the same model id. */
+  load(modelId: string, onProgress?: ProviderProgressCallback): Promise<void>;
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<string>;
+  /** Same as complete(), but yields the reply as text deltas while it is generated. */
+  stream(messages: ChatMessage[], options?: CompletionOptions): AsyncIterable<string>;
+  /** Optional: one embedding vector per text, used to re-rank uncertain node placements. */
+  embed?(texts: string[]): Promise<number[][]>;
+  /** Optional: frees what the provider holds locally (model weights, GPU memory) once it is replaced. */
+  unload?(): Promise<void>;
+}
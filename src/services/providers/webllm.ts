@@ -0,0 +1,144 @@
+import { CreateMLCEngine, MLCEngine } from "@mlc-ai/web-llm";
+import { ChatMessage, CompletionOptions, LLMProvider, ProviderProgressCallback } from './types';
+
+export const isWebGPUAvailable = (): boolean => {
+  return typeof navigator !== 'undefined' && 'gpu' in navigator;
+};
+
+// Embedding model for anchor re-ranking, loaded on first use next to the chat model
+export const WEBLLM_EMBEDDING_MODEL = "snowflake-arctic-embed-m-q0f32-MLC-b4";
+
+/**
+ * Runs the model fully in the browser through WebLLM (requires WebGPU).
+ */
+export class WebLLMProvider implements LLMProvider {
+  public readonly kind = 'webllm' as const;
+  private enginePromise: Promise<MLCEngine> | null = null;
+  private embeddingEnginePromise: Promise<MLCEngine> | null = null;
+  private loadedModelId: string | null = null;
+
+  public get modelId(): string | null {
+    return this.loadedModelId;
+  }
+
+  public async load(modelId: string, onProgress?: ProviderProgressCallback): Promise<void> {
+    if (this.enginePromise && this.loadedModelId === modelId) {
+      await this.enginePromise;
+      return;
+    }
+
+    if (!isWebGPUAvailable()) {
+      throw new Error("WebGPU is not available in this browser. Choose an OpenAI-compatible server in Model Settings instead.");
+    }
+
+    this.loadedModelId = modelId;
+    this.enginePromise = CreateMLCEngine(modelId, {
+      initProgressCallback: onProgress,
+      logLevel: "INFO"
+    });
+
+    try {
+      await this.enginePromise;
+    } catch (e) {
+      // Allow a retry on the next call instead of caching the failure
+      this.enginePromise = null;
+      this.loadedModelId = null;
+      throw e;
+    }
+  }
+
+  private async getEngine(): Promise<MLCEngine> {
+    if (!this.enginePromise) {
+      throw new Error("WebLLM engine is not loaded");
+    }
+    return this.enginePromise;
+  }
+
+  // WebLLM has no per-request cancellation: interrupting ends the reply early, and we turn that into an AbortError
+  private watchAbort(engine: MLCEngine, signal: AbortSignal | undefined): () => void {
+    if (!signal) return () => { };
+    signal.throwIfAborted();
+    const interrupt = () => engine.interruptGenerate();
+    signal.addEventListener('abort', interrupt);
+    return () => signal.removeEventListener('abort', interrupt);
+  }
+
+  public async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<string> {
+    const engine = await this.getEngine();
+
+    const unwatch = this.watchAbort(engine, options.signal);
+    let reply;
+    try {
+      reply = await engine.chat.completions.create({
+        messages,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        // WebLLM compiles the schema into a grammar and constrains decoding to it
+        response_format: options.jsonSchema
+          ? { type: "json_object", schema: JSON.stringify(options.jsonSchema) }
+          : undefined,
+      });
+    } finally {
+      unwatch();
+    }
+    options.signal?.throwIfAborted();
+
+    if (reply.usage) {
+      options.onUsage?.({ promptTokens: reply.usage.prompt_tokens, completionTokens: reply.usage.completion_tokens });
+    }
+    return reply.choices[0].message.content || "";
+  }
+
+  public async *stream(messages: ChatMessage[], options: CompletionOptions = {}): AsyncIterable<string> {
+    const engine = await this.getEngine();
+
+    const chunks = await engine.chat.completions.create({
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    const unwatch = this.watchAbort(engine, options.signal);
+    try {
+      for await (const chunk of chunks) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+        // Only the final chunk carries usage
+        if (chunk.usage) {
+          options.onUsage?.({ promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens });
+        }
+      }
+    } finally {
+      unwatch();
+    }
+    options.signal?.throwIfAborted();
+  }
+
+  // Both engines keep their weights in GPU memory until unloaded
+  public async unload(): Promise<void> {
+    const engines = [this.enginePromise, this.embeddingEnginePromise];
+    this.enginePromise = null;
+    this.embeddingEnginePromise = null;
+    this.loadedModelId = null;
+    await Promise.all(engines.map(async (promise) => {
+      // An engine that failed to load holds nothing
+      const engine = await promise?.catch(() => null);
+      await engine?.unload();
+    }));
+  }
+
+  public async embed(texts: string[]): Promise<number[][]> {
+    if (!this.embeddingEnginePromise) {
+      this.embeddingEnginePromise = CreateMLCEngine(WEBLLM_EMBEDDING_MODEL, { logLevel: "WARN" });
+      this.embeddingEnginePromise.catch(() => {
+        this.embeddingEnginePromise = null;
+      });
+    }
+    const engine = await this.embeddingEnginePromise;
+
+    const reply = await engine.embeddings.create({ input: texts });
+    return reply.data.map(d => d.embedding);
+  }
+}
@@ -0,0 +1,118 @@
+import * as d3 from 'd3-force';
+import { ForceLayoutEdge, ForceLayoutRequest, ForceLayoutResponse } from './forceLayoutProtocol';
+
+type SimNode = d3.SimulationNodeDatum & { id: string; pinned: boolean };
+type SimLink = d3.SimulationLinkDatum<SimNode> & { id: string };
+
+// Work per batch before yielding and posting positions back to the page
+const BATCH_BUDGET_MS = 12;
+// Where a new node starts relative to its parent before it settles
+const SPAWN_DISTANCE = 250;
+
+let simNodes = new Map<string, SimNode>();
+// Nodes free to move in the current run; everything else is held at its position
+let settling = new Set<string>();
+let simulation: d3.Simulation<SimNode, SimLink> | null = null;
+let batchTimer: ReturnType<typeof setTimeout> | null = null;
+
+const post = (settled: boolean) => {
+    const ids = Array.from(settling);
+    const coords = new Float64Array(ids.length * 2);
+    ids.forEach((id, i) => {
+        const node = simNodes.get(id)!;
+        coords[i * 2] = node.x ?? 0;
+        coords[i * 2 + 1] = node.y ?? 0;
+    });
+    const message: ForceLayoutResponse = { type: 'positions', ids, coords, settled };
+    (self as unknown as Worker).postMessage(message, [coords.buffer]);
+};
+
+const runBatch = () => {
+    if (!simulation) return;
+    const start = performance.now();
+    while (simulation.alpha() > simulation.alphaMin() && performance.now() - start < BATCH_BUDGET_MS) {
+        simulation.tick();
+    }
+    const settled = simulation.alpha() <= simulation.alphaMin();
+    post(settled);
+    if (settled) {
+        settling = new Set();
+        batchTimer = null;
+    } else {
+        batchTimer = setTimeout(runBatch, 0);
+    }
+};
+
+const placeNearParent = (node: SimNode, edges: ForceLayoutEdge[]) => {
+    const parentEdge = edges.find(e => e.target === node.id && simNodes.has(e.source) && !settling.has(e.source));
+    const parent = parentEdge ? simNodes.get(parentEdge.source) : undefined;
+    if (!parent) return;
+    const angle = Math.random() * Math.PI * 2;
+    node.x = (parent.x ?? 0) + Math.cos(angle) * SPAWN_DISTANCE;
+    node.y = (parent.y ?? 0) + Math.sin(angle) * SPAWN_DISTANCE;
+};
+
+const sync = ({ nodes, edges, relayout }: Extract<ForceLayoutRequest, { type: 'sync' }>) => {
+    if (batchTimer) clearTimeout(batchTimer);
+    batchTimer = null;
+    simulation?.stop();
+
+    const previous = simNodes;
+    const stillSettling = settling;
+    simNodes = new Map();
+    settling = new Set();
+    const fresh: SimNode[] = [];
+
+    nodes.forEach(input => {
+        const existing = previous.get(input.id);
+        const node: SimNode = existing ?? { id: input.id, x: input.x, y: input.y, pinned: input.pinned };
+        // The page owns positions of resting nodes (drags, undo); mid-run nodes keep the worker's
+        if (existing && (!stillSettling.has(input.id) || input.pinned)) {
+            node.x = input.x;
+            node.y = input.y;
+        }
+        const unpinned = existing?.pinned && !input.pinned;
+        node.pinned = input.pinned;
+        node.vx = 0;
+        node.vy = 0;
+        simNodes.set(input.id, node);
+
+        if (!input.pinned && (relayout || !existing || unpinned || stillSettling.has(input.id))) {
+            settling.add(input.id);
+            if (!existing) fresh.push(node);
+        }
+    });
+
+    // A first sync only seeds positions: the map as saved is the starting picture
+    if (previous.size === 0 && !relayout) {
+        settling = new Set();
+        return;
+    }
+    if (!relayout) fresh.forEach(node => placeNearParent(node, edges));
+    if (settling.size === 0) return;
+
+    simNodes.forEach(node => {
+        const free = settling.has(node.id);
+        node.fx = free ? null : node.x;
+        node.fy = free ? null : node.y;
+    });
+
+    const links: SimLink[] = edges
+        .filter(e => simNodes.has(e.source) && simNodes.has(e.target))
+        .map(e => ({ id: e.id, source: e.source, target: e.target }));
+
+    simulation = d3.forceSimulation(Array.from(simNodes.values()))
+        .force('charge', d3.forceManyBody().strength(-1000)) // Stronger repulsion
+        .force('center', relayout ? d3.forceCenter(0, 0).strength(0.05) : null)
+        .force('collide', d3.forceCollide().radius(200).strength(0.8)) // Big radius for expandable nodes
+        .force('link', d3.forceLink<SimNode, SimLink>(links).id(d => d.id).distance(250)) // More space for connections
+        .alpha(relayout ? 1 : 0.6)
+        .alphaDecay(0.05) // Faster settling
+        .stop();
+
+    runBatch();
+};
+
+self.onmessage = (event: MessageEvent<ForceLayoutRequest>) => {
+    if (event.data.type === 'sync') sync(event.data);
+};
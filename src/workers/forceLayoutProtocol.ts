@@ -0,0 +1,22 @@
+// Messages between useForceLayout and forceLayout.worker
+
+export interface ForceLayoutNode {
+    id: string;
+    x: number;
+    y: number;
+    pinned: boolean;
+}
+
+export interface ForceLayoutEdge {
+    id: string;
+    source: string;
+    target: string;
+}
+
+export type ForceLayoutRequest =
+    // `relayout` frees every unpinned node (layout just switched to force);
+    // otherwise only nodes the worker hasn't seen yet, or that were just unpinned, settle
+    | { type: 'sync'; nodes: ForceLayoutNode[]; edges: ForceLayoutEdge[]; relayout: boolean };
+
+// Positions come back in batches: coords holds x,y pairs in the order of `ids`
+export type ForceLayoutResponse = { type: 'positions'; ids: string[]; coords: Float64Array; settled: boolean };
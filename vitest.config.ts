@@ -0,0 +1,13 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL("./src", import.meta.url)) },
+  },
+  test: {
+    // Parsing and merging are pure logic: no browser, no model
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+  },
+});